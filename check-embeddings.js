@@ -16,7 +16,7 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey);
 async function checkEmbeddingsStatus() {
   console.log("🔍 Checking embeddings status...\n");
 
-  const tables = ["hotels", "restaurants", "tours", "shuttles"];
+  const tables = ["hotels", "restaurants", "tours", "shuttles", "experiences"];
 
   for (const table of tables) {
     try {
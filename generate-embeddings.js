@@ -159,6 +159,49 @@ async function generateTourEmbeddings() {
   }
 }
 
+async function generateExperienceEmbeddings() {
+  console.log("Generating embeddings for experiences without embeddings...");
+
+  const { data: experiences, error } = await supabase
+    .from("experiences")
+    .select("id, name, description, experience_type, location, includes")
+    .is("vector_embedding", null);
+
+  if (error) {
+    console.error("Error fetching experiences:", error);
+    return;
+  }
+
+  console.log(`Found ${experiences.length} experiences without embeddings`);
+
+  for (const experience of experiences) {
+    try {
+      const textToEmbed = `${experience.name}. ${experience.description}. Type: ${experience.experience_type}. Located in ${experience.location}. Includes: ${experience.includes?.join(", ") || "none"}`;
+
+      console.log(`Generating embedding for: ${experience.name}`);
+      const embedding = await generateEmbedding(textToEmbed);
+
+      const { error: updateError } = await supabase
+        .from("experiences")
+        .update({ vector_embedding: embedding })
+        .eq("id", experience.id);
+
+      if (updateError) {
+        console.error(
+          `Error updating experience ${experience.name}:`,
+          updateError
+        );
+      } else {
+        console.log(`✓ Embedding generated for: ${experience.name}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+    } catch (error) {
+      console.error(`Failed to process experience ${experience.name}:`, error);
+    }
+  }
+}
+
 async function generateShuttleEmbeddings() {
   console.log("Generating embeddings for shuttles without embeddings...");
 
@@ -217,6 +260,9 @@ async function main() {
     await generateShuttleEmbeddings();
     console.log("\n");
 
+    await generateExperienceEmbeddings();
+    console.log("\n");
+
     console.log("Embedding generation completed!");
   } catch (error) {
     console.error("Error in main process:", error);
@@ -253,4 +299,5 @@ export default {
   generateRestaurantEmbeddings,
   generateTourEmbeddings,
   generateShuttleEmbeddings,
+  generateExperienceEmbeddings,
 };
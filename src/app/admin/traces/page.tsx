@@ -0,0 +1,419 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { NavigationBreadcrumb } from "@/components/page/NavigationBreadcrumb";
+import {
+  Activity,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Coins,
+  RefreshCw,
+  Wrench,
+} from "lucide-react";
+import type {
+  AgentTrace,
+  ToolCallTrace,
+  TokenUsage,
+} from "@/lib/agents/tracing";
+
+interface TraceSummary {
+  id: string;
+  conversation_id: string | null;
+  message_id: string | null;
+  user_id: string | null;
+  query: string;
+  status: string;
+  strategy: string | null;
+  partners_returned: number;
+  total_duration_ms: number;
+  total_tokens: number;
+  error: string | null;
+  created_at: string;
+}
+
+interface TraceDetail extends TraceSummary {
+  analysis: Record<string, unknown> | null;
+  anchor: Record<string, unknown> | null;
+  clarification: Record<string, unknown> | null;
+  agents: AgentTrace[];
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+const STATUS_FILTERS = [
+  { value: "", label: "Tutte" },
+  { value: "completed", label: "Completate" },
+  { value: "failed", label: "Fallite" },
+  { value: "cancelled", label: "Annullate" },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: "bg-green-600/20 text-green-400",
+  failed: "bg-red-600/20 text-red-400",
+  timed_out: "bg-amber-600/20 text-amber-400",
+  cancelled: "bg-neutral-600/30 text-neutral-300",
+  running: "bg-blue-600/20 text-blue-400",
+};
+
+export default function AgentTracesPage() {
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [status, setStatus] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<TraceDetail | null>(null);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+
+  const fetchTraces = useCallback(
+    async (before?: string) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams();
+        if (status) params.set("status", status);
+        if (before) params.set("before", before);
+
+        const response = await fetch(`/api/admin/traces?${params}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load traces");
+        }
+
+        setTraces(prev => (before ? [...prev, ...result.data] : result.data));
+        setNextBefore(result.nextBefore);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load traces");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    setSelected(null);
+    fetchTraces();
+  }, [fetchTraces]);
+
+  const openTrace = async (id: string) => {
+    try {
+      setLoadingDetail(true);
+      const response = await fetch(`/api/admin/traces/${id}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load trace");
+      }
+
+      setSelected(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load trace");
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <NavigationBreadcrumb />
+
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Activity className="text-primary-500 h-7 w-7" />
+            <div>
+              <h1 className="text-2xl font-bold">Tracce degli agenti</h1>
+              <p className="text-sm text-neutral-400">
+                Agenti eseguiti, chiamate ai tool, tempi ed errori di ogni
+                risposta
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {STATUS_FILTERS.map(filter => (
+              <Button
+                key={filter.value}
+                size="sm"
+                variant={status === filter.value ? "default" : "outline"}
+                onClick={() => setStatus(filter.value)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fetchTraces()}
+              aria-label="Aggiorna"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-lg border border-red-800 bg-red-950/40 p-4 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-5">
+          {/* Trace list */}
+          <div className="space-y-2 lg:col-span-2">
+            {traces.map(trace => (
+              <button
+                key={trace.id}
+                onClick={() => openTrace(trace.id)}
+                className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                  selected?.id === trace.id
+                    ? "border-primary-500 bg-neutral-900"
+                    : "border-neutral-800 bg-neutral-950 hover:bg-neutral-900"
+                }`}
+              >
+                <div className="mb-1 flex items-center justify-between gap-2">
+                  <StatusBadge status={trace.status} />
+                  <span className="text-xs text-neutral-500">
+                    {new Date(trace.created_at).toLocaleString("it-IT")}
+                  </span>
+                </div>
+                <p className="line-clamp-2 text-sm">{trace.query}</p>
+                <div className="mt-2 flex flex-wrap gap-3 text-xs text-neutral-400">
+                  {trace.strategy && <span>{trace.strategy}</span>}
+                  <span>{formatDuration(trace.total_duration_ms)}</span>
+                  <span>{trace.partners_returned} partner</span>
+                  <span>{trace.total_tokens} token</span>
+                </div>
+              </button>
+            ))}
+
+            {!loading && traces.length === 0 && (
+              <p className="py-8 text-center text-sm text-neutral-500">
+                Nessuna traccia trovata
+              </p>
+            )}
+
+            {loading && (
+              <div className="animate-pulse space-y-2">
+                {[1, 2, 3].map(i => (
+                  <div key={i} className="h-20 rounded-lg bg-neutral-800" />
+                ))}
+              </div>
+            )}
+
+            {nextBefore && !loading && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => fetchTraces(nextBefore)}
+              >
+                Carica altre
+              </Button>
+            )}
+          </div>
+
+          {/* Trace detail */}
+          <div className="lg:col-span-3">
+            {loadingDetail ? (
+              <div className="h-96 animate-pulse rounded-lg bg-neutral-800" />
+            ) : selected ? (
+              <TraceDetailView trace={selected} />
+            ) : (
+              <p className="py-16 text-center text-sm text-neutral-500">
+                Seleziona una traccia per vedere i dettagli
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TraceDetailView({ trace }: { trace: TraceDetail }) {
+  const usage: TokenUsage = {
+    requests: trace.requests,
+    inputTokens: trace.input_tokens,
+    outputTokens: trace.output_tokens,
+    totalTokens: trace.total_tokens,
+  };
+
+  return (
+    <Card className="border-neutral-800 bg-neutral-950 text-white">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">{trace.query}</CardTitle>
+          <StatusBadge status={trace.status} />
+        </div>
+        <div className="flex flex-wrap gap-4 text-xs text-neutral-400">
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {formatDuration(trace.total_duration_ms)}
+          </span>
+          <UsageLabel usage={usage} />
+          {trace.strategy && <span>Strategia: {trace.strategy}</span>}
+          <span>{trace.partners_returned} partner restituiti</span>
+        </div>
+        <div className="space-y-0.5 font-mono text-xs text-neutral-500">
+          <p>trace: {trace.id}</p>
+          {trace.conversation_id && (
+            <p>conversation: {trace.conversation_id}</p>
+          )}
+          {trace.message_id && <p>message: {trace.message_id}</p>}
+          {trace.user_id && <p>user: {trace.user_id}</p>}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {trace.error && <ErrorLine message={trace.error} />}
+
+        {trace.analysis && (
+          <JsonSection title="Analisi della query" value={trace.analysis} />
+        )}
+        {trace.anchor && (
+          <JsonSection title="Hotel di riferimento" value={trace.anchor} />
+        )}
+        {trace.clarification && (
+          <JsonSection
+            title="Domanda di chiarimento"
+            value={trace.clarification}
+          />
+        )}
+
+        <Separator className="bg-neutral-800" />
+
+        {trace.agents.length === 0 && (
+          <p className="text-sm text-neutral-500">Nessun agente eseguito</p>
+        )}
+
+        {trace.agents.map((agent, index) => (
+          <div
+            key={`${agent.agent}-${index}`}
+            className="rounded-lg border border-neutral-800 p-3"
+          >
+            <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold capitalize">{agent.agent}</span>
+                <StatusBadge status={agent.status} />
+                {agent.anchored && (
+                  <Badge variant="outline" className="text-neutral-300">
+                    vicino all&apos;hotel
+                  </Badge>
+                )}
+              </div>
+              <div className="flex gap-3 text-xs text-neutral-400">
+                <span>{formatDuration(agent.durationMs)}</span>
+                <UsageLabel usage={agent.usage} />
+              </div>
+            </div>
+
+            {agent.error && <ErrorLine message={agent.error} />}
+
+            <div className="space-y-2">
+              {agent.toolCalls.map(call => (
+                <ToolCallView key={call.callId} call={call} />
+              ))}
+              {agent.toolCalls.length === 0 && (
+                <p className="text-xs text-neutral-500">
+                  Nessuna chiamata ai tool
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ToolCallView({ call }: { call: ToolCallTrace }) {
+  const [expanded, setExpanded] = useState(false);
+  const partners = (call.output as { partners?: unknown[] } | undefined)
+    ?.partners;
+
+  return (
+    <div className="rounded-md bg-neutral-900 p-2 text-sm">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="flex w-full items-center justify-between gap-2 text-left"
+      >
+        <span className="flex items-center gap-2">
+          {expanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+          <Wrench className="h-3 w-3 text-neutral-400" />
+          <span className="font-mono">{call.tool}</span>
+          {call.error && <AlertTriangle className="h-4 w-4 text-red-400" />}
+        </span>
+        <span className="text-xs text-neutral-400">
+          {Array.isArray(partners) && `${partners.length} risultati · `}
+          {formatDuration(call.durationMs)}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          {call.error && <ErrorLine message={call.error} />}
+          <JsonSection title="Argomenti" value={call.args} />
+          <JsonSection title="Output" value={call.output} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function JsonSection({ title, value }: { title: string; value: unknown }) {
+  return (
+    <div>
+      <p className="mb-1 text-xs font-medium text-neutral-400">{title}</p>
+      <pre className="max-h-80 overflow-auto rounded bg-black p-2 text-xs text-neutral-300">
+        {JSON.stringify(value, null, 2) ?? "—"}
+      </pre>
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <Badge className={STATUS_STYLES[status] || STATUS_STYLES.cancelled}>
+      {status}
+    </Badge>
+  );
+}
+
+function UsageLabel({ usage }: { usage: TokenUsage }) {
+  return (
+    <span
+      className="flex items-center gap-1"
+      title={`${usage.inputTokens} input · ${usage.outputTokens} output · ${usage.requests} richieste`}
+    >
+      <Coins className="h-3 w-3" />
+      {usage.totalTokens} token
+    </span>
+  );
+}
+
+function ErrorLine({ message }: { message: string }) {
+  return (
+    <p className="mb-2 flex items-start gap-2 rounded bg-red-950/40 p-2 text-xs text-red-300">
+      <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+      {message}
+    </p>
+  );
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
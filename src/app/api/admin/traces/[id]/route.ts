@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/server-auth-utils";
+import { supabase } from "@/lib/supabase-server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: traceId } = await params;
+  try {
+    await requireRole("admin");
+
+    // Validate trace ID format (UUID)
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(traceId)) {
+      return NextResponse.json(
+        { error: "Invalid trace ID format", success: false },
+        { status: 400 }
+      );
+    }
+
+    const { data: trace, error } = await supabase
+      .from("agent_traces")
+      .select("*")
+      .eq("id", traceId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Trace not found", success: false },
+          { status: 404 }
+        );
+      }
+      console.error("Database error fetching trace:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch trace", success: false },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: trace });
+  } catch (error) {
+    console.error(`API error in GET /api/admin/traces/${traceId}:`, error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+        success: false,
+      },
+      {
+        status:
+          error instanceof Error && error.message.startsWith("Unauthorized")
+            ? 401
+            : error instanceof Error && error.message.startsWith("Forbidden")
+              ? 403
+              : 500,
+      }
+    );
+  }
+}
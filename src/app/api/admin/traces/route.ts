@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/server-auth-utils";
+import { supabase } from "@/lib/supabase-server";
+
+const listTracesSchema = z.object({
+  status: z.enum(["running", "completed", "failed", "cancelled"]).optional(),
+  conversationId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  // Return traces created before this timestamp (pagination)
+  before: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireRole("admin");
+
+    const { searchParams } = new URL(request.url);
+    const validation = listTracesSchema.safeParse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: validation.error.issues,
+          success: false,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { status, conversationId, userId, before, limit } = validation.data;
+
+    // The list omits the heavy per-agent tool calls
+    let query = supabase
+      .from("agent_traces")
+      .select(
+        "id, conversation_id, message_id, user_id, query, status, strategy, partners_returned, total_duration_ms, total_tokens, error, created_at"
+      )
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (status) query = query.eq("status", status);
+    if (conversationId) query = query.eq("conversation_id", conversationId);
+    if (userId) query = query.eq("user_id", userId);
+    if (before) query = query.lt("created_at", before);
+
+    const { data: traces, error } = await query;
+
+    if (error) {
+      console.error("Database error fetching traces:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch traces", success: false },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: traces || [],
+      nextBefore:
+        traces && traces.length === limit
+          ? traces[traces.length - 1].created_at
+          : null,
+    });
+  } catch (error) {
+    console.error("API error in GET /api/admin/traces:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+        success: false,
+      },
+      {
+        status:
+          error instanceof Error && error.message.startsWith("Unauthorized")
+            ? 401
+            : error instanceof Error && error.message.startsWith("Forbidden")
+              ? 403
+              : 500,
+      }
+    );
+  }
+}
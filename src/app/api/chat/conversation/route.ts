@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { chatWithAgent } from "@/lib/agents";
+import { runFallbackSearch } from "@/lib/agents/fallback-search";
+import {
+  getServerAuthUser,
+  getServerUserProfile,
+} from "@/lib/server-auth-utils";
+import { resolveLanguage } from "@/lib/agents/language";
+import { checkUserInput, describeBlockedInput } from "@/lib/agents/guardrails";
+import { checkDailyBudget, withLlmUsageScope } from "@/lib/llm-usage";
 import { z } from "zod";
 
 const chatSchema = z.object({
@@ -78,11 +86,59 @@ export async function POST(request: NextRequest) {
 
     const { messages, userPreferences } = validation.data;
 
+    const conversation = {
+      messageCount: messages.length,
+      lastMessage: messages[messages.length - 1],
+    };
+
+    const { user } = await getServerAuthUser();
+    // Reply in the language of the message, else the profile's one
+    const profile = user ? await getServerUserProfile(user.id) : null;
+    const language = resolveLanguage(
+      conversation.lastMessage.content,
+      profile?.preferred_language
+    );
+
+    // Injection attempts, abuse and off-topic requests never reach the agents
+    const verdict = checkUserInput(conversation.lastMessage.content);
+    if (!verdict.allowed) {
+      return NextResponse.json(
+        {
+          error: describeBlockedInput(verdict.reason, language),
+          blocked: true,
+          reason: verdict.reason,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Daily AI budget exhausted: answer with the standard search
+    const budget = await checkDailyBudget(user?.id);
+    if (!budget.allowed) {
+      const fallback = await runFallbackSearch(
+        conversation.lastMessage.content,
+        language
+      );
+      return NextResponse.json({
+        success: true,
+        message: fallback.message,
+        toolCalls: [],
+        partners: fallback.partners,
+        budgetExceeded: true,
+        conversation,
+      });
+    }
+
     // Chat with OpenAI Agent
-    const result = await chatWithAgent({
-      messages,
-      userPreferences,
-    });
+    const result = await withLlmUsageScope(
+      { route: "chat/conversation", userId: user?.id },
+      () =>
+        chatWithAgent({
+          messages,
+          userPreferences,
+          language,
+        })
+    );
 
     if (!result.success) {
       return NextResponse.json(
@@ -94,13 +150,11 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: result.message,
+      partnerMentions: result.partnerMentions || [],
       toolCalls: result.toolCalls,
       partners: result.partners || [],
       debug: result.debug,
-      conversation: {
-        messageCount: messages.length,
-        lastMessage: messages[messages.length - 1],
-      },
+      conversation,
     });
   } catch (error) {
     console.error("Chat conversation API error:", error);
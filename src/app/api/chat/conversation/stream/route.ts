@@ -2,6 +2,30 @@ import { NextRequest } from "next/server";
 import { z } from "zod";
 import { runAgentOrchestration } from "@/lib/agents/orchestrator";
 import { chatAgent } from "@/lib/agents";
+import {
+  getServerAuthUser,
+  getServerUserProfile,
+} from "@/lib/server-auth-utils";
+import { toTravelPreferences } from "@/lib/agents/user-preferences";
+import { runFallbackSearch } from "@/lib/agents/fallback-search";
+import { LANGUAGE_NAMES, resolveLanguage } from "@/lib/agents/language";
+import {
+  verifiableLength,
+  verifyPartnerMentions,
+} from "@/lib/agents/grounding";
+import {
+  UNTRUSTED_DATA_NOTICE,
+  checkAgentOutput,
+  checkUserInput,
+  describeBlockedInput,
+  sanitizeUntrustedText,
+  wrapUntrusted,
+} from "@/lib/agents/guardrails";
+import {
+  checkDailyBudget,
+  recordAgentRunUsage,
+  withLlmUsageScope,
+} from "@/lib/llm-usage";
 import { run } from "@openai/agents";
 
 const streamChatSchema = z.object({
@@ -13,6 +37,10 @@ const streamChatSchema = z.object({
       })
     )
     .min(1),
+  // Conversation the answer belongs to, linked to the execution trace
+  conversationId: z.string().max(100).optional(),
+  // The last message answers a clarification question: search right away
+  clarificationResponse: z.boolean().optional(),
   userPreferences: z
     .object({
       budget: z.string().optional(),
@@ -69,31 +97,117 @@ export async function POST(request: NextRequest) {
       return new Response("Invalid request data", { status: 400 });
     }
 
-    const { messages, userPreferences } = validation.data;
-    const lastMessage = messages[messages.length - 1]?.content || "";
-    const conversationHistory = messages.slice(-5);
-
-    console.log(
-      "[STREAM_API] Starting streaming orchestration for:",
-      lastMessage
+    const { userPreferences, conversationId, clarificationResponse } =
+      validation.data;
+    // System messages are never taken from the client
+    const messages = validation.data.messages.filter(
+      message => message.role !== "system"
     );
+    // The request answers the user, never a client-written assistant turn
+    if (messages[messages.length - 1]?.role !== "user") {
+      return new Response("Invalid request data", { status: 400 });
+    }
+    const lastMessage = messages[messages.length - 1].content;
+
+    // A clarification answer ("a Roma, per 2 persone") completes the
+    // request that triggered the question
+    const clarifiedRequest = clarificationResponse
+      ? messages
+          .slice(0, -1)
+          .reverse()
+          .find(message => message.role === "user")?.content
+      : undefined;
+    const query = clarifiedRequest
+      ? `${clarifiedRequest}, ${lastMessage}`
+      : lastMessage;
+    // Earlier user turns that fail the guardrail are dropped instead of
+    // blocking every later turn; assistant turns come from the client too
+    // and are forwarded as untrusted text
+    const conversationHistory = messages
+      .slice(-5)
+      .filter(
+        message =>
+          message.role !== "user" || checkUserInput(message.content).allowed
+      )
+      .map(message =>
+        message.role === "assistant"
+          ? {
+              role: message.role,
+              content: sanitizeUntrustedText(message.content, 1000),
+            }
+          : message
+      );
+    // Anonymous chats are traced too, just without a user
+    const { user } = await getServerAuthUser();
+    const profile = user ? await getServerUserProfile(user.id) : null;
+    // Saved profile preferences become default filters for the agents
+    const preferences = toTravelPreferences(profile);
+    // Reply in the language of the message, else the profile's one
+    const language = resolveLanguage(query, profile?.preferred_language);
+    const budget = await checkDailyBudget(user?.id);
+    // Every model call made for this request is billed to it
+    const usageScope = {
+      route: "chat/stream",
+      userId: user?.id,
+      conversationId,
+    };
+
+    console.log("[STREAM_API] Starting streaming orchestration for:", query);
 
     // Create a TransformStream for Server-Sent Events
     const stream = new TransformStream();
     const writer = stream.writable.getWriter();
     const encoder = new TextEncoder();
 
+    // Cancel the work when the client disconnects or the stream is closed
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    request.signal.addEventListener("abort", () => abortController.abort(), {
+      once: true,
+    });
+
     // Function to send SSE data
     const sendSSE = (data: Record<string, unknown>) => {
+      if (signal.aborted) return;
       const message = `data: ${JSON.stringify(data)}\n\n`;
-      writer.write(encoder.encode(message));
+      writer.write(encoder.encode(message)).catch(() => {
+        abortController.abort();
+      });
     };
 
     // Start orchestration with progress callbacks
-    (async () => {
+    withLlmUsageScope(usageScope, async () => {
       try {
+        // Injection attempts, abuse and off-topic requests never reach the
+        // agents, also when hidden in the request a clarification completes
+        const verdict = [lastMessage, clarifiedRequest ?? ""]
+          .map(checkUserInput)
+          .find(result => !result.allowed) ?? { allowed: true };
+        if (!verdict.allowed) {
+          sendSSE({
+            type: "blocked",
+            reason: verdict.reason,
+            message: describeBlockedInput(verdict.reason, language),
+            timestamp: Date.now(),
+          });
+          return;
+        }
+
+        // Daily AI budget exhausted: answer with the standard search
+        if (!budget.allowed) {
+          const fallback = await runFallbackSearch(query, language);
+          sendSSE({
+            type: "complete",
+            message: fallback.message,
+            partners: fallback.partners,
+            budgetExceeded: true,
+            timestamp: Date.now(),
+          });
+          return;
+        }
+
         const orchestrationResult = await runAgentOrchestration(
-          lastMessage,
+          query,
           conversationHistory,
           progressUpdate => {
             console.log("[STREAM_API] Progress update:", progressUpdate);
@@ -101,6 +215,13 @@ export async function POST(request: NextRequest) {
               ...progressUpdate,
               category: "progress",
             });
+          },
+          {
+            signal,
+            trace: { conversationId, userId: user?.id },
+            allowClarification: !clarificationResponse,
+            preferences: preferences ?? undefined,
+            language,
           }
         );
 
@@ -113,6 +234,19 @@ export async function POST(request: NextRequest) {
           sendSSE({
             type: "error",
             message: orchestrationResult.message || "Orchestration failed",
+            traceId: orchestrationResult.traceId,
+            timestamp: Date.now(),
+          });
+          return;
+        }
+
+        // Missing details: ask the user instead of answering
+        if (orchestrationResult.clarification) {
+          sendSSE({
+            type: "clarification",
+            message: orchestrationResult.message,
+            clarification: orchestrationResult.clarification,
+            traceId: orchestrationResult.traceId,
             timestamp: Date.now(),
           });
           return;
@@ -127,47 +261,157 @@ export async function POST(request: NextRequest) {
 
         // Create context for chat agent
         const contextForAgent = `
-        User Query: "${lastMessage}"
+        User Query: "${query}"
 
         Search Results Summary:
         ${orchestrationResult.agentResults
           .map(
             result =>
-              `- ${result.agentType}: ${result.success ? `${result.partners.length} partners found` : "failed"}`
+              `- ${result.agentType}: ${result.success ? `${result.partners.length} partners found` : result.status === "timed_out" ? "timed out (no results yet)" : "failed"}`
           )
           .join("\n")}
 
         Total Partners Found: ${orchestrationResult.partners.length}
 
         Partner Details:
-        ${orchestrationResult.partners
-          .slice(0, 10) // Limit to first 10 for context
-          .map(
-            partner =>
-              `- ${partner.name} (${partner.type}) in ${partner.location}`
-          )
-          .join("\n")}
+        ${wrapUntrusted(
+          orchestrationResult.partners
+            .slice(0, 10) // Limit to first 10 for context
+            .map(
+              partner =>
+                `- ${sanitizeUntrustedText(partner.name)} (${partner.type}) in ${sanitizeUntrustedText(partner.location)}${partner.distance_to_hotel_km !== undefined ? `, ${partner.distance_to_hotel_km} km from ${sanitizeUntrustedText(orchestrationResult.executionSummary.anchor?.name ?? "the hotel")}` : ""}`
+            )
+            .join("\n")
+        )}
 
         User Preferences: ${userPreferences ? JSON.stringify(userPreferences) : "None specified"}
 
-        Please provide a conversational response that acknowledges their request and presents these travel recommendations in an engaging way.
+        Saved Profile Preferences Applied As Filters:
+        ${
+          orchestrationResult.executionSummary.appliedPreferences.length > 0
+            ? orchestrationResult.executionSummary.appliedPreferences
+                .map(preference => `- ${preference.description}`)
+                .join("\n")
+            : "None"
+        }
+
+        Please provide a conversational response that acknowledges their request and presents these travel recommendations in an engaging way. If saved profile preferences were applied, briefly mention how they shaped the results.
+        Respond in ${LANGUAGE_NAMES[language]}.
+        ${UNTRUSTED_DATA_NOTICE}
         `;
 
-        // Run chat agent
-        const chatResponse = await run(chatAgent, contextForAgent);
-        const finalMessage =
-          chatResponse.finalOutput ||
+        // Run chat agent in streaming mode. The text is forwarded one
+        // sentence at a time, only once it passed the output guardrail and
+        // the grounding check: nothing unchecked reaches the client
+        const chatStream = await run(chatAgent, contextForAgent, {
+          stream: true,
+          signal,
+        });
+
+        const { searchLocation } = orchestrationResult.executionSummary;
+        const queryLocations = searchLocation ? [searchLocation] : [];
+        let streamedText = "";
+        let checkedLength = 0;
+        let outputBlocked = false;
+        const releaseCheckedText = (flush: boolean) => {
+          if (outputBlocked) return;
+          const end = flush
+            ? streamedText.length
+            : verifiableLength(streamedText);
+          if (end <= checkedLength) return;
+
+          // A leak can span several sentences: the check covers all the text
+          if (!checkAgentOutput(streamedText.slice(0, end)).allowed) {
+            outputBlocked = true;
+            // The text already shown is replaced by the aggregated summary
+            sendSSE({
+              type: "text_replace",
+              message: orchestrationResult.message,
+              timestamp: Date.now(),
+            });
+            return;
+          }
+
+          const continuesLine =
+            checkedLength > 0 && streamedText[checkedLength - 1] !== "\n";
+          const pieces = streamedText.slice(checkedLength, end).split("\n");
+          checkedLength = end;
+          const delta = pieces
+            .map((piece, index) => {
+              const newline = index < pieces.length - 1 ? "\n" : "";
+              const body = piece.trim();
+              if (!body) return piece + newline;
+              const grounded = verifyPartnerMentions(
+                body,
+                orchestrationResult.partners,
+                queryLocations
+              ).message;
+              // Sentences about venues the agents never found are dropped,
+              // keeping the line break of a line already partly shown
+              if (!grounded) {
+                return index === 0 && continuesLine ? newline : "";
+              }
+              return piece.replace(body, () => grounded) + newline;
+            })
+            .join("");
+
+          if (delta) {
+            sendSSE({
+              type: "text_delta",
+              delta,
+              timestamp: Date.now(),
+            });
+          }
+        };
+
+        for await (const delta of chatStream.toTextStream()) {
+          streamedText += delta;
+          releaseCheckedText(false);
+        }
+        releaseCheckedText(true);
+
+        await chatStream.completed;
+        recordAgentRunUsage(
+          chatAgent,
+          "chat_response",
+          chatStream.rawResponses
+        );
+        if (chatStream.error) {
+          throw chatStream.error;
+        }
+
+        const answer =
+          chatStream.finalOutput ||
+          streamedText ||
           "I found some great travel options for you!";
+        // A leaked or hijacked answer is replaced by the aggregated summary
+        const checkedAnswer = checkAgentOutput(answer).allowed
+          ? answer
+          : orchestrationResult.message;
+        // Venues the agents never found are dropped, the others link to
+        // their partner page
+        const grounding = verifyPartnerMentions(
+          checkedAnswer,
+          orchestrationResult.partners,
+          queryLocations
+        );
+        const finalMessage = grounding.message || orchestrationResult.message;
 
         // Send final response
         sendSSE({
           type: "complete",
           message: finalMessage,
+          partnerMentions: grounding.mentions,
           partners: orchestrationResult.partners,
           executionSummary: orchestrationResult.executionSummary,
+          traceId: orchestrationResult.traceId,
           timestamp: Date.now(),
         });
       } catch (error) {
+        if (signal.aborted) {
+          console.log("[STREAM_API] Client disconnected, run cancelled");
+          return;
+        }
         console.error("[STREAM_API] Error:", error);
         sendSSE({
           type: "error",
@@ -181,9 +425,11 @@ export async function POST(request: NextRequest) {
           type: "end",
           timestamp: Date.now(),
         });
-        writer.close();
+        writer.close().catch(() => {
+          // Stream already closed by the client
+        });
       }
-    })();
+    });
 
     // Return the readable stream with proper headers for SSE
     return new Response(stream.readable, {
@@ -122,6 +122,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Link the assistant answer to the agent execution trace that produced it
+    const traceId = (validatedMetadata as { traceId?: unknown }).traceId;
+    if (role === "assistant" && typeof traceId === "string") {
+      const { error: traceError } = await supabase
+        .from("agent_traces")
+        .update({ message_id: message.id })
+        .eq("id", traceId)
+        .eq("conversation_id", conversationId);
+
+      if (traceError) {
+        console.warn("Failed to link message to trace:", traceError);
+      }
+    }
+
     // Update conversation's updated_at timestamp
     const { error: updateError } = await supabase
       .from("conversations")
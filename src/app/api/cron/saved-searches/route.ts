@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runSavedSearchAlerts } from "@/lib/saved-searches";
+
+// Il job può superare il timeout predefinito delle funzioni
+export const maxDuration = 300;
+
+/**
+ * Job pianificato (vercel.json): rivaluta le ricerche salvate e notifica i
+ * nuovi risultati. Richiede "Authorization: Bearer CRON_SECRET".
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET not set, saved search job disabled");
+    return NextResponse.json(
+      { error: "Cron jobs are not configured" },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runSavedSearchAlerts({
+      baseUrl: request.nextUrl.origin,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("❌ Saved search job error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
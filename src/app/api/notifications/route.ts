@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { requireAuth } from "@/lib/server-auth-utils";
+import { listNotifications, markNotificationsRead } from "@/lib/notifications";
+import { NextRequest, NextResponse } from "next/server";
+
+const listNotificationsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Without ids every unread notification is marked as read
+const markReadSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+
+    const validation = listNotificationsSchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { notifications, unreadCount } = await listNotifications(
+      user.id,
+      validation.data.limit
+    );
+
+    return NextResponse.json({ success: true, notifications, unreadCount });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+
+    const body = await request.json().catch(() => ({}));
+    const validation = markReadSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await markNotificationsRead(user.id, validation.data.ids);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+function errorResponse(error: unknown) {
+  console.error("❌ Notifications API error:", error);
+  return NextResponse.json(
+    {
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    {
+      status:
+        error instanceof Error && error.message.startsWith("Unauthorized")
+          ? 401
+          : 500,
+    }
+  );
+}
@@ -1,16 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { vectorSearch, searchPartners } from "@/lib/supabase-server";
+import { searchPartners } from "@/lib/supabase-server";
+import { vectorSearch } from "@/lib/hybrid-search";
 import { z } from "zod";
+import { geoFilterSchema, resolveGeoCenter } from "@/lib/geo";
 
 const vectorSearchSchema = z.object({
   query: z.string().min(1, "Query is required"),
-  partnerType: z.enum(["hotel", "restaurant", "tour", "shuttle"]).optional(),
+  partnerType: z
+    .enum(["hotel", "restaurant", "tour", "shuttle", "experience"])
+    .optional(),
   limit: z.number().min(1).max(50).default(10),
   threshold: z.number().min(0).max(1).default(0.5),
+  near: geoFilterSchema.optional(),
+  sortBy: z.enum(["similarity", "distance"]).default("similarity"),
 });
 
 const filterSearchSchema = z.object({
-  type: z.enum(["hotel", "restaurant", "tour", "shuttle"]).optional(),
+  type: z
+    .enum(["hotel", "restaurant", "tour", "shuttle", "experience"])
+    .optional(),
   location: z.string().optional(),
   minRating: z.number().min(1).max(5).optional(),
   maxPrice: z.number().optional(),
@@ -78,10 +86,31 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const { query, partnerType, limit, threshold } = validation.data;
+      const { query, partnerType, limit, threshold, near, sortBy } =
+        validation.data;
+
+      const center = near ? resolveGeoCenter(near) : null;
+      if (near && !center) {
+        return NextResponse.json(
+          { error: `Unknown place: ${near.place}` },
+          { status: 400 }
+        );
+      }
 
       // Perform vector search
-      const results = await vectorSearch(query, partnerType, limit, threshold);
+      const results = await vectorSearch(
+        query,
+        partnerType,
+        limit,
+        threshold,
+        center && near
+          ? {
+              center,
+              radiusKm: near.radiusKm,
+              sortByDistance: sortBy === "distance",
+            }
+          : undefined
+      );
 
       return NextResponse.json({
         success: true,
@@ -89,7 +118,13 @@ export async function POST(request: NextRequest) {
         query: query,
         results: results,
         count: results.length,
-        filters: { partnerType, limit, threshold },
+        filters: {
+          partnerType,
+          limit,
+          threshold,
+          near: center && near ? { ...center, radiusKm: near.radiusKm } : null,
+          sortBy,
+        },
       });
     } else if (searchType === "filter") {
       // Filter search validation
@@ -147,7 +182,7 @@ export async function GET() {
           searchTypes: {
             vector: {
               required: ["query"],
-              optional: ["partnerType", "limit", "threshold"],
+              optional: ["partnerType", "limit", "threshold", "near", "sortBy"],
             },
             filter: {
               optional: [
@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createTravelPlan } from "@/lib/agents/travel-planning-agent";
+import {
+  getServerAuthUser,
+  getServerUserProfile,
+} from "@/lib/server-auth-utils";
+import { resolveLanguage } from "@/lib/agents/language";
+import { getAgentMessages } from "@/lib/agents/messages";
+import { checkUserInput, describeBlockedInput } from "@/lib/agents/guardrails";
+import { checkDailyBudget, withLlmUsageScope } from "@/lib/llm-usage";
 
 const planningSchema = z.object({
   selectedPartners: z
@@ -10,7 +18,7 @@ const planningSchema = z.object({
         name: z.string(),
         description: z.string(),
         location: z.string(),
-        type: z.enum(["hotel", "restaurant", "tour", "shuttle"]),
+        type: z.enum(["hotel", "restaurant", "tour", "shuttle", "experience"]),
         rating: z.number(),
         price_range: z.string(),
         images: z.array(z.string()).optional(),
@@ -46,6 +54,8 @@ const planningSchema = z.object({
         .optional(),
     })
     .optional(),
+  // Plan language, detected from userQuery when missing
+  language: z.enum(["it", "en", "fr", "de", "es"]).optional(),
 });
 
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
@@ -100,12 +110,49 @@ export async function POST(request: NextRequest) {
       "partners"
     );
 
+    const { user } = await getServerAuthUser();
+    // Plan language: requested, else the query's, else the profile's
+    const profile = user ? await getServerUserProfile(user.id) : null;
+    const language =
+      validatedData.language ??
+      resolveLanguage(validatedData.userQuery, profile?.preferred_language);
+
+    // Injection attempts, abuse and off-topic requests never reach the agent
+    const verdict = checkUserInput(validatedData.userQuery);
+    if (!verdict.allowed) {
+      return NextResponse.json(
+        {
+          error: describeBlockedInput(verdict.reason, language),
+          blocked: true,
+          reason: verdict.reason,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Plans need the model: no fallback once the daily budget is spent
+    const budget = await checkDailyBudget(user?.id);
+    if (!budget.allowed) {
+      return NextResponse.json(
+        {
+          error: getAgentMessages(language).planning.budgetExceeded,
+          budgetExceeded: true,
+        },
+        { status: 429 }
+      );
+    }
+
     // Create travel plan using the agent
-    const travelPlan = await createTravelPlan({
-      selectedPartners: validatedData.selectedPartners,
-      userQuery: validatedData.userQuery,
-      preferences: validatedData.preferences || {},
-    });
+    const travelPlan = await withLlmUsageScope(
+      { route: "planning/create", userId: user?.id },
+      () =>
+        createTravelPlan({
+          selectedPartners: validatedData.selectedPartners,
+          userQuery: validatedData.userQuery,
+          preferences: validatedData.preferences || {},
+          language,
+        })
+    );
 
     console.log("[PLANNING_API] Travel plan created successfully");
 
@@ -1,6 +1,14 @@
 import { NextRequest } from "next/server";
 import { z } from "zod";
 import { createTravelPlanWithProgress } from "@/lib/agents/travel-planning-agent";
+import {
+  getServerAuthUser,
+  getServerUserProfile,
+} from "@/lib/server-auth-utils";
+import { resolveLanguage } from "@/lib/agents/language";
+import { getAgentMessages } from "@/lib/agents/messages";
+import { checkUserInput, describeBlockedInput } from "@/lib/agents/guardrails";
+import { checkDailyBudget, withLlmUsageScope } from "@/lib/llm-usage";
 
 const streamPlanningSchema = z.object({
   selectedPartners: z
@@ -10,7 +18,7 @@ const streamPlanningSchema = z.object({
         name: z.string(),
         description: z.string(),
         location: z.string(),
-        type: z.enum(["hotel", "restaurant", "tour", "shuttle"]),
+        type: z.enum(["hotel", "restaurant", "tour", "shuttle", "experience"]),
         rating: z.number(),
         price_range: z.string(),
         images: z.array(z.string()).optional(),
@@ -46,6 +54,8 @@ const streamPlanningSchema = z.object({
         .optional(),
     })
     .optional(),
+  // Plan language, detected from userQuery when missing
+  language: z.enum(["it", "en", "fr", "de", "es"]).optional(),
 });
 
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
@@ -96,6 +106,15 @@ export async function POST(request: NextRequest) {
     }
 
     const { selectedPartners, userQuery, preferences } = validation.data;
+    const { user } = await getServerAuthUser();
+    // Plan language: requested, else the query's, else the profile's
+    const profile = user ? await getServerUserProfile(user.id) : null;
+    const language =
+      validation.data.language ??
+      resolveLanguage(userQuery, profile?.preferred_language);
+    const budget = await checkDailyBudget(user?.id);
+    // Every model call made for this request is billed to it
+    const usageScope = { route: "planning/stream", userId: user?.id };
 
     console.log(
       "[PLANNING_STREAM] Starting streaming planning for:",
@@ -111,20 +130,54 @@ export async function POST(request: NextRequest) {
     const writer = stream.writable.getWriter();
     const encoder = new TextEncoder();
 
+    // Cancel the work when the client disconnects or the stream is closed
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    request.signal.addEventListener("abort", () => abortController.abort(), {
+      once: true,
+    });
+
     // Function to send SSE data
     const sendSSE = (data: Record<string, unknown>) => {
+      if (signal.aborted) return;
       const message = `data: ${JSON.stringify(data)}\n\n`;
-      writer.write(encoder.encode(message));
+      writer.write(encoder.encode(message)).catch(() => {
+        abortController.abort();
+      });
     };
 
     // Start planning with progress callbacks
-    (async () => {
+    withLlmUsageScope(usageScope, async () => {
       try {
+        // Injection attempts, abuse and off-topic requests never reach the agent
+        const verdict = checkUserInput(userQuery);
+        if (!verdict.allowed) {
+          sendSSE({
+            type: "planning_blocked",
+            reason: verdict.reason,
+            message: describeBlockedInput(verdict.reason, language),
+            timestamp: Date.now(),
+          });
+          return;
+        }
+
+        // Plans need the model: no fallback once the daily budget is spent
+        if (!budget.allowed) {
+          sendSSE({
+            type: "planning_error",
+            message: getAgentMessages(language).planning.budgetExceeded,
+            budgetExceeded: true,
+            timestamp: Date.now(),
+          });
+          return;
+        }
+
         const travelPlan = await createTravelPlanWithProgress(
           {
             selectedPartners,
             userQuery,
             preferences: preferences || {},
+            language,
           },
           progressUpdate => {
             console.log("[PLANNING_STREAM] Progress update:", progressUpdate);
@@ -132,7 +185,8 @@ export async function POST(request: NextRequest) {
               ...progressUpdate,
               category: "planning_progress",
             });
-          }
+          },
+          signal
         );
 
         console.log("[PLANNING_STREAM] Planning completed successfully");
@@ -145,6 +199,10 @@ export async function POST(request: NextRequest) {
           timestamp: Date.now(),
         });
       } catch (error) {
+        if (signal.aborted) {
+          console.log("[PLANNING_STREAM] Client disconnected, run cancelled");
+          return;
+        }
         console.error("[PLANNING_STREAM] Error:", error);
         sendSSE({
           type: "planning_error",
@@ -160,9 +218,11 @@ export async function POST(request: NextRequest) {
           type: "planning_end",
           timestamp: Date.now(),
         });
-        writer.close();
+        writer.close().catch(() => {
+          // Stream already closed by the client
+        });
       }
-    })();
+    });
 
     // Return the readable stream with proper headers for SSE
     return new Response(stream.readable, {
@@ -4,7 +4,9 @@ import { z } from "zod";
 
 const ragQuerySchema = z.object({
   query: z.string().min(1, "Query is required").max(500, "Query too long"),
-  partnerType: z.enum(["hotel", "restaurant", "tour", "shuttle"]).optional(),
+  partnerType: z
+    .enum(["hotel", "restaurant", "tour", "shuttle", "experience"])
+    .optional(),
   location: z.string().optional(),
   context: z
     .object({
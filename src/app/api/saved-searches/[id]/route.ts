@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { requireAuth } from "@/lib/server-auth-utils";
+import { deleteSavedSearch, updateSavedSearch } from "@/lib/saved-searches";
+import { NextRequest, NextResponse } from "next/server";
+
+const updateSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    notify: z.boolean().optional(),
+  })
+  .refine(
+    changes => changes.name !== undefined || changes.notify !== undefined,
+    { message: "Provide name or notify" }
+  );
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await requireAuth();
+
+    const body = await request.json().catch(() => null);
+    const validation = updateSavedSearchSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const savedSearch = await updateSavedSearch(user.id, id, validation.data);
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, savedSearch });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const user = await requireAuth();
+
+    if (!(await deleteSavedSearch(user.id, id))) {
+      return NextResponse.json(
+        { error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+function errorResponse(error: unknown) {
+  console.error("❌ Saved search API error:", error);
+  return NextResponse.json(
+    {
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    {
+      status:
+        error instanceof Error && error.message.startsWith("Unauthorized")
+          ? 401
+          : 500,
+    }
+  );
+}
@@ -0,0 +1,75 @@
+import { requireAuth } from "@/lib/server-auth-utils";
+import {
+  MAX_SAVED_SEARCHES,
+  countSavedSearches,
+  createSavedSearch,
+  listSavedSearches,
+  savedSearchInputSchema,
+} from "@/lib/saved-searches";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET() {
+  try {
+    const user = await requireAuth();
+    const savedSearches = await listSavedSearches(user.id);
+
+    return NextResponse.json({ success: true, savedSearches });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+
+    const body = await request.json().catch(() => null);
+    const validation = savedSearchInputSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    if ((await countSavedSearches(user.id)) >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        {
+          error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save a new search.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const savedSearch = await createSavedSearch(user.id, validation.data);
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: `Unknown place: ${validation.data.near?.place}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`💾 Saved search "${savedSearch.name}" for user ${user.id}`);
+    return NextResponse.json({ success: true, savedSearch }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+function errorResponse(error: unknown) {
+  console.error("❌ Saved searches API error:", error);
+  return NextResponse.json(
+    {
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    {
+      status:
+        error instanceof Error && error.message.startsWith("Unauthorized")
+          ? 401
+          : 500,
+    }
+  );
+}
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase-server";
+import {
+  RATING_BANDS,
+  SEARCH_CONFIG,
+  SEARCH_FILTER_OPTIONS,
+} from "@/constants";
+import { resolveGeoCenter } from "@/lib/geo";
+import { searchFiltersSchema, toViewPartnerType } from "@/lib/search-filters";
+import { buildHybridSearchArgs } from "@/lib/hybrid-search";
+import type { SearchFacets } from "@/types";
+
+// Rate limiting
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT_MAX = parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "100");
+const RATE_LIMIT_WINDOW = parseInt(
+  process.env.RATE_LIMIT_WINDOW_MS || "900000"
+);
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const userLimit = rateLimitMap.get(ip);
+
+  if (!userLimit) {
+    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (now > userLimit.resetTime) {
+    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (userLimit.count >= RATE_LIMIT_MAX) {
+    return false;
+  }
+
+  userLimit.count += 1;
+  return true;
+}
+
+/**
+ * Conteggi dei filtri per la ricerca corrente: stessi filtri di
+ * /api/search/traditional, ogni faccetta calcolata senza la propria selezione
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    const ip =
+      request.headers.get("x-forwarded-for") ??
+      request.headers.get("x-real-ip") ??
+      "unknown";
+    if (!checkRateLimit(ip)) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = searchFiltersSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      query,
+      partnerTypes,
+      priceRange,
+      locations,
+      cuisineTypes,
+      tourTypes,
+      serviceTypes,
+      minRating,
+      near,
+    } = validation.data;
+
+    const center = near ? resolveGeoCenter(near) : null;
+    if (near && !center) {
+      return NextResponse.json(
+        { error: `Unknown place: ${near.place}` },
+        { status: 400 }
+      );
+    }
+
+    console.log("📊 Facets API - Validated filters:", validation.data);
+
+    // Stesso embedding della ricerca: i conteggi usano il criterio testuale
+    // della classifica ibrida
+    const { query_text, query_embedding, match_threshold } =
+      await buildHybridSearchArgs({ query });
+
+    const { data, error } = await supabase.rpc("partner_facets", {
+      search_query: query_text,
+      query_embedding,
+      match_threshold,
+      partner_types: partnerTypes.map(toViewPartnerType),
+      locations,
+      price_from: priceRange[0],
+      price_to: priceRange[1],
+      min_rating: minRating ?? null,
+      cuisine_types: cuisineTypes || [],
+      tour_types: tourTypes || [],
+      service_types: serviceTypes || [],
+      center_lat: center?.lat ?? null,
+      center_lng: center?.lng ?? null,
+      radius_km: center
+        ? (near?.radiusKm ?? SEARCH_CONFIG.defaultRadius)
+        : null,
+      location_options: SEARCH_FILTER_OPTIONS.locations,
+      cuisine_options: SEARCH_FILTER_OPTIONS.cuisineTypes,
+      tour_type_options: SEARCH_FILTER_OPTIONS.tourTypes,
+      service_type_options: SEARCH_FILTER_OPTIONS.serviceTypes,
+      rating_bands: RATING_BANDS,
+    });
+
+    if (error) {
+      console.error("❌ Facets query error:", error);
+      return NextResponse.json(
+        { error: `Database query failed: ${error.message}` },
+        { status: 500 }
+      );
+    }
+
+    const facets = toSearchFacets(data);
+    console.log("✅ Facets computed:", facets.partnerTypes);
+
+    return NextResponse.json({ success: true, facets });
+  } catch (error) {
+    console.error("❌ Facets API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json(
+    {
+      message: "Via Nexo Search Facets API",
+      version: "1.0.0",
+      description:
+        "Result counts of each search filter option, computed without the facet's own selection",
+      endpoints: {
+        POST: {
+          description:
+            "Same filters as /api/search/traditional (sortBy, cursor and limit are ignored)",
+          response: {
+            facets:
+              "{ partnerTypes, locations, priceLevels, cuisineTypes, tourTypes, serviceTypes, ratings }, each a map of option to count",
+          },
+        },
+      },
+    },
+    { status: 200 }
+  );
+}
+
+// Helper functions
+function toSearchFacets(data: unknown): SearchFacets {
+  const raw = (data || {}) as Partial<Record<keyof SearchFacets, unknown>>;
+  const counts = (value: unknown): Record<string, number> =>
+    Object.fromEntries(
+      Object.entries((value || {}) as Record<string, unknown>).map(
+        ([key, count]) => [key, Number(count) || 0]
+      )
+    );
+
+  // La vista chiama "transport" il tipo che i filtri chiamano "shuttle"
+  const { transport, ...partnerTypes } = counts(raw.partnerTypes);
+
+  return {
+    partnerTypes: { ...partnerTypes, shuttle: transport ?? 0 },
+    locations: counts(raw.locations),
+    priceLevels: counts(raw.priceLevels),
+    cuisineTypes: counts(raw.cuisineTypes),
+    tourTypes: counts(raw.tourTypes),
+    serviceTypes: counts(raw.serviceTypes),
+    ratings: counts(raw.ratings),
+  };
+}
@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runAgentOrchestration } from "@/lib/agents/orchestrator";
+import { runFallbackSearch } from "@/lib/agents/fallback-search";
+import {
+  getServerAuthUser,
+  getServerUserProfile,
+} from "@/lib/server-auth-utils";
+import { resolveLanguage } from "@/lib/agents/language";
+import { checkUserInput, describeBlockedInput } from "@/lib/agents/guardrails";
+import { checkDailyBudget, withLlmUsageScope } from "@/lib/llm-usage";
 import { z } from "zod";
 
 const searchSchema = z.object({
   query: z.string().min(1, "Query is required"),
-  partnerType: z.enum(["hotel", "restaurant", "tour", "shuttle"]).optional(),
+  partnerType: z
+    .enum(["hotel", "restaurant", "tour", "shuttle", "experience"])
+    .optional(),
   location: z.string().optional(),
   priceRange: z.string().optional(),
   minRating: z.number().min(1).max(5).optional(),
@@ -80,8 +90,53 @@ export async function POST(request: NextRequest) {
       .filter(Boolean)
       .join(" ");
 
+    const queryInfo = {
+      original: query,
+      contextual: contextualQuery,
+      filters: { partnerType, location, priceRange, minRating },
+    };
+
+    const { user } = await getServerAuthUser();
+    // The filters are appended in English: detect the language on the query
+    const profile = user ? await getServerUserProfile(user.id) : null;
+    const language = resolveLanguage(query, profile?.preferred_language);
+
+    // Injection attempts, abuse and off-topic requests never reach the agents
+    const verdict = checkUserInput(contextualQuery);
+    if (!verdict.allowed) {
+      return NextResponse.json(
+        {
+          error: describeBlockedInput(verdict.reason, language),
+          blocked: true,
+          reason: verdict.reason,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Daily AI budget exhausted: fall back to the standard search
+    const budget = await checkDailyBudget(user?.id);
+    if (!budget.allowed) {
+      const fallback = await runFallbackSearch(contextualQuery, language);
+      return NextResponse.json({
+        success: true,
+        message: fallback.message,
+        partners: fallback.partners,
+        agentResults: [],
+        budgetExceeded: true,
+        query: queryInfo,
+      });
+    }
+
     // Perform intelligent search using orchestrated agents
-    const result = await runAgentOrchestration(contextualQuery);
+    const result = await withLlmUsageScope(
+      { route: "search/intelligent", userId: user?.id },
+      () =>
+        runAgentOrchestration(contextualQuery, [], undefined, {
+          trace: { userId: user?.id },
+          language,
+        })
+    );
 
     if (!result.success) {
       return NextResponse.json(
@@ -96,11 +151,7 @@ export async function POST(request: NextRequest) {
       partners: result.partners,
       agentResults: result.agentResults,
       executionSummary: result.executionSummary,
-      query: {
-        original: query,
-        contextual: contextualQuery,
-        filters: { partnerType, location, priceRange, minRating },
-      },
+      query: queryInfo,
     });
   } catch (error) {
     console.error("Intelligent search API error:", error);
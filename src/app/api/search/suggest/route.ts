@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { SEARCH_CONFIG } from "@/constants";
+import { getServerAuthUser } from "@/lib/server-auth-utils";
+import { createCacheKey, searchCache, withCache } from "@/lib/cache";
+import {
+  getRecentSearches,
+  getTrendingSearches,
+  suggestSearchTerms,
+  type TrendingSearch,
+} from "@/lib/search-suggestions";
+
+// Parametri della query string
+const suggestSchema = z.object({
+  q: z.string().max(100).default(""),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+// Le tendenze cambiano lentamente: una lettura ogni 5 minuti basta
+const TRENDING_CACHE_TTL = 5 * 60 * 1000;
+
+// Rate limiting
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT_MAX = parseInt(
+  process.env.SUGGEST_RATE_LIMIT_MAX_REQUESTS || "600"
+);
+const RATE_LIMIT_WINDOW = parseInt(
+  process.env.RATE_LIMIT_WINDOW_MS || "900000"
+);
+
+function checkRateLimit(ip: string): boolean {
+  const now = Date.now();
+  const userLimit = rateLimitMap.get(ip);
+
+  if (!userLimit) {
+    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (now > userLimit.resetTime) {
+    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (userLimit.count >= RATE_LIMIT_MAX) {
+    return false;
+  }
+
+  userLimit.count += 1;
+  return true;
+}
+
+/**
+ * Autocompletamento: suggerimenti per il testo digitato, ricerche di
+ * tendenza e, per gli utenti autenticati, le loro ricerche recenti
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting (più alto delle ricerche: una richiesta per tasto)
+    const ip =
+      request.headers.get("x-forwarded-for") ??
+      request.headers.get("x-real-ip") ??
+      "unknown";
+    if (!checkRateLimit(ip)) {
+      return NextResponse.json(
+        { error: "Too many requests. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const validation = suggestSchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: validation.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { limit } = validation.data;
+    const query = validation.data.q.trim();
+    const { user } = await getServerAuthUser();
+
+    const [suggestions, trending, recent] = await Promise.all([
+      query.length > 0 ? suggestSearchTerms(query, limit) : [],
+      withCache(
+        searchCache,
+        createCacheKey("trending-searches", SEARCH_CONFIG.suggestionsLimit),
+        () => getTrendingSearches(SEARCH_CONFIG.suggestionsLimit),
+        TRENDING_CACHE_TTL
+      ).catch((error): TrendingSearch[] => {
+        // Senza tendenze restano i suggerimenti
+        console.error("❌ Trending searches error:", error);
+        return [];
+      }),
+      user
+        ? getRecentSearches(user.id, SEARCH_CONFIG.suggestionsLimit).catch(
+            (error): string[] => {
+              console.error("❌ Recent searches error:", error);
+              return [];
+            }
+          )
+        : [],
+    ]);
+
+    const lowerQuery = query.toLowerCase();
+    return NextResponse.json({
+      success: true,
+      query,
+      suggestions,
+      trending,
+      // Con un testo, solo le ricerche recenti che lo contengono
+      recent: recent.filter(search =>
+        search.toLowerCase().includes(lowerQuery)
+      ),
+      // Per gli anonimi il client usa le ricerche salvate in locale
+      authenticated: !!user,
+    });
+  } catch (error) {
+    console.error("❌ Search suggest API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase-server";
 import { z } from "zod";
+import { SEARCH_CONFIG } from "@/constants";
+import { toPartnerPrice } from "@/lib/pricing";
+import { resolveGeoCenter, roundDistance } from "@/lib/geo";
+import { searchFiltersSchema, toViewPartnerType } from "@/lib/search-filters";
+import { buildHybridSearchArgs } from "@/lib/hybrid-search";
+import { recordSearch } from "@/lib/search-suggestions";
+import { getServerAuthUser } from "@/lib/server-auth-utils";
+import type { PartnerPrice } from "@/types";
 
 // Schema di validazione per la ricerca tradizionale
-const traditionalSearchSchema = z.object({
-  query: z.string().default(""),
-  partnerTypes: z
-    .array(z.enum(["hotel", "restaurant", "tour", "shuttle"]))
-    .default([]),
-  priceRange: z.tuple([z.number().min(1), z.number().max(5)]).default([1, 5]),
-  locations: z.array(z.string()).default([]),
-  cuisineTypes: z.array(z.string()).optional(),
-  tourTypes: z.array(z.string()).optional(),
-  serviceTypes: z.array(z.string()).optional(),
+const traditionalSearchSchema = searchFiltersSchema.extend({
   sortBy: z
     .enum([
       "relevance",
@@ -22,10 +21,44 @@ const traditionalSearchSchema = z.object({
       "price-high",
       "rating",
       "recent",
+      "distance",
     ])
     .default("relevance"),
+  // Paginazione per offset: nextOffset della pagina precedente. Partner
+  // aggiunti o tolti tra due richieste possono spostare le righe di una
+  // pagina, il client scarta i duplicati
+  offset: z.number().int().min(0).default(0),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(SEARCH_CONFIG.maxResultsLimit)
+    .default(SEARCH_CONFIG.defaultResultsLimit),
 });
 
+// Filtri specifici di un tipo, risolti sulla tabella del tipo dietro la vista
+// partners: valgono solo per quel tipo e non escludono gli altri
+const TYPE_SPECIFIC_FILTERS = [
+  {
+    key: "cuisineTypes",
+    partnerType: "restaurant",
+    table: "restaurants",
+    column: "cuisine_type",
+  },
+  {
+    key: "tourTypes",
+    partnerType: "tour",
+    table: "tours",
+    column: "tour_type",
+  },
+  {
+    key: "serviceTypes",
+    partnerType: "transport",
+    table: "shuttles",
+    column: "service_type",
+  },
+] as const;
+
 // Rate limiting
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_MAX = parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "100");
@@ -55,15 +88,41 @@ function checkRateLimit(ip: string): boolean {
   return true;
 }
 
+// Riga di partners_with_prices (o di partners_near, con distance_km)
+interface PartnerRow {
+  id: string;
+  name: string;
+  type: Partner["type"];
+  description: string | null;
+  location: string | null;
+  price_range: string;
+  rating: number | null;
+  amenities: string[] | null;
+  coordinates: { lat: number; lng: number } | null;
+  contact_info: Partner["contact"] | null;
+  images: string[] | null;
+  created_at: string | null;
+  updated_at: string | null;
+  price_level: number | null;
+  price_min: number | null;
+  price_max: number | null;
+  price_typical: number | null;
+  price_unit: string | null;
+  price_currency: string | null;
+  distance_km?: number;
+}
+
 // Interfaccia Partner compatibile con il client
 interface Partner {
   id: string;
   name: string;
-  type: "hotel" | "restaurant" | "tour" | "transport";
+  type: "hotel" | "restaurant" | "tour" | "transport" | "experience";
   description: string;
   rating: number;
   reviewCount: number;
   priceRange: "budget" | "mid-range" | "luxury" | "premium";
+  price: PartnerPrice;
+  distanceKm?: number;
   location: {
     address: string;
     city: string;
@@ -121,9 +180,21 @@ export async function POST(request: NextRequest) {
       cuisineTypes,
       tourTypes,
       serviceTypes,
+      minRating,
       sortBy,
+      near,
+      offset,
+      limit,
     } = validation.data;
 
+    const center = near ? resolveGeoCenter(near) : null;
+    if (near && !center) {
+      return NextResponse.json(
+        { error: `Unknown place: ${near.place}` },
+        { status: 400 }
+      );
+    }
+
     console.log("🔍 Validated search parameters:", {
       query,
       partnerTypes,
@@ -132,7 +203,11 @@ export async function POST(request: NextRequest) {
       cuisineTypes,
       tourTypes,
       serviceTypes,
+      minRating,
       sortBy,
+      near,
+      offset,
+      limit,
     });
 
     // Proceed with query even if no filters to show all partners
@@ -140,58 +215,127 @@ export async function POST(request: NextRequest) {
       "🔍 Proceeding with search (showing all partners if no filters)"
     );
 
-    // Costruisci la query base
-    let supabaseQuery = supabase.from("partners").select(`
-        id, name, type, description, location, price_range, rating,
-        amenities, coordinates, contact_info, images, created_at, updated_at
-      `);
+    // Il totale si calcola solo sulla prima pagina. Senza filtri il conteggio
+    // esatto scansionerebbe tutto il catalogo: basta la stima di Postgres.
+    const hasFilters =
+      query.trim() !== "" ||
+      partnerTypes.length > 0 ||
+      locations.length > 0 ||
+      priceRange[0] > 1 ||
+      priceRange[1] < 5 ||
+      !!cuisineTypes?.length ||
+      !!tourTypes?.length ||
+      !!serviceTypes?.length ||
+      minRating !== undefined ||
+      !!center;
+    const countMode =
+      offset > 0 ? undefined : hasFilters ? "exact" : "estimated";
 
-    // Filtro per tipi di partner
-    if (partnerTypes.length > 0) {
-      const mappedTypes = partnerTypes.map(type =>
-        type === "shuttle" ? "transport" : type
-      );
-      supabaseQuery = supabaseQuery.in("type", mappedTypes);
-    }
+    // Con un testo la ricerca passa dalla classifica ibrida full-text e
+    // vettoriale: l'RPC applica tutti i filtri prima del limite, con lo
+    // stesso criterio testuale di partner_facets e delle ricerche salvate
+    const useHybridSearch = query.trim() !== "";
+    const radiusKm = near?.radiusKm ?? SEARCH_CONFIG.defaultRadius;
 
-    // Ricerca testuale
-    if (query.trim()) {
-      const escapedQuery = query.trim().replace(/[%\\]/g, "\\$&");
-      supabaseQuery = supabaseQuery.or(
-        `name.ilike.%${escapedQuery}%,description.ilike.%${escapedQuery}%,location.ilike.%${escapedQuery}%`
-      );
-    }
+    // Costruisci la query base: la classifica ibrida, la vista partners con
+    // il prezzo numerico, oppure i soli partner entro il raggio
+    // (partners_near restituisce le stesse colonne più distance_km)
+    let supabaseQuery = useHybridSearch
+      ? supabase.rpc(
+          "hybrid_search_partners",
+          await buildHybridSearchArgs({
+            query,
+            partnerTypes,
+            locations,
+            priceRange,
+            minRating,
+            cuisineTypes,
+            tourTypes,
+            serviceTypes,
+            near: center ? { center, radiusKm } : undefined,
+          }),
+          { count: countMode }
+        )
+      : center
+        ? supabase.rpc(
+            "partners_near",
+            {
+              center_lat: center.lat,
+              center_lng: center.lng,
+              radius_km: radiusKm,
+            },
+            { count: countMode }
+          )
+        : supabase.from("partners_with_prices").select(
+            `
+        id, name, type, description, location, price_range, rating,
+        amenities, coordinates, contact_info, images, created_at, updated_at,
+        price_level, price_min, price_max, price_typical, price_unit,
+        price_currency
+      `,
+            { count: countMode }
+          );
 
-    // Filtro per location
-    if (locations.length > 0) {
-      const locationFilters = locations
-        .map(loc => `location.ilike.%${loc}%`)
-        .join(",");
-      supabaseQuery = supabaseQuery.or(locationFilters);
-    }
+    if (!useHybridSearch) {
+      // Filtro per tipi di partner
+      const mappedTypes = partnerTypes.map(toViewPartnerType);
+      if (mappedTypes.length > 0) {
+        supabaseQuery = supabaseQuery.in("type", mappedTypes);
+      }
+
+      // Filtri per cucina, tipo di tour e tipo di servizio
+      const typeSpecificValues = { cuisineTypes, tourTypes, serviceTypes };
+      for (const filter of TYPE_SPECIFIC_FILTERS) {
+        const values = typeSpecificValues[filter.key] || [];
+        // Tipo non selezionato: il filtro non cambierebbe i risultati
+        if (
+          values.length === 0 ||
+          (mappedTypes.length > 0 && !mappedTypes.includes(filter.partnerType))
+        ) {
+          continue;
+        }
 
-    // Filtro per range di prezzo (mappiamo da numerico a stringa)
-    if (priceRange[0] > 1 || priceRange[1] < 5) {
-      const priceFilters: string[] = [];
-      for (let i = priceRange[0]; i <= priceRange[1]; i++) {
-        switch (i) {
-          case 1:
-            priceFilters.push("budget");
-            break;
-          case 2:
-            priceFilters.push("mid-range");
-            break;
-          case 3:
-            priceFilters.push("luxury");
-            break;
-          case 4:
-          case 5:
-            priceFilters.push("premium");
-            break;
+        const { data: matches, error: matchError } = await findMatchingIds(
+          filter.table,
+          filter.column,
+          values
+        );
+        if (matchError) {
+          console.error(`❌ ${filter.table} filter error:`, matchError);
+          return NextResponse.json(
+            { error: `Database query failed: ${matchError.message}` },
+            { status: 500 }
+          );
         }
+
+        console.log(
+          `🔍 ${filter.key} filter: ${matches.length} matching ${filter.table}`
+        );
+        // Partner di un altro tipo, oppure del tipo e con un valore richiesto
+        supabaseQuery = supabaseQuery.or(
+          `type.neq.${filter.partnerType},id.in.(${matches.join(",")})`
+        );
+      }
+
+      // Filtro per location
+      if (locations.length > 0) {
+        const locationFilters = locations
+          .map(loc => `location.ilike.%${loc}%`)
+          .join(",");
+        supabaseQuery = supabaseQuery.or(locationFilters);
+      }
+
+      // Filtro per range di prezzo sul livello 1-5: i partner senza prezzo
+      // noto sono esclusi
+      if (priceRange[0] > 1 || priceRange[1] < 5) {
+        supabaseQuery = supabaseQuery
+          .gte("price_level", priceRange[0])
+          .lte("price_level", priceRange[1]);
       }
-      if (priceFilters.length > 0) {
-        supabaseQuery = supabaseQuery.in("price_range", priceFilters);
+
+      // Filtro per valutazione minima
+      if (minRating !== undefined) {
+        supabaseQuery = supabaseQuery.gte("rating", minRating);
       }
     }
 
@@ -209,17 +353,51 @@ export async function POST(request: NextRequest) {
       case "recent":
         supabaseQuery = supabaseQuery.order("created_at", { ascending: false });
         break;
+      case "price-low":
+      case "price-high": {
+        // Livello prima dell'importo: gli importi di notti e persone non
+        // sono confrontabili tra loro
+        const ascending = sortBy === "price-low";
+        supabaseQuery = supabaseQuery
+          .order("price_level", { ascending, nullsFirst: false })
+          .order("price_typical", { ascending, nullsFirst: false });
+        break;
+      }
+      case "distance":
+        // Senza un centro l'ordine resta quello di "relevance"
+        if (center) {
+          supabaseQuery = supabaseQuery.order("distance_km", {
+            ascending: true,
+          });
+        }
+        break;
       default:
-        // relevance - mantieni ordine naturale della query
+        // relevance - punteggio della fusione; senza testo non c'è un
+        // ordine di rilevanza e resta quello per id
+        if (useHybridSearch) {
+          supabaseQuery = supabaseQuery.order("rrf_score", {
+            ascending: false,
+          });
+        }
         break;
     }
 
-    // No limit to show all results
+    // L'id come ultimo criterio rende l'ordine stabile tra una pagina e
+    // l'altra (anche per "relevance", che altrimenti non ha un ordine)
+    supabaseQuery = supabaseQuery.order("id", { ascending: true });
+
+    // Una riga in più per sapere se esiste una pagina successiva
+    supabaseQuery = supabaseQuery.range(offset, offset + limit);
+
+    // Solo la prima pagina di una ricerca con testo finisce nei log;
+    // l'utente si risolve in parallelo alla query
+    const searchUser =
+      offset === 0 && query.trim() !== "" ? getServerAuthUser() : null;
 
     console.log("🔍 Executing Supabase query...");
 
     // Esegui la query
-    const { data, error } = await supabaseQuery;
+    const { data, error, count } = await supabaseQuery;
 
     if (error) {
       console.error("❌ Supabase query error:", error);
@@ -229,10 +407,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`✅ Query successful, found ${data?.length || 0} results`);
+    const hasMore = (data?.length || 0) > limit;
+    const pageRows = ((data || []) as PartnerRow[]).slice(0, limit);
+
+    console.log(
+      `✅ Query successful, returning ${pageRows.length} results (offset ${offset}, more: ${hasMore})`
+    );
+
+    if (searchUser) {
+      const { user } = await searchUser;
+      recordSearch({
+        query,
+        userId: user?.id,
+        resultsCount: count ?? pageRows.length,
+      });
+    }
 
     // Trasforma i dati per la compatibilità con il client
-    const transformedResults: Partner[] = (data || []).map(partner => ({
+    const transformedResults: Partner[] = pageRows.map(partner => ({
       id: partner.id,
       name: partner.name,
       type: partner.type === "transport" ? "transport" : partner.type,
@@ -244,6 +436,11 @@ export async function POST(request: NextRequest) {
         | "mid-range"
         | "luxury"
         | "premium",
+      price: toPartnerPrice(partner),
+      distanceKm:
+        typeof partner.distance_km === "number"
+          ? roundDistance(partner.distance_km)
+          : undefined,
       location: {
         address: partner.location || "",
         city: extractCity(partner.location || ""),
@@ -253,7 +450,7 @@ export async function POST(request: NextRequest) {
         timezone: "Europe/Rome",
       },
       images:
-        partner.images?.length > 0
+        partner.images && partner.images.length > 0
           ? partner.images
           : [`/images/${partner.type}-placeholder.jpg`],
       features: partner.amenities?.slice(0, 6) || [partner.type, "Verified"],
@@ -270,10 +467,24 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       results: transformedResults,
-      total: transformedResults.length,
+      // null sulle pagine successive: il client conserva quello della prima
+      total: countMode ? (count ?? offset + transformedResults.length) : null,
+      totalExact: countMode === "exact",
+      hasMore,
+      nextOffset: hasMore ? offset + limit : null,
       query: {
         original: query,
-        filters: { partnerTypes, priceRange, locations, sortBy },
+        filters: {
+          partnerTypes,
+          priceRange,
+          locations,
+          cuisineTypes: cuisineTypes || [],
+          tourTypes: tourTypes || [],
+          serviceTypes: serviceTypes || [],
+          minRating: minRating ?? null,
+          sortBy,
+          near: center && near ? { ...center, radiusKm: near.radiusKm } : null,
+        },
       },
     });
   } catch (error) {
@@ -298,15 +509,20 @@ export async function GET() {
           schema: {
             query: "string (optional)",
             partnerTypes:
-              "array of enum [hotel, restaurant, tour, shuttle] (optional)",
+              "array of enum [hotel, restaurant, tour, shuttle, experience] (optional)",
             priceRange:
               "tuple [min, max] from 1 to 5 (optional, default [1,5])",
             locations: "array of strings (optional)",
             cuisineTypes: "array of strings (optional)",
             tourTypes: "array of strings (optional)",
             serviceTypes: "array of strings (optional)",
+            minRating: "number from 0 to 5 (optional)",
             sortBy:
-              "enum [relevance, name-asc, name-desc, price-low, price-high, rating, recent] (optional)",
+              "enum [relevance, name-asc, name-desc, price-low, price-high, rating, recent, distance] (optional)",
+            near: `{ lat, lng } or { place }, with radiusKm up to ${SEARCH_CONFIG.maxRadius} (optional, default ${SEARCH_CONFIG.defaultRadius})`,
+            offset:
+              "number, nextOffset of the previous page (optional, default 0); offset paging, pages can shift when partners change between requests",
+            limit: `number from 1 to ${SEARCH_CONFIG.maxResultsLimit} (optional, default ${SEARCH_CONFIG.defaultResultsLimit})`,
           },
         },
       },
@@ -329,6 +545,30 @@ export async function GET() {
 }
 
 // Helper functions
+async function findMatchingIds(
+  table: string,
+  column: string,
+  values: string[]
+): Promise<{ data: string[]; error: { message: string } | null }> {
+  // Virgole e parentesi romperebbero la sintassi del filtro or di PostgREST
+  const conditions = values
+    .map(value => value.replace(/[,;()%\\]/g, "").trim())
+    .filter(Boolean)
+    .map(value => `${column}.ilike.%${value}%`);
+  if (conditions.length === 0) return { data: [], error: null };
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("id")
+    .eq("is_active", true)
+    .or(conditions.join(","));
+
+  return {
+    data: (data || []).map((row: { id: string }) => row.id),
+    error,
+  };
+}
+
 function extractCity(location: string): string {
   if (!location) return "";
   const parts = location.split(",");
@@ -24,6 +24,7 @@ function ChatPageContent({ chat }: { chat: UseChatReturn }) {
     isLoading,
     error,
     retryLastMessage,
+    stopGeneration,
     sessions,
     currentSessionId,
     loadSession,
@@ -34,7 +35,7 @@ function ChatPageContent({ chat }: { chat: UseChatReturn }) {
     isStreamingResponse,
   } = chat;
 
-  const { planningProgress, isStreamingPlanning } = usePlanning();
+  const { planningProgress, isStreamingPlanning, stopPlanning } = usePlanning();
 
   const searchParams = useSearchParams();
   const initialQuery = searchParams.get("query");
@@ -75,9 +76,10 @@ function ChatPageContent({ chat }: { chat: UseChatReturn }) {
             />
             <ChatInput
               onSendMessage={sendMessage}
-              isLoading={isLoading}
+              isLoading={isLoading || isStreamingPlanning}
               error={error}
               onRetry={retryLastMessage}
+              onStop={isStreamingPlanning ? stopPlanning : stopGeneration}
             />
           </div>
         </main>
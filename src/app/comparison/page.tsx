@@ -217,6 +217,7 @@ function ComparisonContent() {
                     {partner.type === "restaurant" && "🍽️ Ristorante"}
                     {partner.type === "tour" && "🗺️ Tour"}
                     {partner.type === "shuttle" && "🚐 Trasporto"}
+                    {partner.type === "experience" && "🎭 Esperienza"}
                   </Badge>
                 </div>
                 <div className="absolute top-3 right-3">
@@ -253,6 +254,7 @@ function ComparisonContent() {
                     {partner.type === "restaurant" && "fascia prezzo"}
                     {partner.type === "tour" && "per persona"}
                     {partner.type === "shuttle" && "per tratta"}
+                    {partner.type === "experience" && "per persona"}
                   </div>
                 </div>
 
@@ -13,6 +13,7 @@ const PartnerTypeIcons = {
   restaurant: "🍽️",
   tour: "🗺️",
   shuttle: "🚐",
+  experience: "🎭",
 } as const;
 
 export default function PartnerDetailPage() {
@@ -12,6 +12,8 @@ import {
   CheckCircle2,
   XCircle,
   Search,
+  Clock,
+  Palette,
 } from "lucide-react";
 
 interface AgentProgress {
@@ -24,14 +26,15 @@ interface AgentProgress {
     | "complete"
     | "error"
     | "end";
-  agent?: "hotel" | "restaurant" | "tour" | "shuttle";
+  agent?: "hotel" | "restaurant" | "tour" | "shuttle" | "experience";
+  status?: "completed" | "failed" | "timed_out";
   partnersFound?: number;
   message: string;
   timestamp: number;
 }
 
 interface AgentState {
-  status: "idle" | "searching" | "complete" | "error";
+  status: "idle" | "searching" | "complete" | "error" | "timed_out";
   partnersFound?: number;
   message?: string;
 }
@@ -62,6 +65,11 @@ const agentConfig = {
     label: "Transport",
     color: "text-purple-400",
   },
+  experience: {
+    icon: Palette,
+    label: "Experiences",
+    color: "text-pink-400",
+  },
 } as const;
 
 export function AgentProgressGrid({
@@ -73,6 +81,7 @@ export function AgentProgressGrid({
     restaurant: { status: "idle" },
     tour: { status: "idle" },
     shuttle: { status: "idle" },
+    experience: { status: "idle" },
   });
 
   const [currentPhase, setCurrentPhase] = useState<string>("");
@@ -85,6 +94,7 @@ export function AgentProgressGrid({
         restaurant: { status: "idle" },
         tour: { status: "idle" },
         shuttle: { status: "idle" },
+        experience: { status: "idle" },
       });
       setCurrentPhase("");
       return;
@@ -103,36 +113,49 @@ export function AgentProgressGrid({
       setCurrentPhase("✅ All searches complete!");
     }
 
-    // Update agent-specific states
-    if (latestProgress.agent) {
-      setAgentStates(prev => {
-        const newStates = { ...prev };
-        const agent = latestProgress.agent!;
-
-        if (latestProgress.type === "agent_start") {
-          newStates[agent] = {
-            status: "searching",
-            message: "Searching...",
-          };
-        } else if (latestProgress.type === "agent_complete") {
-          newStates[agent] = {
-            status:
-              latestProgress.partnersFound !== undefined &&
-              latestProgress.partnersFound > 0
-                ? "complete"
-                : "error",
-            partnersFound: latestProgress.partnersFound,
-            message:
-              latestProgress.partnersFound !== undefined &&
-              latestProgress.partnersFound > 0
-                ? `Found ${latestProgress.partnersFound} partners`
-                : "No results found",
-          };
-        }
-
-        return newStates;
-      });
+    // Update agent-specific states. Replay every event: parallel agents can
+    // complete within the same render, so the latest event alone is not enough
+    const newStates: Record<string, AgentState> = {
+      hotel: { status: "idle" },
+      restaurant: { status: "idle" },
+      tour: { status: "idle" },
+      shuttle: { status: "idle" },
+      experience: { status: "idle" },
+    };
+
+    for (const progress of agentProgress) {
+      if (!progress.agent) continue;
+      const agent = progress.agent;
+
+      if (progress.type === "agent_start") {
+        newStates[agent] = {
+          status: "searching",
+          message: "Searching...",
+        };
+      } else if (
+        progress.type === "agent_complete" &&
+        progress.status === "timed_out"
+      ) {
+        newStates[agent] = {
+          status: "timed_out",
+          message: "Timed out - showing other results",
+        };
+      } else if (progress.type === "agent_complete") {
+        newStates[agent] = {
+          status:
+            progress.partnersFound !== undefined && progress.partnersFound > 0
+              ? "complete"
+              : "error",
+          partnersFound: progress.partnersFound,
+          message:
+            progress.partnersFound !== undefined && progress.partnersFound > 0
+              ? `Found ${progress.partnersFound} partners`
+              : "No results found",
+        };
+      }
     }
+
+    setAgentStates(newStates);
   }, [agentProgress]);
 
   const getStatusIcon = (status: AgentState["status"]) => {
@@ -145,6 +168,8 @@ export function AgentProgressGrid({
         return <CheckCircle2 className="h-4 w-4 text-green-400" />;
       case "error":
         return <XCircle className="h-4 w-4 text-red-400" />;
+      case "timed_out":
+        return <Clock className="h-4 w-4 text-amber-400" />;
       default:
         return <div className="h-4 w-4 rounded-full bg-neutral-600" />;
     }
@@ -160,6 +185,8 @@ export function AgentProgressGrid({
         return "border-green-600/50 bg-green-900/20";
       case "error":
         return "border-red-600/50 bg-red-900/20";
+      case "timed_out":
+        return "border-amber-600/50 bg-amber-900/20";
       default:
         return "border-neutral-700 bg-neutral-800/50";
     }
@@ -184,7 +211,7 @@ export function AgentProgressGrid({
           )}
 
           {/* Agent Grid */}
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-5">
             {Object.entries(agentConfig).map(([agentKey, config]) => {
               const state = agentStates[agentKey];
               const IconComponent = config.icon;
@@ -9,6 +9,7 @@ interface ChatInputProps {
   isLoading: boolean;
   error?: string | null;
   onRetry?: () => void;
+  onStop?: () => void;
 }
 
 export const ChatInput = ({
@@ -16,6 +17,7 @@ export const ChatInput = ({
   isLoading,
   error,
   onRetry,
+  onStop,
 }: ChatInputProps) => {
   const [message, setMessage] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -121,20 +123,33 @@ export const ChatInput = ({
               disabled={isLoading}
               rows={1}
             />
-            <Button
-              type="submit"
-              className="bg-primary-500 hover:bg-primary-700 flex h-10 w-10 items-center justify-center rounded-lg text-white transition-colors disabled:opacity-50 sm:w-auto sm:px-4 sm:text-sm sm:leading-normal sm:font-medium"
-              disabled={isLoading || !message.trim()}
-            >
-              {isLoading ? (
-                <div className="h-5 w-5 animate-spin rounded-full border-2 border-white border-t-transparent" />
-              ) : (
-                <>
-                  <SendIcon className="h-6 w-6 sm:hidden" />
-                  <span className="hidden sm:inline">Send</span>
-                </>
-              )}
-            </Button>
+            {isLoading && onStop ? (
+              <Button
+                type="button"
+                onClick={onStop}
+                className="flex h-10 w-10 items-center justify-center rounded-lg border border-red-500/40 bg-red-500/20 text-red-200 transition-colors hover:bg-red-500/30 hover:text-red-100 sm:w-auto sm:px-4 sm:text-sm sm:leading-normal sm:font-medium"
+                variant="ghost"
+                aria-label="Interrompi generazione"
+              >
+                <span className="h-3 w-3 rounded-sm bg-current sm:hidden" />
+                <span className="hidden sm:inline">Stop</span>
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                className="bg-primary-500 hover:bg-primary-700 flex h-10 w-10 items-center justify-center rounded-lg text-white transition-colors disabled:opacity-50 sm:w-auto sm:px-4 sm:text-sm sm:leading-normal sm:font-medium"
+                disabled={isLoading || !message.trim()}
+              >
+                {isLoading ? (
+                  <div className="h-5 w-5 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                ) : (
+                  <>
+                    <SendIcon className="h-6 w-6 sm:hidden" />
+                    <span className="hidden sm:inline">Send</span>
+                  </>
+                )}
+              </Button>
+            )}
           </form>
         )}
       </div>
@@ -4,6 +4,8 @@ import { TypingIndicator } from "./TypingIndicator";
 import { ConversationStarters } from "./ConversationStarters";
 import { AgentProgressGrid } from "./AgentProgressGrid";
 import { PlanningProgressGrid } from "./PlanningProgressGrid";
+import { PartnerCard } from "./PartnerCard";
+import { ClarificationQuickReplies } from "./ClarificationQuickReplies";
 import { useEffect, useRef } from "react";
 
 interface AgentProgress {
@@ -16,7 +18,8 @@ interface AgentProgress {
     | "complete"
     | "error"
     | "end";
-  agent?: "hotel" | "restaurant" | "tour" | "shuttle";
+  agent?: "hotel" | "restaurant" | "tour" | "shuttle" | "experience";
+  status?: "completed" | "failed" | "timed_out";
   partnersFound?: number;
   message: string;
   timestamp: number;
@@ -78,7 +81,7 @@ export const ChatMessages = ({
         <ConversationStarters onSelectStarter={onSendMessage} />
       )}
 
-      {messages.map(message => {
+      {messages.map((message, index) => {
         // If the message is a planning message, render the progress grid
         if (message.metadata?.type === "planning") {
           const progress = message.metadata.progress as
@@ -86,13 +89,39 @@ export const ChatMessages = ({
             | undefined;
           if (!progress || progress.length === 0) return null;
 
-          // We only want to show the grid, not a bubble
+          // We only want to show the grid, not a bubble, followed by the
+          // partner cards streamed as each specialist agent completes
           return (
-            <AgentProgressGrid
-              key={message.id}
-              agentProgress={progress}
-              isVisible={true}
-            />
+            <div key={message.id}>
+              <AgentProgressGrid agentProgress={progress} isVisible={true} />
+              {message.partners && message.partners.length > 0 && (
+                <div className="mx-auto grid w-full max-w-4xl grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {message.partners.map(partner => (
+                    <PartnerCard key={partner.id} partner={partner} />
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        }
+
+        // Clarification question: the bubble plus clickable quick replies,
+        // active only while it is the latest message
+        if (
+          message.metadata?.type === "clarification" &&
+          message.metadata.clarification
+        ) {
+          return (
+            <div key={message.id} className="space-y-3">
+              <MessageBubble message={message} />
+              {onSendMessage && (
+                <ClarificationQuickReplies
+                  clarification={message.metadata.clarification}
+                  onReply={onSendMessage}
+                  disabled={isLoading || index !== messages.length - 1}
+                />
+              )}
+            </div>
           );
         }
 
@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Calendar, MapPin, Search, Sparkles, Users } from "lucide-react";
+import type { ClarificationPrompt, ClarificationRequest } from "@/types";
+
+interface ClarificationQuickRepliesProps {
+  clarification: ClarificationRequest;
+  onReply: (reply: string) => void;
+  /** Domanda già risolta o risposta in corso */
+  disabled?: boolean;
+}
+
+const FIELD_ICONS: Record<ClarificationPrompt["field"], typeof MapPin> = {
+  intent: Sparkles,
+  location: MapPin,
+  dates: Calendar,
+  partySize: Users,
+};
+
+export const ClarificationQuickReplies: React.FC<
+  ClarificationQuickRepliesProps
+> = ({ clarification, onReply, disabled = false }) => {
+  // Risposta scelta per ogni campo (testo da inviare)
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [customDates, setCustomDates] = useState({ start: "", end: "" });
+
+  const { prompts } = clarification;
+  // Con una sola domanda il chip risponde subito
+  const replyOnSelect = prompts.length === 1;
+
+  const select = (field: string, reply: string) => {
+    if (disabled) return;
+    if (replyOnSelect) {
+      onReply(reply);
+      return;
+    }
+    setAnswers(prev =>
+      prev[field] === reply
+        ? Object.fromEntries(Object.entries(prev).filter(([f]) => f !== field))
+        : { ...prev, [field]: reply }
+    );
+  };
+
+  const selectCustomDates = (dates: { start: string; end: string }) => {
+    setCustomDates(dates);
+    if (dates.start && dates.end && dates.end > dates.start) {
+      select("dates", `dal ${dates.start} al ${dates.end}`);
+    }
+  };
+
+  const submit = () => {
+    const reply = prompts
+      .map(prompt => answers[prompt.field])
+      .filter(Boolean)
+      .join(", ");
+    if (reply) onReply(reply);
+  };
+
+  const chipClasses = (selected: boolean) =>
+    `rounded-full border px-3 py-1.5 text-xs transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+      selected
+        ? "border-primary-400 bg-primary-500/20 text-white"
+        : "border-neutral-700 bg-neutral-900 text-neutral-300 hover:border-primary-400 hover:text-white"
+    }`;
+
+  return (
+    <div className="mr-auto max-w-[85%] space-y-3 rounded-xl border border-neutral-800 bg-neutral-900/60 p-4">
+      {prompts.map(prompt => {
+        const Icon = FIELD_ICONS[prompt.field];
+        const options =
+          prompt.type === "date_range" ? prompt.presets : prompt.options;
+
+        return (
+          <div key={prompt.field}>
+            <div className="mb-2 flex items-center gap-2 text-xs font-medium text-neutral-400">
+              <Icon className="h-3.5 w-3.5" />
+              {prompt.label}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {options.map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => select(prompt.field, option.reply)}
+                  className={chipClasses(
+                    answers[prompt.field] === option.reply
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {prompt.type === "date_range" && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-neutral-400">
+                <span>oppure dal</span>
+                <input
+                  type="date"
+                  min={prompt.minDate}
+                  value={customDates.start}
+                  disabled={disabled}
+                  onChange={event =>
+                    selectCustomDates({
+                      ...customDates,
+                      start: event.target.value,
+                    })
+                  }
+                  className="rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 text-neutral-200"
+                />
+                <span>al</span>
+                <input
+                  type="date"
+                  min={customDates.start || prompt.minDate}
+                  value={customDates.end}
+                  disabled={disabled}
+                  onChange={event =>
+                    selectCustomDates({
+                      ...customDates,
+                      end: event.target.value,
+                    })
+                  }
+                  className="rounded-md border border-neutral-700 bg-neutral-900 px-2 py-1 text-neutral-200"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {!replyOnSelect && (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            disabled={disabled || Object.keys(answers).length === 0}
+            onClick={submit}
+            className="bg-primary-600 hover:bg-primary-700"
+          >
+            <Search className="h-4 w-4" />
+            Cerca
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
-import { ChatMessage, PartnerData } from "@/types";
+import { ChatMessage, PartnerData, PartnerMention } from "@/types";
 import { PartnersModal } from "./PartnersModal";
-import { Clock, Copy, Check, MapPin } from "lucide-react";
+import { Clock, Copy, Check, MapPin, SlidersHorizontal } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { usePlanning } from "@/contexts/PlanningContext";
@@ -11,6 +11,7 @@ interface MessageBubbleProps {
 
 export const MessageBubble = ({ message }: MessageBubbleProps) => {
   const isUser = message.role === "user";
+  const isStreaming = message.metadata?.type === "streaming";
   const [copied, setCopied] = useState(false);
   const [showPartnersModal, setShowPartnersModal] = useState(false);
   const { startPlanning } = usePlanning();
@@ -70,9 +71,30 @@ export const MessageBubble = ({ message }: MessageBubbleProps) => {
   };
 
   // Parse markdown-style formatting for better display
-  const formatMessage = (content: string) => {
+  const formatMessage = (content: string, mentions: PartnerMention[] = []) => {
+    // Link verified partner mentions to their page, longest first so that
+    // "Hotel Danieli Venezia" wins over "Hotel Danieli"
+    let formatted = content;
+    if (mentions.length > 0) {
+      const partnerIds = new Map(
+        mentions.map(mention => [mention.text, mention.partnerId])
+      );
+      const pattern = new RegExp(
+        Array.from(partnerIds.keys())
+          .sort((a, b) => b.length - a.length)
+          .map(text => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+          .join("|"),
+        "g"
+      );
+      formatted = formatted.replace(
+        pattern,
+        text =>
+          `<a href="/partner/${encodeURIComponent(partnerIds.get(text) ?? "")}" class="text-primary-300 hover:text-primary-200 underline">${text}</a>`
+      );
+    }
+
     // Convert **text** to bold
-    let formatted = content.replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>");
+    formatted = formatted.replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>");
 
     // Convert URLs to clickable links
     formatted = formatted.replace(
@@ -96,9 +118,19 @@ export const MessageBubble = ({ message }: MessageBubbleProps) => {
         >
           <div
             className="whitespace-pre-wrap"
-            dangerouslySetInnerHTML={{ __html: formatMessage(message.content) }}
+            dangerouslySetInnerHTML={{
+              __html: formatMessage(
+                message.content,
+                isUser ? [] : message.metadata?.partnerMentions
+              ),
+            }}
           />
 
+          {/* Cursor while the answer is still streaming */}
+          {isStreaming && (
+            <span className="bg-primary-400 ml-0.5 inline-block h-4 w-1.5 animate-pulse align-middle" />
+          )}
+
           {/* If the message is an itinerary plan, render the full plan from metadata */}
           {message.metadata?.type === "itinerary_plan" &&
             typeof message.metadata.plan === "string" && (
@@ -114,23 +146,25 @@ export const MessageBubble = ({ message }: MessageBubbleProps) => {
         </div>
 
         {/* Action buttons */}
-        <div
-          className={`flex items-center gap-1 opacity-0 transition-opacity duration-200 group-hover:opacity-100 ${isUser ? "mr-2" : "ml-2"} mt-2`}
-        >
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-7 w-7 hover:bg-neutral-700"
-            onClick={copyToClipboard}
-            title="Copia messaggio"
+        {!isStreaming && (
+          <div
+            className={`flex items-center gap-1 opacity-0 transition-opacity duration-200 group-hover:opacity-100 ${isUser ? "mr-2" : "ml-2"} mt-2`}
           >
-            {copied ? (
-              <Check className="h-3 w-3 text-green-400" />
-            ) : (
-              <Copy className="h-3 w-3 text-neutral-400" />
-            )}
-          </Button>
-        </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 hover:bg-neutral-700"
+              onClick={copyToClipboard}
+              title="Copia messaggio"
+            >
+              {copied ? (
+                <Check className="h-3 w-3 text-green-400" />
+              ) : (
+                <Copy className="h-3 w-3 text-neutral-400" />
+              )}
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Timestamp */}
@@ -141,6 +175,21 @@ export const MessageBubble = ({ message }: MessageBubbleProps) => {
         <span>{formatTimestamp(message.timestamp)}</span>
       </div>
 
+      {/* Saved profile preferences used as search filters */}
+      {!isUser &&
+        message.metadata?.appliedPreferences &&
+        message.metadata.appliedPreferences.length > 0 && (
+          <div className="ml-14 flex max-w-3xl items-start gap-2 text-xs text-neutral-400">
+            <SlidersHorizontal className="text-primary-400 mt-0.5 h-3 w-3 shrink-0" />
+            <span>
+              Risultati basati sulle tue preferenze:{" "}
+              {message.metadata.appliedPreferences
+                .map(preference => preference.description)
+                .join(" · ")}
+            </span>
+          </div>
+        )}
+
       {/* Partner button (only for assistant messages) */}
       {!isUser && message.partners && message.partners.length > 0 && (
         <>
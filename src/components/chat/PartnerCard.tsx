@@ -11,6 +11,15 @@ const PartnerTypeIcons = {
   restaurant: "🍽️",
   tour: "🗺️",
   shuttle: "🚐",
+  experience: "🎭",
+} as const;
+
+const RelevanceLabels = {
+  similarity: "Pertinenza",
+  rating: "Valutazione",
+  priceFit: "Budget",
+  locationMatch: "Posizione",
+  availability: "Disponibilità",
 } as const;
 
 const PriceRangeLabels = {
@@ -49,6 +58,22 @@ export const PartnerCard = ({ partner }: PartnerCardProps) => {
     partner.images?.[0] ||
     "https://images.unsplash.com/photo-1566073771259-6a8506099945";
 
+  // Spiegazione del punteggio di rilevanza (solo componenti valutati)
+  const relevanceDetails = partner.relevance
+    ? (
+        Object.entries(partner.relevance.components) as [
+          keyof typeof RelevanceLabels,
+          number | null,
+        ][]
+      )
+        .filter(([, value]) => value !== null)
+        .map(
+          ([name, value]) =>
+            `${RelevanceLabels[name]}: ${Math.round((value ?? 0) * 100)}%`
+        )
+        .join("\n")
+    : "";
+
   const handleClick = () => {
     const url = `/partner/${partner.id}`;
     // Open in new tab/window when running in the browser
@@ -80,6 +105,15 @@ export const PartnerCard = ({ partner }: PartnerCardProps) => {
           <span>{PartnerTypeIcons[partner.type]}</span>
           <span className="capitalize">{partner.type}</span>
         </div>
+        {/* Badge rilevanza */}
+        {partner.relevance && (
+          <div
+            className="absolute top-3 right-3 rounded-lg bg-black/70 px-2 py-1 text-xs font-medium text-white"
+            title={relevanceDetails}
+          >
+            {Math.round(partner.relevance.score * 100)}% match
+          </div>
+        )}
       </div>
 
       {/* Contenuto */}
@@ -100,6 +134,11 @@ export const PartnerCard = ({ partner }: PartnerCardProps) => {
           <div className="flex items-center gap-1 text-sm text-neutral-300">
             <span>📍</span>
             <span>{partner.location}</span>
+            {partner.distance_to_hotel_km !== undefined && (
+              <span className="text-neutral-500">
+                · {partner.distance_to_hotel_km} km dall&apos;hotel
+              </span>
+            )}
           </div>
           <div className="text-primary-400 text-xs font-medium">
             {PriceRangeLabels[
@@ -9,7 +9,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Users, Calendar, Sparkles } from "lucide-react";
+import { MapPin, Users, Calendar, Sparkles, Palette } from "lucide-react";
 import { useState, useMemo } from "react";
 import { usePartnerSelection } from "@/hooks/usePartnerSelection";
 import { cn } from "@/lib/utils";
@@ -42,6 +42,11 @@ const categoryConfig = {
     icon: Sparkles,
     color: "bg-orange-500",
   },
+  experience: {
+    label: "Esperienze",
+    icon: Palette,
+    color: "bg-pink-500",
+  },
 } as const;
 
 export const PartnersModal = ({
@@ -72,6 +77,7 @@ export const PartnersModal = ({
       restaurant: partners.filter(p => p.type === "restaurant"),
       tour: partners.filter(p => p.type === "tour"),
       shuttle: partners.filter(p => p.type === "shuttle"),
+      experience: partners.filter(p => p.type === "experience"),
     };
   }, [partners]);
 
@@ -153,37 +159,37 @@ export const PartnersModal = ({
             Tutti ({partners.length})
           </Button>
 
-          {(["hotel", "restaurant", "tour", "shuttle"] as const).map(
-            category => {
-              const config = categoryConfig[category];
-              const categoryPartners = partnersByCategory[category];
-              const selectedCount = selectionStats.byCategory[category];
-              const IconComponent = config.icon;
+          {(
+            ["hotel", "restaurant", "tour", "experience", "shuttle"] as const
+          ).map(category => {
+            const config = categoryConfig[category];
+            const categoryPartners = partnersByCategory[category];
+            const selectedCount = selectionStats.byCategory[category];
+            const IconComponent = config.icon;
 
-              if (categoryPartners.length === 0) return null;
+            if (categoryPartners.length === 0) return null;
 
-              return (
-                <Button
-                  key={category}
-                  variant={activeTab === category ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => setActiveTab(category)}
-                  className={cn(
-                    "flex items-center gap-2 text-sm",
-                    activeTab === category && "bg-primary-600 text-white"
-                  )}
-                >
-                  <IconComponent className="h-4 w-4" />
-                  {config.label} ({categoryPartners.length})
-                  {selectedCount > 0 && (
-                    <Badge variant="secondary" className="ml-1 text-xs">
-                      {selectedCount}
-                    </Badge>
-                  )}
-                </Button>
-              );
-            }
-          )}
+            return (
+              <Button
+                key={category}
+                variant={activeTab === category ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setActiveTab(category)}
+                className={cn(
+                  "flex items-center gap-2 text-sm",
+                  activeTab === category && "bg-primary-600 text-white"
+                )}
+              >
+                <IconComponent className="h-4 w-4" />
+                {config.label} ({categoryPartners.length})
+                {selectedCount > 0 && (
+                  <Badge variant="secondary" className="ml-1 text-xs">
+                    {selectedCount}
+                  </Badge>
+                )}
+              </Button>
+            );
+          })}
         </div>
 
         {/* Azioni per tab */}
@@ -12,6 +12,7 @@ import {
   Calendar,
   Users,
   Hotel,
+  Palette,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -20,6 +21,7 @@ const categoryIcons = {
   restaurant: Users,
   tour: Calendar,
   shuttle: MapPin,
+  experience: Palette,
 } as const;
 
 const categoryLabels = {
@@ -27,6 +29,7 @@ const categoryLabels = {
   restaurant: "Ristoranti",
   tour: "Tour",
   shuttle: "Trasporti",
+  experience: "Esperienze",
 } as const;
 
 export function PlanningDisplay() {
@@ -62,6 +65,7 @@ export function PlanningDisplay() {
     restaurant: selectedPartners.filter(p => p.type === "restaurant"),
     tour: selectedPartners.filter(p => p.type === "tour"),
     shuttle: selectedPartners.filter(p => p.type === "shuttle"),
+    experience: selectedPartners.filter(p => p.type === "experience"),
   };
 
   const handleRegenerate = async () => {
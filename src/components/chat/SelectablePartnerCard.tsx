@@ -15,6 +15,7 @@ const PartnerTypeIcons = {
   restaurant: "🍽️",
   tour: "🗺️",
   shuttle: "🚐",
+  experience: "🎭",
 } as const;
 
 const PriceRangeLabels = {
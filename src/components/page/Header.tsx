@@ -27,7 +27,8 @@ import {
   User,
   Settings,
 } from "lucide-react";
-import { LogoIcon, NotificationIcon } from "./Icons";
+import { LogoIcon } from "./Icons";
+import { NotificationsMenu } from "./NotificationsMenu";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
@@ -121,9 +122,7 @@ export const Header = () => {
         <div className="hidden items-center gap-2 md:flex">
           {!loading && user ? (
             <>
-              <Button variant="ghost" size="icon">
-                <NotificationIcon className="h-6 w-6 text-neutral-400" />
-              </Button>
+              <NotificationsMenu />
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
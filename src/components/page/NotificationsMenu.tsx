@@ -0,0 +1,99 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { it } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useNotifications } from "@/hooks/useNotifications";
+import { cn } from "@/lib/utils";
+import { NotificationIcon } from "./Icons";
+
+export function NotificationsMenu() {
+  const { notifications, unreadCount, markAsRead } = useNotifications(true);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={
+            unreadCount > 0
+              ? `Notifiche, ${unreadCount} non lette`
+              : "Notifiche"
+          }
+        >
+          <NotificationIcon className="h-6 w-6 text-neutral-400" />
+          {unreadCount > 0 && (
+            <span className="bg-primary-600 absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between p-2">
+          <p className="font-medium">Notifiche</p>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={() => markAsRead()}
+              className="text-primary-600 text-xs hover:underline"
+            >
+              Segna tutte come lette
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="text-muted-foreground p-4 text-center text-sm">
+            Nessuna notifica
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                asChild
+                onSelect={() => {
+                  if (!notification.readAt) markAsRead([notification.id]);
+                }}
+              >
+                <Link
+                  href={notification.link || "/search"}
+                  className={cn(
+                    "flex flex-col items-start gap-1",
+                    !notification.readAt && "bg-primary-50"
+                  )}
+                >
+                  <span className="text-sm font-medium">
+                    {notification.title}
+                  </span>
+                  {notification.body && (
+                    <span className="text-muted-foreground line-clamp-2 text-xs">
+                      {notification.body}
+                    </span>
+                  )}
+                  <span className="text-muted-foreground text-[11px]">
+                    {formatDistanceToNow(new Date(notification.createdAt), {
+                      addSuffix: true,
+                      locale: it,
+                    })}
+                  </span>
+                </Link>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -32,23 +32,54 @@ import {
   Star,
   X,
   Sparkles,
+  LocateFixed,
 } from "lucide-react";
 import {
   useTraditionalSearch,
+  type NearFilter,
   type TraditionalSearchFilters,
 } from "@/hooks/useTraditionalSearch";
 import { AIAssistantModal } from "@/components/search/AIAssistantModal";
 import { FilterSuggestions } from "@/lib/ai-filter-extractor";
 import { SearchSuggestions } from "@/components/search/SearchSuggestions";
+import { SavedSearchesDialog } from "@/components/search/SavedSearchesDialog";
+import { useAuth } from "@/contexts/AuthContext";
 import { MapView } from "@/components/search/MapView";
-import type { PartnerData } from "@/types";
+import type { Partner, PartnerData, SearchFacets } from "@/types";
+import { PRICE_RANGE_LEVELS, formatPartnerPrice } from "@/lib/pricing";
 import { ChevronDown, ChevronUp, Map, List } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
+import { RATING_BANDS, SEARCH_CONFIG } from "@/constants";
+
+const PRICE_BUCKET_LABELS: Record<Partner["priceRange"], string> = {
+  budget: "Economico",
+  "mid-range": "Medio",
+  luxury: "Lusso",
+  premium: "Premium",
+};
+
+const RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100, 200].filter(
+  radius => radius <= SEARCH_CONFIG.maxRadius
+);
+
+// Helper function to map legacy types to partner types
+function mapLegacyTypeToPartnerType(legacyType: string): string {
+  const mapping: Record<string, string> = {
+    family: "hotel",
+    romantic: "hotel",
+    culture: "tour",
+    adventure: "tour",
+    business: "hotel",
+    relaxation: "hotel",
+  };
+  return mapping[legacyType] || "hotel";
+}
 
 export const SearchResults = () => {
   const searchParams = useSearchParams();
   const router = useRouter();
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState("relevance");
   const [priceRange, setPriceRange] = useState([1, 5]);
@@ -63,6 +94,10 @@ export const SearchResults = () => {
   const [selectedServiceTypes, setSelectedServiceTypes] = useState<string[]>(
     []
   );
+  const [minRating, setMinRating] = useState<number | null>(null);
+  const [nearFilter, setNearFilter] = useState<NearFilter | null>(null);
+  const [locatingUser, setLocatingUser] = useState(false);
+  const [geolocationError, setGeolocationError] = useState<string | null>(null);
   const [isFilterSheetOpen, setIsFilterSheetOpen] = useState(false);
   const [isAIAssistantOpen, setIsAIAssistantOpen] = useState(false);
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
@@ -86,18 +121,32 @@ export const SearchResults = () => {
     sortBy?: string;
     viewMode?: "list" | "map";
     showAdvanced?: boolean;
+    minRating?: number | null;
+    near?: NearFilter | null;
+    page?: number;
   } | null>(null);
+  // Filters of the last search, to skip searches the URL sync would repeat
+  const lastSearchKeyRef = useRef<string | null>(null);
+  // Pages to load with the first search (?page=N)
+  const restoredPagesRef = useRef(1);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
 
   // Traditional search hook
   const {
     results: partners,
     loading,
     total,
+    totalExact,
+    hasMore,
+    loadingMore,
+    pagesLoaded,
+    loadMore,
     availableLocations,
     availableCuisineTypes,
     availableTourTypes,
     availableServiceTypes,
     loadingOptions,
+    facets,
     searchPartners,
     loadFilterOptions,
     error,
@@ -167,6 +216,19 @@ export const SearchResults = () => {
     const viewModeFromURL =
       searchParams.get("view_mode") === "map" ? "map" : "list";
     const showAdvancedFromURL = searchParams.get("show_advanced") === "true";
+    const minRatingFromURL = parseFloat(searchParams.get("min_rating") || "");
+    const nearLatFromURL = parseFloat(searchParams.get("near_lat") || "");
+    const nearLngFromURL = parseFloat(searchParams.get("near_lng") || "");
+    const nearPlaceFromURL = searchParams.get("near_place") || "";
+    const radiusFromURL =
+      parseFloat(searchParams.get("radius") || "") ||
+      SEARCH_CONFIG.defaultRadius;
+    const nearFromURL: NearFilter | null =
+      Number.isFinite(nearLatFromURL) && Number.isFinite(nearLngFromURL)
+        ? { lat: nearLatFromURL, lng: nearLngFromURL, radiusKm: radiusFromURL }
+        : nearPlaceFromURL
+          ? { place: nearPlaceFromURL, radiusKm: radiusFromURL }
+          : null;
     const destination = searchParams.get("destination") || "";
     const duration = searchParams.get("duration") || "";
     const budget = searchParams.get("budget") || "";
@@ -183,6 +245,8 @@ export const SearchResults = () => {
       sortBy: sortByFromURL,
       viewMode: viewModeFromURL,
       showAdvanced: showAdvancedFromURL,
+      minRating: minRatingFromURL,
+      near: nearFromURL,
     });
 
     // Set initial states from URL
@@ -196,8 +260,18 @@ export const SearchResults = () => {
     setSortBy(sortByFromURL);
     setViewMode(viewModeFromURL);
     setShowAdvancedFilters(showAdvancedFromURL);
+    setMinRating(Number.isFinite(minRatingFromURL) ? minRatingFromURL : null);
+    setNearFilter(nearFromURL);
     setCurrentFilters({ destination, duration, budget, type });
 
+    // Restore the pages already scrolled, only before the first search
+    if (lastSearchKeyRef.current === null) {
+      restoredPagesRef.current = Math.max(
+        1,
+        parseInt(searchParams.get("page") || "1") || 1
+      );
+    }
+
     // Map legacy parameters to new filter states if new parameters are not present
     if (locationsFromURL.length === 0 && destination) {
       setSelectedLocations([destination]);
@@ -223,6 +297,46 @@ export const SearchResults = () => {
     setTimeout(() => setIsInitializing(false), 100);
   }, [searchParams]);
 
+  // Filters of the current search, also saved by "Salva ricerca"
+  const searchFilters = useMemo<TraditionalSearchFilters>(
+    () => ({
+      query: debouncedSearchQuery,
+      partnerTypes:
+        selectedPartnerTypes.length > 0
+          ? selectedPartnerTypes
+          : currentFilters.type
+            ? [mapLegacyTypeToPartnerType(currentFilters.type)]
+            : [],
+      priceRange: priceRange as [number, number],
+      locations:
+        selectedLocations.length > 0
+          ? selectedLocations
+          : currentFilters.destination
+            ? [currentFilters.destination]
+            : [],
+      cuisineTypes: selectedCuisineTypes,
+      tourTypes: selectedTourTypes,
+      serviceTypes: selectedServiceTypes,
+      minRating: minRating ?? undefined,
+      sortBy,
+      near: nearFilter ?? undefined,
+    }),
+    [
+      debouncedSearchQuery,
+      priceRange,
+      selectedPartnerTypes,
+      selectedLocations,
+      selectedCuisineTypes,
+      selectedTourTypes,
+      selectedServiceTypes,
+      sortBy,
+      minRating,
+      nearFilter,
+      currentFilters.destination,
+      currentFilters.type,
+    ]
+  );
+
   // Perform search when filters change
   useEffect(() => {
     // Skip search during initialization to avoid infinite loops
@@ -231,103 +345,61 @@ export const SearchResults = () => {
       return;
     }
 
+    // Wait for the debounced query to catch up with the URL or the input
+    if (debouncedSearchQuery !== searchQuery) {
+      return;
+    }
+
     const performSearch = async () => {
-      // Build search filters
-      const filters = {
-        query: debouncedSearchQuery,
-        partnerTypes:
-          selectedPartnerTypes.length > 0
-            ? selectedPartnerTypes
-            : currentFilters.type
-              ? [mapLegacyTypeToPartnerType(currentFilters.type)]
-              : [],
-        priceRange: priceRange as [number, number],
-        locations:
-          selectedLocations.length > 0
-            ? selectedLocations
-            : currentFilters.destination
-              ? [currentFilters.destination]
-              : [],
-        cuisineTypes: selectedCuisineTypes,
-        tourTypes: selectedTourTypes,
-        serviceTypes: selectedServiceTypes,
-        sortBy,
-      };
+      const filters = searchFilters;
+
+      // Every URL update re-applies the filters from the URL: search only
+      // when they actually changed
+      const searchKey = JSON.stringify(filters);
+      if (searchKey === lastSearchKeyRef.current) return;
+      lastSearchKeyRef.current = searchKey;
+
+      const pages = restoredPagesRef.current;
+      restoredPagesRef.current = 1;
 
-      console.log("🔍 Performing search with filters:", filters);
-      await searchPartners(filters);
+      console.log("🔍 Performing search with filters:", filters, { pages });
+      await searchPartners(filters, { pages });
     };
 
     performSearch();
   }, [
     isInitializing,
+    searchQuery,
     debouncedSearchQuery,
-    priceRange,
-    selectedPartnerTypes,
-    selectedLocations,
-    selectedCuisineTypes,
-    selectedTourTypes,
-    selectedServiceTypes,
-    sortBy,
-    currentFilters.destination,
-    currentFilters.type,
+    searchFilters,
     searchPartners,
   ]);
 
-  // Run initial search after initialization is complete
+  // Keep the number of loaded pages in the URL, so a reload restores them
   useEffect(() => {
-    if (!isInitializing) {
-      console.log("🚀 Running initial search after initialization");
-      const filters = {
-        query: debouncedSearchQuery,
-        partnerTypes:
-          selectedPartnerTypes.length > 0
-            ? selectedPartnerTypes
-            : currentFilters.type
-              ? [mapLegacyTypeToPartnerType(currentFilters.type)]
-              : [],
-        priceRange: priceRange as [number, number],
-        locations:
-          selectedLocations.length > 0
-            ? selectedLocations
-            : currentFilters.destination
-              ? [currentFilters.destination]
-              : [],
-        cuisineTypes: selectedCuisineTypes,
-        tourTypes: selectedTourTypes,
-        serviceTypes: selectedServiceTypes,
-        sortBy,
-      };
-
-      searchPartners(filters);
+    if (isInitializing || loading || pagesLoaded === 0) return;
+    const pageFromURL = parseInt(searchParams.get("page") || "1") || 1;
+    if (pagesLoaded !== pageFromURL) {
+      setUrlUpdateQueue({ page: pagesLoaded });
     }
-  }, [
-    isInitializing,
-    debouncedSearchQuery,
-    priceRange,
-    selectedPartnerTypes,
-    selectedLocations,
-    selectedCuisineTypes,
-    selectedTourTypes,
-    selectedServiceTypes,
-    sortBy,
-    currentFilters.destination,
-    currentFilters.type,
-    searchPartners,
-  ]); // Only run when initialization completes
-
-  // Helper function to map legacy types to partner types
-  const mapLegacyTypeToPartnerType = (legacyType: string): string => {
-    const mapping: Record<string, string> = {
-      family: "hotel",
-      romantic: "hotel",
-      culture: "tour",
-      adventure: "tour",
-      business: "hotel",
-      relaxation: "hotel",
-    };
-    return mapping[legacyType] || "hotel";
-  };
+  }, [isInitializing, loading, pagesLoaded, searchParams]);
+
+  // Infinite scroll: load the next page when the end of the list is visible
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !hasMore || loading || viewMode !== "list") return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, loadMore, viewMode]);
 
   const getPartnerTypeLabel = (type: string) => {
     const labels = {
@@ -335,6 +407,7 @@ export const SearchResults = () => {
       restaurant: "Ristoranti",
       tour: "Tour",
       shuttle: "Trasporti",
+      experience: "Esperienze",
     };
     return labels[type as keyof typeof labels] || type;
   };
@@ -350,6 +423,35 @@ export const SearchResults = () => {
     return labels[range as keyof typeof labels] || "€€";
   };
 
+  // Numeric price level when known, otherwise the price_range bucket
+  const getPartnerPriceLevel = (partner: Partner) =>
+    partner.price?.level ?? PRICE_RANGE_LEVELS[partner.priceRange] ?? 2;
+
+  // Results of a filter option for the current search, once counted
+  const getFacetCount = (facet: keyof SearchFacets, value: string | number) =>
+    facets?.[facet][String(value)];
+
+  // Options without results are disabled, unless selected so they can be
+  // removed
+  const isFacetOptionEmpty = (
+    facet: keyof SearchFacets,
+    value: string | number,
+    selected: boolean
+  ) => !selected && getFacetCount(facet, value) === 0;
+
+  const renderFacetCount = (
+    facet: keyof SearchFacets,
+    value: string | number
+  ) => {
+    const count = getFacetCount(facet, value);
+    return count === undefined ? null : (
+      <span className="ml-auto text-xs text-neutral-500">{count}</span>
+    );
+  };
+
+  const formatDistance = (km: number) =>
+    km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
   const getBudgetLabel = (budget: string) => {
     const labels = {
       low: "€ Economico",
@@ -384,6 +486,9 @@ export const SearchResults = () => {
     sortBy?: string;
     viewMode?: "list" | "map";
     showAdvanced?: boolean;
+    minRating?: number | null;
+    near?: NearFilter | null;
+    page?: number;
   }) => {
     console.log("🔗 Queuing URL update:", filters);
     setUrlUpdateQueue(filters);
@@ -484,6 +589,45 @@ export const SearchResults = () => {
         }
       }
 
+      // Update minimum rating
+      if (filters.minRating !== undefined) {
+        if (filters.minRating !== null) {
+          params.set("min_rating", filters.minRating.toString());
+        } else {
+          params.delete("min_rating");
+        }
+      }
+
+      // Update radius search centre
+      if (filters.near !== undefined) {
+        params.delete("near_lat");
+        params.delete("near_lng");
+        params.delete("near_place");
+        params.delete("radius");
+        if (filters.near) {
+          if (
+            filters.near.lat !== undefined &&
+            filters.near.lng !== undefined
+          ) {
+            params.set("near_lat", filters.near.lat.toFixed(5));
+            params.set("near_lng", filters.near.lng.toFixed(5));
+          } else if (filters.near.place) {
+            params.set("near_place", filters.near.place);
+          }
+          params.set("radius", filters.near.radiusKm.toString());
+        }
+      }
+
+      // Update loaded pages: a filter change starts again from the first one
+      const changesResults = Object.keys(filters).some(
+        key => !["viewMode", "showAdvanced", "page"].includes(key)
+      );
+      if (changesResults || filters.page === 1) {
+        params.delete("page");
+      } else if (filters.page !== undefined) {
+        params.set("page", filters.page.toString());
+      }
+
       const newUrl = `/search?${params.toString()}`;
       console.log("📤 Updated URL:", newUrl);
 
@@ -558,6 +702,57 @@ export const SearchResults = () => {
     updateURLParams({ priceRange: newRange as [number, number] });
   };
 
+  const handleMinRatingChange = (band: number, checked: boolean) => {
+    const newMinRating = checked ? band : null;
+    setMinRating(newMinRating);
+    updateURLParams({ minRating: newMinRating });
+  };
+
+  // "Near me": centre the search on the browser position
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      setGeolocationError("Geolocalizzazione non supportata dal browser");
+      return;
+    }
+
+    setLocatingUser(true);
+    setGeolocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        const near: NearFilter = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          radiusKm: nearFilter?.radiusKm ?? SEARCH_CONFIG.defaultRadius,
+        };
+        console.log("📍 Near me search:", near);
+        setNearFilter(near);
+        setSortBy("distance");
+        updateURLParams({ near, sortBy: "distance" });
+        setLocatingUser(false);
+      },
+      error => {
+        console.warn("📍 Geolocation failed:", error.message);
+        setGeolocationError("Impossibile rilevare la tua posizione");
+        setLocatingUser(false);
+      },
+      { timeout: 10000, maximumAge: 300000 }
+    );
+  };
+
+  const handleRadiusChange = (value: string) => {
+    if (!nearFilter) return;
+    const near = { ...nearFilter, radiusKm: parseInt(value) };
+    setNearFilter(near);
+    updateURLParams({ near });
+  };
+
+  const clearNearFilter = () => {
+    setNearFilter(null);
+    const newSort = sortBy === "distance" ? "relevance" : sortBy;
+    setSortBy(newSort);
+    updateURLParams({ near: null, sortBy: newSort });
+  };
+
   const clearAllFilters = () => {
     console.log("🧹 Clearing all filters");
     setSearchQuery("");
@@ -567,10 +762,14 @@ export const SearchResults = () => {
     setSelectedCuisineTypes([]);
     setSelectedTourTypes([]);
     setSelectedServiceTypes([]);
+    setMinRating(null);
+    setNearFilter(null);
     setSortBy("relevance");
 
     // Clear all URL parameters
     updateURLParams({
+      minRating: null,
+      near: null,
       search: "",
       partnerTypes: [],
       locations: [],
@@ -691,6 +890,105 @@ export const SearchResults = () => {
     ));
   };
 
+  // Results per price level, below the slider
+  const renderPriceLevelCounts = () =>
+    facets && (
+      <div className="mt-2 grid grid-cols-5 text-center text-xs text-neutral-500">
+        {[1, 2, 3, 4, 5].map(level => (
+          <span
+            key={level}
+            className={cn(
+              getFacetCount("priceLevels", level) === 0 && "opacity-50"
+            )}
+          >
+            {getPriceRangeLabel(level)} {getFacetCount("priceLevels", level)}
+          </span>
+        ))}
+      </div>
+    );
+
+  const renderRatingFilter = () => (
+    <div className="mb-6">
+      <h4 className="mb-3 text-sm font-medium text-neutral-300">
+        Valutazione minima
+      </h4>
+      <div className="space-y-2">
+        {RATING_BANDS.map(band => (
+          <label
+            key={band}
+            className={cn(
+              "flex items-center gap-2 text-sm text-neutral-300",
+              isFacetOptionEmpty("ratings", band, minRating === band) &&
+                "opacity-50"
+            )}
+          >
+            <input
+              type="checkbox"
+              className="rounded border-neutral-600 bg-neutral-800"
+              checked={minRating === band}
+              disabled={isFacetOptionEmpty("ratings", band, minRating === band)}
+              onChange={e => handleMinRatingChange(band, e.target.checked)}
+            />
+            <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+            {band.toFixed(1)}+{renderFacetCount("ratings", band)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderDistanceFilter = () => (
+    <div className="mb-6">
+      <h4 className="mb-3 text-sm font-medium text-neutral-300">Distanza</h4>
+      {nearFilter ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2 text-sm text-neutral-300">
+            <span>
+              Entro {nearFilter.radiusKm} km da{" "}
+              {nearFilter.place || "la tua posizione"}
+            </span>
+            <button
+              onClick={clearNearFilter}
+              className="rounded p-1 hover:bg-neutral-700"
+              aria-label="Rimuovi filtro distanza"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+          <Select
+            value={nearFilter.radiusKm.toString()}
+            onValueChange={handleRadiusChange}
+          >
+            <SelectTrigger className="border-neutral-600 bg-neutral-800 text-white">
+              <SelectValue placeholder="Raggio" />
+            </SelectTrigger>
+            <SelectContent className="border-neutral-600 bg-neutral-800 text-white">
+              {RADIUS_OPTIONS_KM.map(radius => (
+                <SelectItem key={radius} value={radius.toString()}>
+                  {radius} km
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleNearMe}
+          disabled={locatingUser}
+          className="w-full border-neutral-600 bg-transparent text-white hover:bg-neutral-800"
+        >
+          <LocateFixed className="mr-2 h-4 w-4" />
+          {locatingUser ? "Rilevamento posizione..." : "Vicino a me"}
+        </Button>
+      )}
+      {geolocationError && (
+        <div className="mt-2 text-xs text-red-400">{geolocationError}</div>
+      )}
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-neutral-900 via-neutral-800 to-neutral-900">
       {/* Top Search Bar */}
@@ -746,6 +1044,17 @@ export const SearchResults = () => {
                 <span className="hidden sm:inline">AI Assistant</span>
               </Button>
 
+              <SavedSearchesDialog
+                filters={searchFilters}
+                defaultName={
+                  searchFilters.query.trim() ||
+                  searchFilters.locations.join(", ") ||
+                  "La mia ricerca"
+                }
+                isAuthenticated={!!user}
+                loginRedirect={`/search?${searchParams.toString()}`}
+              />
+
               <Select value={sortBy} onValueChange={handleSortChange}>
                 <SelectTrigger className="min-w-24 flex-1 border-neutral-600 bg-neutral-800 text-white sm:w-36 lg:w-40">
                   <SelectValue placeholder="Ordina per" />
@@ -758,6 +1067,9 @@ export const SearchResults = () => {
                   <SelectItem value="price-high">Prezzo ↘</SelectItem>
                   <SelectItem value="rating">Valutazione</SelectItem>
                   <SelectItem value="recent">Più recenti</SelectItem>
+                  {nearFilter && (
+                    <SelectItem value="distance">Distanza</SelectItem>
+                  )}
                 </SelectContent>
               </Select>
 
@@ -836,11 +1148,19 @@ export const SearchResults = () => {
                           { value: "hotel", label: "Hotels" },
                           { value: "restaurant", label: "Ristoranti" },
                           { value: "tour", label: "Tour" },
+                          { value: "experience", label: "Esperienze" },
                           { value: "shuttle", label: "Trasporti" },
                         ].map(type => (
                           <label
                             key={type.value}
-                            className="flex items-center gap-2 text-sm text-neutral-300"
+                            className={cn(
+                              "flex items-center gap-2 text-sm text-neutral-300",
+                              isFacetOptionEmpty(
+                                "partnerTypes",
+                                type.value,
+                                selectedPartnerTypes.includes(type.value)
+                              ) && "opacity-50"
+                            )}
                           >
                             <input
                               type="checkbox"
@@ -848,6 +1168,11 @@ export const SearchResults = () => {
                               checked={selectedPartnerTypes.includes(
                                 type.value
                               )}
+                              disabled={isFacetOptionEmpty(
+                                "partnerTypes",
+                                type.value,
+                                selectedPartnerTypes.includes(type.value)
+                              )}
                               onChange={e =>
                                 handlePartnerTypeChange(
                                   type.value,
@@ -856,6 +1181,7 @@ export const SearchResults = () => {
                               }
                             />
                             {type.label}
+                            {renderFacetCount("partnerTypes", type.value)}
                           </label>
                         ))}
                       </div>
@@ -879,9 +1205,16 @@ export const SearchResults = () => {
                           <span>{getPriceRangeLabel(priceRange[0])}</span>
                           <span>{getPriceRangeLabel(priceRange[1])}</span>
                         </div>
+                        {renderPriceLevelCounts()}
                       </div>
                     </div>
 
+                    {/* Rating Filter */}
+                    {renderRatingFilter()}
+
+                    {/* Distance Filter */}
+                    {renderDistanceFilter()}
+
                     {/* Clear Filters Button */}
                     <div className="pt-4">
                       <Button
@@ -1009,9 +1342,13 @@ export const SearchResults = () => {
                       <span>{getPriceRangeLabel(priceRange[0])}</span>
                       <span>{getPriceRangeLabel(priceRange[1])}</span>
                     </div>
+                    {renderPriceLevelCounts()}
                   </div>
                 </div>
 
+                {/* Rating Filter */}
+                {renderRatingFilter()}
+
                 {/* Partner Type Filter */}
                 <div className="mb-6">
                   <h4 className="mb-3 text-sm font-medium text-neutral-300">
@@ -1022,16 +1359,29 @@ export const SearchResults = () => {
                       { value: "hotel", label: "Hotels" },
                       { value: "restaurant", label: "Ristoranti" },
                       { value: "tour", label: "Tour" },
+                      { value: "experience", label: "Esperienze" },
                       { value: "shuttle", label: "Trasporti" },
                     ].map(type => (
                       <label
                         key={type.value}
-                        className="flex items-center gap-2 text-sm text-neutral-300"
+                        className={cn(
+                          "flex items-center gap-2 text-sm text-neutral-300",
+                          isFacetOptionEmpty(
+                            "partnerTypes",
+                            type.value,
+                            selectedPartnerTypes.includes(type.value)
+                          ) && "opacity-50"
+                        )}
                       >
                         <input
                           type="checkbox"
                           className="rounded border-neutral-600 bg-neutral-800"
                           checked={selectedPartnerTypes.includes(type.value)}
+                          disabled={isFacetOptionEmpty(
+                            "partnerTypes",
+                            type.value,
+                            selectedPartnerTypes.includes(type.value)
+                          )}
                           onChange={e =>
                             handlePartnerTypeChange(
                               type.value,
@@ -1040,11 +1390,15 @@ export const SearchResults = () => {
                           }
                         />
                         {type.label}
+                        {renderFacetCount("partnerTypes", type.value)}
                       </label>
                     ))}
                   </div>
                 </div>
 
+                {/* Distance Filter */}
+                {renderDistanceFilter()}
+
                 {/* Locations Filter */}
                 <div className="mb-6">
                   <h4 className="mb-3 text-sm font-medium text-neutral-300">
@@ -1054,17 +1408,30 @@ export const SearchResults = () => {
                     {availableLocations.slice(0, 8).map(location => (
                       <label
                         key={location}
-                        className="flex items-center gap-2 text-sm text-neutral-300"
+                        className={cn(
+                          "flex items-center gap-2 text-sm text-neutral-300",
+                          isFacetOptionEmpty(
+                            "locations",
+                            location,
+                            selectedLocations.includes(location)
+                          ) && "opacity-50"
+                        )}
                       >
                         <input
                           type="checkbox"
                           className="rounded border-neutral-600 bg-neutral-800"
                           checked={selectedLocations.includes(location)}
+                          disabled={isFacetOptionEmpty(
+                            "locations",
+                            location,
+                            selectedLocations.includes(location)
+                          )}
                           onChange={e =>
                             handleLocationChange(location, e.target.checked)
                           }
                         />
                         {location}
+                        {renderFacetCount("locations", location)}
                       </label>
                     ))}
                     {loadingOptions && (
@@ -1085,17 +1452,30 @@ export const SearchResults = () => {
                       {availableCuisineTypes.slice(0, 6).map(cuisine => (
                         <label
                           key={cuisine}
-                          className="flex items-center gap-2 text-sm text-neutral-300"
+                          className={cn(
+                            "flex items-center gap-2 text-sm text-neutral-300",
+                            isFacetOptionEmpty(
+                              "cuisineTypes",
+                              cuisine,
+                              selectedCuisineTypes.includes(cuisine)
+                            ) && "opacity-50"
+                          )}
                         >
                           <input
                             type="checkbox"
                             className="rounded border-neutral-600 bg-neutral-800"
                             checked={selectedCuisineTypes.includes(cuisine)}
+                            disabled={isFacetOptionEmpty(
+                              "cuisineTypes",
+                              cuisine,
+                              selectedCuisineTypes.includes(cuisine)
+                            )}
                             onChange={e =>
                               handleCuisineTypeChange(cuisine, e.target.checked)
                             }
                           />
                           {cuisine}
+                          {renderFacetCount("cuisineTypes", cuisine)}
                         </label>
                       ))}
                     </div>
@@ -1112,17 +1492,30 @@ export const SearchResults = () => {
                       {availableTourTypes.slice(0, 6).map(tourType => (
                         <label
                           key={tourType}
-                          className="flex items-center gap-2 text-sm text-neutral-300"
+                          className={cn(
+                            "flex items-center gap-2 text-sm text-neutral-300",
+                            isFacetOptionEmpty(
+                              "tourTypes",
+                              tourType,
+                              selectedTourTypes.includes(tourType)
+                            ) && "opacity-50"
+                          )}
                         >
                           <input
                             type="checkbox"
                             className="rounded border-neutral-600 bg-neutral-800"
                             checked={selectedTourTypes.includes(tourType)}
+                            disabled={isFacetOptionEmpty(
+                              "tourTypes",
+                              tourType,
+                              selectedTourTypes.includes(tourType)
+                            )}
                             onChange={e =>
                               handleTourTypeChange(tourType, e.target.checked)
                             }
                           />
                           {tourType}
+                          {renderFacetCount("tourTypes", tourType)}
                         </label>
                       ))}
                     </div>
@@ -1139,12 +1532,24 @@ export const SearchResults = () => {
                       {availableServiceTypes.slice(0, 6).map(serviceType => (
                         <label
                           key={serviceType}
-                          className="flex items-center gap-2 text-sm text-neutral-300"
+                          className={cn(
+                            "flex items-center gap-2 text-sm text-neutral-300",
+                            isFacetOptionEmpty(
+                              "serviceTypes",
+                              serviceType,
+                              selectedServiceTypes.includes(serviceType)
+                            ) && "opacity-50"
+                          )}
                         >
                           <input
                             type="checkbox"
                             className="rounded border-neutral-600 bg-neutral-800"
                             checked={selectedServiceTypes.includes(serviceType)}
+                            disabled={isFacetOptionEmpty(
+                              "serviceTypes",
+                              serviceType,
+                              selectedServiceTypes.includes(serviceType)
+                            )}
                             onChange={e =>
                               handleServiceTypeChange(
                                 serviceType,
@@ -1153,6 +1558,7 @@ export const SearchResults = () => {
                             }
                           />
                           {serviceType}
+                          {renderFacetCount("serviceTypes", serviceType)}
                         </label>
                       ))}
                     </div>
@@ -1179,7 +1585,9 @@ export const SearchResults = () => {
           {/* Results Header */}
           <div className="mb-6">
             <h1 className="mb-2 text-2xl font-bold text-white">
-              {loading ? "Ricerca in corso..." : `Trovati ${total} partner`}
+              {loading
+                ? "Ricerca in corso..."
+                : `Trovati ${totalExact ? "" : "circa "}${total} partner`}
             </h1>
             <p className="text-neutral-400">
               {searchQuery
@@ -1302,17 +1710,7 @@ export const SearchResults = () => {
                         className="object-cover md:object-center"
                       />
                       <div className="bg-primary-500 absolute top-3 right-3 rounded-lg px-2 py-1 text-xs font-semibold text-white">
-                        {getPriceRangeLabel(
-                          partner.priceRange === "budget"
-                            ? 1
-                            : partner.priceRange === "mid-range"
-                              ? 2
-                              : partner.priceRange === "luxury"
-                                ? 3
-                                : partner.priceRange === "premium"
-                                  ? 4
-                                  : 2
-                        )}
+                        {getPriceRangeLabel(getPartnerPriceLevel(partner))}
                       </div>
                       <div className="absolute top-3 left-3 rounded bg-neutral-900/80 px-2 py-1 text-xs text-white">
                         {getPartnerTypeLabel(partner.type)}
@@ -1348,6 +1746,8 @@ export const SearchResults = () => {
                                 <MapPin className="h-3 w-3 flex-shrink-0" />
                                 <span className="truncate">
                                   {partner.location.city}
+                                  {partner.distanceKm !== undefined &&
+                                    ` · ${formatDistance(partner.distanceKm)}`}
                                 </span>
                               </div>
                               {partner.isVerified && (
@@ -1369,17 +1769,11 @@ export const SearchResults = () => {
                                   variant="outline"
                                   className="border-primary-600 bg-primary-900/20 text-primary-400 text-xs"
                                 >
-                                  {getPriceRangeLabel(
-                                    partner.priceRange === "budget"
-                                      ? 1
-                                      : partner.priceRange === "mid-range"
-                                        ? 2
-                                        : partner.priceRange === "luxury"
-                                          ? 3
-                                          : partner.priceRange === "premium"
-                                            ? 4
-                                            : 2
-                                  )}
+                                  {(partner.price &&
+                                    formatPartnerPrice(partner.price)) ||
+                                    getPriceRangeLabel(
+                                      getPartnerPriceLevel(partner)
+                                    )}
                                 </Badge>
                               </div>
                             </div>
@@ -1462,22 +1856,13 @@ export const SearchResults = () => {
                           <div className="mb-4">
                             <div className="text-primary-400 text-lg font-bold">
                               {getPriceRangeLabel(
-                                partner.priceRange === "budget"
-                                  ? 1
-                                  : partner.priceRange === "mid-range"
-                                    ? 2
-                                    : partner.priceRange === "luxury"
-                                      ? 3
-                                      : partner.priceRange === "premium"
-                                        ? 4
-                                        : 2
+                                getPartnerPriceLevel(partner)
                               )}
                             </div>
                             <div className="text-xs text-neutral-400">
-                              {partner.priceRange === "budget" && "Economico"}
-                              {partner.priceRange === "mid-range" && "Medio"}
-                              {partner.priceRange === "luxury" && "Lusso"}
-                              {partner.priceRange === "premium" && "Premium"}
+                              {(partner.price &&
+                                formatPartnerPrice(partner.price)) ||
+                                PRICE_BUCKET_LABELS[partner.priceRange]}
                             </div>
                           </div>
                         </div>
@@ -1508,6 +1893,16 @@ export const SearchResults = () => {
                   </div>
                 </Card>
               ))}
+
+              {/* Infinite scroll sentinel */}
+              {hasMore && (
+                <div
+                  ref={loadMoreSentinelRef}
+                  className="py-6 text-center text-sm text-neutral-400"
+                >
+                  {loadingMore ? "Caricamento altri partner..." : ""}
+                </div>
+              )}
             </div>
           )}
 
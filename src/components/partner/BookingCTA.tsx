@@ -76,6 +76,13 @@ export const BookingCTA: React.FC<BookingCTAProps> = ({ partner }) => {
           guestLabel: "Passeggeri",
           contactLabel: "Contatta Servizio",
         };
+      case "experience":
+        return {
+          primary: "Prenota Esperienza",
+          dateLabel: "Data esperienza",
+          guestLabel: "Partecipanti",
+          contactLabel: "Contatta Organizzatore",
+        };
       default:
         return {
           primary: "Prenota",
@@ -128,6 +135,7 @@ export const BookingCTA: React.FC<BookingCTAProps> = ({ partner }) => {
             {partner.type === "restaurant" && "🍽️"}
             {partner.type === "tour" && "🗺️"}
             {partner.type === "shuttle" && "🚐"}
+            {partner.type === "experience" && "🎭"}
             Prenotazione
           </CardTitle>
 
@@ -173,6 +181,7 @@ export const BookingCTA: React.FC<BookingCTAProps> = ({ partner }) => {
             {partner.type === "restaurant" && "fascia di prezzo"}
             {partner.type === "tour" && "per persona"}
             {partner.type === "shuttle" && "per tratta"}
+            {partner.type === "experience" && "per persona"}
           </p>
         </div>
 
@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Bell, BellOff, Bookmark, Trash2 } from "lucide-react";
+import { useSavedSearches } from "@/hooks/useSavedSearches";
+import type { TraditionalSearchFilters } from "@/hooks/useTraditionalSearch";
+import { cn } from "@/lib/utils";
+
+interface SavedSearchesDialogProps {
+  filters: TraditionalSearchFilters;
+  // Suggested name of the current search
+  defaultName: string;
+  isAuthenticated: boolean;
+  // Page to return to after signing in
+  loginRedirect: string;
+}
+
+export const SavedSearchesDialog: React.FC<SavedSearchesDialogProps> = ({
+  filters,
+  defaultName,
+  isAuthenticated,
+  loginRedirect,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [notify, setNotify] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const {
+    savedSearches,
+    saveSearch,
+    deleteSearch,
+    setNotify: setSearchNotify,
+  } = useSavedSearches(open && isAuthenticated);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName(defaultName);
+      setNotify(true);
+      setSaved(false);
+      setSaveError(null);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await saveSearch(name.trim(), filters, notify);
+      setSaved(true);
+    } catch (error) {
+      console.error("❌ Failed to save search:", error);
+      setSaveError(
+        error instanceof Error
+          ? error.message
+          : "Impossibile salvare la ricerca"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAction = (action: Promise<void>) => {
+    action.catch(error => {
+      console.error("❌ Saved search update failed:", error);
+      setSaveError(
+        error instanceof Error ? error.message : "Operazione non riuscita"
+      );
+    });
+  };
+
+  const triggerClassName =
+    "flex-shrink-0 border-neutral-600 bg-neutral-800 text-neutral-200 hover:bg-neutral-700 hover:text-white";
+
+  if (!isAuthenticated) {
+    return (
+      <Button asChild variant="outline" size="sm" className={triggerClassName}>
+        <Link href={`/login?redirectTo=${encodeURIComponent(loginRedirect)}`}>
+          <Bookmark className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Salva ricerca</span>
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handleOpenChange(true)}
+        className={triggerClassName}
+      >
+        <Bookmark className="h-4 w-4 sm:mr-2" />
+        <span className="hidden sm:inline">Salva ricerca</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="border-neutral-700 bg-neutral-900 text-white">
+          <DialogHeader>
+            <DialogTitle className="text-white">Salva ricerca</DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Ritrova questi filtri in un clic e ricevi un avviso quando nuovi
+              partner corrispondono alla ricerca.
+            </DialogDescription>
+          </DialogHeader>
+
+          {saved ? (
+            <p className="rounded-md bg-green-600/20 p-3 text-sm text-green-300">
+              Ricerca salvata.
+              {notify && " Ti avviseremo dei nuovi risultati."}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="saved-search-name" className="text-neutral-300">
+                  Nome
+                </Label>
+                <Input
+                  id="saved-search-name"
+                  value={name}
+                  maxLength={100}
+                  onChange={e => setName(e.target.value)}
+                  className="border-neutral-600 bg-neutral-800 text-white"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="saved-search-notify"
+                  checked={notify}
+                  onCheckedChange={checked => setNotify(checked === true)}
+                />
+                <Label
+                  htmlFor="saved-search-notify"
+                  className="text-sm text-neutral-300"
+                >
+                  Avvisami dei nuovi risultati
+                </Label>
+              </div>
+            </div>
+          )}
+
+          {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+
+          {savedSearches.length > 0 && (
+            <div className="border-t border-neutral-700 pt-4">
+              <h4 className="mb-2 text-sm font-medium text-neutral-300">
+                Le tue ricerche salvate
+              </h4>
+              <div className="max-h-56 space-y-1 overflow-y-auto">
+                {savedSearches.map(search => (
+                  <div
+                    key={search.id}
+                    className="flex items-center gap-2 rounded-md p-1 hover:bg-neutral-800"
+                  >
+                    <Link
+                      href={search.url}
+                      onClick={() => setOpen(false)}
+                      className="min-w-0 flex-1 truncate text-sm text-neutral-200 hover:text-white"
+                    >
+                      {search.name}
+                    </Link>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        handleAction(setSearchNotify(search.id, !search.notify))
+                      }
+                      aria-label={
+                        search.notify
+                          ? `Disattiva gli avvisi di ${search.name}`
+                          : `Attiva gli avvisi di ${search.name}`
+                      }
+                      className={cn(
+                        "h-8 w-8",
+                        search.notify ? "text-primary-400" : "text-neutral-500"
+                      )}
+                    >
+                      {search.notify ? (
+                        <Bell className="h-4 w-4" />
+                      ) : (
+                        <BellOff className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleAction(deleteSearch(search.id))}
+                      aria-label={`Elimina ${search.name}`}
+                      className="h-8 w-8 text-neutral-500 hover:text-red-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setOpen(false)}
+              className="border-neutral-600 bg-neutral-800 text-neutral-200 hover:bg-neutral-700"
+            >
+              {saved ? "Chiudi" : "Annulla"}
+            </Button>
+            {!saved && (
+              <Button
+                onClick={handleSave}
+                disabled={saving || !name.trim()}
+                className="bg-primary-600 hover:bg-primary-700 text-white"
+              >
+                {saving ? "Salvataggio..." : "Salva"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
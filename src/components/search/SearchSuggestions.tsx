@@ -6,6 +6,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Search, MapPin, Clock, TrendingUp, History } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useDebounce } from "@/hooks/useDebounce";
+import { SEARCH_CONFIG } from "@/constants";
 
 interface SearchSuggestion {
   id: string;
@@ -22,97 +24,14 @@ interface SearchSuggestionsProps {
   className?: string;
 }
 
-const MOCK_SUGGESTIONS: SearchSuggestion[] = [
-  // Popular locations
-  { id: "1", type: "location", text: "Roma", category: "Città", count: 156 },
-  { id: "2", type: "location", text: "Milano", category: "Città", count: 89 },
-  { id: "3", type: "location", text: "Firenze", category: "Città", count: 127 },
-  { id: "4", type: "location", text: "Napoli", category: "Città", count: 78 },
-  { id: "5", type: "location", text: "Venezia", category: "Città", count: 94 },
-
-  // Activities
-  {
-    id: "6",
-    type: "activity",
-    text: "tour gastronomico",
-    category: "Attività",
-    count: 34,
-  },
-  {
-    id: "7",
-    type: "activity",
-    text: "visita guidata",
-    category: "Attività",
-    count: 67,
-  },
-  {
-    id: "8",
-    type: "activity",
-    text: "escursione giornaliera",
-    category: "Attività",
-    count: 45,
-  },
-  {
-    id: "9",
-    type: "activity",
-    text: "aperitivo panoramico",
-    category: "Attività",
-    count: 23,
-  },
-
-  // Partner types
-  {
-    id: "10",
-    type: "partner",
-    text: "hotel di lusso",
-    category: "Alloggi",
-    count: 43,
-  },
-  {
-    id: "11",
-    type: "partner",
-    text: "ristorante romantico",
-    category: "Ristorazione",
-    count: 56,
-  },
-  {
-    id: "12",
-    type: "partner",
-    text: "trattoria tradizionale",
-    category: "Ristorazione",
-    count: 38,
-  },
-
-  // Trending
-  {
-    id: "13",
-    type: "trending",
-    text: "weekend romantico",
-    category: "Trending",
-    count: 89,
-  },
-  {
-    id: "14",
-    type: "trending",
-    text: "viaggio business",
-    category: "Trending",
-    count: 67,
-  },
-  {
-    id: "15",
-    type: "trending",
-    text: "vacanza famiglia",
-    category: "Trending",
-    count: 123,
-  },
-];
+interface SuggestResponse {
+  suggestions: SearchSuggestion[];
+  trending: { text: string; count: number }[];
+  recent: string[];
+  authenticated: boolean;
+}
 
-const RECENT_SEARCHES = [
-  "Roma centro storico",
-  "hotel 4 stelle Milano",
-  "tour Colosseo",
-  "ristorante vista mare Napoli",
-];
+const RECENT_SEARCHES_KEY = "via-nexo-recent-searches";
 
 export const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({
   query,
@@ -121,37 +40,64 @@ export const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({
   className,
 }) => {
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
-  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [localSearches, setLocalSearches] = useState<string[]>([]);
+  // Recent searches of the signed-in user, null for anonymous users
+  const [serverSearches, setServerSearches] = useState<string[] | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(-1);
+  const debouncedQuery = useDebounce(
+    query.trim(),
+    SEARCH_CONFIG.searchDebounceMs
+  );
 
   useEffect(() => {
     // Load recent searches from localStorage
-    const stored = localStorage.getItem("via-nexo-recent-searches");
+    const stored = localStorage.getItem(RECENT_SEARCHES_KEY);
     if (stored) {
-      setRecentSearches(JSON.parse(stored));
-    } else {
-      setRecentSearches(RECENT_SEARCHES);
+      setLocalSearches(JSON.parse(stored));
     }
   }, []);
 
   useEffect(() => {
-    if (!query.trim()) {
-      // Show trending and recent when no query
-      setSuggestions(
-        MOCK_SUGGESTIONS.filter(s => s.type === "trending").slice(0, 4)
-      );
-      return;
-    }
+    if (!isVisible) return;
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({ q: debouncedQuery });
+
+    fetch(`/api/search/suggest?${params.toString()}`, {
+      signal: controller.signal,
+    })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Suggest request failed: ${response.status}`);
+        }
+        return response.json() as Promise<SuggestResponse>;
+      })
+      .then(data => {
+        // Show trending searches when there is no query
+        setSuggestions(
+          debouncedQuery
+            ? data.suggestions
+            : data.trending.map((trend, index) => ({
+                id: `trending-${index}`,
+                type: "trending",
+                text: trend.text,
+                category: "Trending",
+              }))
+        );
+        setServerSearches(data.authenticated ? data.recent : null);
+      })
+      .catch(error => {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          return;
+        }
+        console.error("❌ Search suggestions error:", error);
+        setSuggestions([]);
+      });
 
-    // Filter suggestions based on query
-    const filtered = MOCK_SUGGESTIONS.filter(
-      suggestion =>
-        suggestion.text.toLowerCase().includes(query.toLowerCase()) ||
-        suggestion.category?.toLowerCase().includes(query.toLowerCase())
-    ).slice(0, 6);
+    return () => controller.abort();
+  }, [debouncedQuery, isVisible]);
 
-    setSuggestions(filtered);
-  }, [query]);
+  const recentSearches = serverSearches ?? localSearches;
 
   const getSuggestionIcon = (type: string) => {
     switch (type) {
@@ -175,14 +121,14 @@ export const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({
       // Add to recent searches
       const updated = [
         suggestionText,
-        ...recentSearches.filter(s => s !== suggestionText),
+        ...localSearches.filter(s => s !== suggestionText),
       ].slice(0, 10);
-      setRecentSearches(updated);
-      localStorage.setItem("via-nexo-recent-searches", JSON.stringify(updated));
+      setLocalSearches(updated);
+      localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated));
 
       onSuggestionSelect(suggestionText);
     },
-    [recentSearches, onSuggestionSelect]
+    [localSearches, onSuggestionSelect]
   );
 
   // Handle keyboard navigation
@@ -260,7 +206,7 @@ export const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({
                     "w-full justify-start p-2 text-left hover:bg-neutral-700",
                     selectedIndex === index && "bg-neutral-700"
                   )}
-                  aria-label={`${suggestion.text} in ${suggestion.category}, ${suggestion.count} risultati`}
+                  aria-label={`${suggestion.text}${suggestion.category ? ` in ${suggestion.category}` : ""}${suggestion.count !== undefined ? `, ${suggestion.count} risultati` : ""}`}
                 >
                   <div className="flex w-full items-center gap-3">
                     {getSuggestionIcon(suggestion.type)}
@@ -279,7 +225,7 @@ export const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({
                         )}
                       </div>
                     </div>
-                    {suggestion.count && (
+                    {suggestion.count !== undefined && (
                       <span className="text-xs text-neutral-400">
                         {suggestion.count} risultati
                       </span>
@@ -141,6 +141,73 @@ export const SEARCH_CONFIG = {
   suggestionsLimit: 5,
 } as const;
 
+// Options of the search filter sidebar. Facet counts are computed for
+// these values, with the same substring match as the filters.
+export const SEARCH_FILTER_OPTIONS = {
+  locations: [
+    "Roma",
+    "Milano",
+    "Venezia",
+    "Firenze",
+    "Napoli",
+    "Torino",
+    "Bologna",
+    "Palermo",
+    "Genova",
+    "Verona",
+    "Padova",
+    "Trieste",
+    "Brescia",
+    "Modena",
+    "Parma",
+    "Reggio Emilia",
+    "Perugia",
+    "Livorno",
+  ],
+  cuisineTypes: [
+    "Italiana",
+    "Mediterranea",
+    "Romana",
+    "Toscana",
+    "Siciliana",
+    "Napoletana",
+    "Vegetariana",
+    "Vegana",
+    "Pesce",
+    "Pizza",
+    "Internazionale",
+    "Fusion",
+    "Gourmet",
+    "Tradizionale",
+  ],
+  tourTypes: [
+    "Culturale",
+    "Storico",
+    "Artistico",
+    "Gastronomico",
+    "Avventura",
+    "Naturalistico",
+    "Archeologico",
+    "Religioso",
+    "Enologico",
+    "Fotografico",
+  ],
+  serviceTypes: [
+    "Aeroporto",
+    "Stazione",
+    "Hotel",
+    "Privato",
+    "Condiviso",
+    "Lusso",
+    "Economico",
+    "Navetta",
+    "Transfer",
+  ],
+};
+
+// Minimum rating bands of the rating filter, highest first
+export const RATING_BANDS = [4.5, 4, 3.5, 3] as const;
+
 // ===== CHAT CONFIGURATION =====
 
 export const CHAT_CONFIG = {
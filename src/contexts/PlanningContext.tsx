@@ -1,6 +1,12 @@
 "use client";
 
-import React, { createContext, useContext, useState, useCallback } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useRef,
+} from "react";
 import type { PartnerData, ChatMessage } from "@/types";
 
 interface PlanningProgress {
@@ -34,6 +40,7 @@ interface PlanningContextType {
   startPlanning: (partners: PartnerData[], userQuery?: string) => Promise<void>;
   exitPlanningMode: () => void;
   regeneratePlan: (userQuery?: string) => Promise<void>;
+  stopPlanning: () => void;
 
   // Gestione partner
   addPartner: (partner: PartnerData) => void;
@@ -75,6 +82,7 @@ export function PlanningProvider({
   );
   const [isStreamingPlanning, setIsStreamingPlanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const clearError = useCallback(() => {
     setError(null);
@@ -114,6 +122,9 @@ export function PlanningProvider({
         setIsStreamingPlanning(true);
         setPlanningProgress([]);
 
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = new AbortController();
+
         const response = await fetch("/api/planning/stream", {
           method: "POST",
           headers: {
@@ -128,6 +139,7 @@ export function PlanningProvider({
               // Potremmo estendere questo con preferenze dell'utente dal loro profilo
             },
           }),
+          signal: abortControllerRef.current.signal,
         });
 
         if (!response.ok) {
@@ -146,6 +158,7 @@ export function PlanningProvider({
         }
 
         let finalPlan = "";
+        let streamError: string | null = null;
 
         while (true) {
           const { done, value } = await reader.read();
@@ -177,8 +190,13 @@ export function PlanningProvider({
                   });
                 } else if (eventData.type === "planning_complete") {
                   finalPlan = eventData.plan;
-                } else if (eventData.type === "planning_error") {
-                  throw new Error(eventData.message);
+                } else if (
+                  eventData.type === "planning_error" ||
+                  eventData.type === "planning_blocked"
+                ) {
+                  // Thrown after the loop: here it would be taken for a
+                  // parse error
+                  streamError = eventData.message;
                 } else if (eventData.type === "planning_end") {
                   // Stream completed
                   break;
@@ -193,6 +211,10 @@ export function PlanningProvider({
           }
         }
 
+        if (streamError) {
+          throw new Error(streamError);
+        }
+
         if (!finalPlan) {
           throw new Error("No plan received from planning API");
         }
@@ -223,6 +245,10 @@ export function PlanningProvider({
 
         console.log("[PLANNING] Plan generated successfully and added to chat");
       } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          console.log("[PLANNING] Plan generation stopped by user");
+          return;
+        }
         console.error("[PLANNING] Error generating plan:", err);
         setError(
           err instanceof Error
@@ -233,11 +259,16 @@ export function PlanningProvider({
         setIsGeneratingPlan(false);
         setIsStreamingPlanning(false);
         setPlanningProgress([]);
+        abortControllerRef.current = null;
       }
     },
     [addMessage]
   );
 
+  const stopPlanning = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const exitPlanningMode = useCallback(() => {
     setIsPlanningMode(false);
     setSelectedPartners([]);
@@ -262,6 +293,9 @@ export function PlanningProvider({
 
         console.log("[PLANNING] Regenerating plan...");
 
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = new AbortController();
+
         // Chiama lAPI per rigenerare il piano di viaggio in streaming
         const response = await fetch("/api/planning/stream", {
           method: "POST",
@@ -277,6 +311,7 @@ export function PlanningProvider({
               // Estendibile con preferenze utente
             },
           }),
+          signal: abortControllerRef.current.signal,
         });
 
         if (!response.ok) {
@@ -295,6 +330,7 @@ export function PlanningProvider({
         }
 
         let finalPlan = "";
+        let streamError: string | null = null;
 
         while (true) {
           const { done, value } = await reader.read();
@@ -321,8 +357,13 @@ export function PlanningProvider({
                   setPlanningProgress(prev => [...prev, eventData].slice(-10));
                 } else if (eventData.type === "planning_complete") {
                   finalPlan = eventData.plan;
-                } else if (eventData.type === "planning_error") {
-                  throw new Error(eventData.message);
+                } else if (
+                  eventData.type === "planning_error" ||
+                  eventData.type === "planning_blocked"
+                ) {
+                  // Thrown after the loop: here it would be taken for a
+                  // parse error
+                  streamError = eventData.message;
                 } else if (eventData.type === "planning_end") {
                   break;
                 }
@@ -336,6 +377,10 @@ export function PlanningProvider({
           }
         }
 
+        if (streamError) {
+          throw new Error(streamError);
+        }
+
         if (!finalPlan) {
           throw new Error("No plan received from regeneration API");
         }
@@ -362,6 +407,10 @@ export function PlanningProvider({
           "[PLANNING] Plan regenerated successfully and added to chat"
         );
       } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") {
+          console.log("[PLANNING] Plan regeneration stopped by user");
+          return;
+        }
         console.error("[PLANNING] Error regenerating plan:", err);
         setError(
           err instanceof Error
@@ -372,6 +421,7 @@ export function PlanningProvider({
         setIsGeneratingPlan(false);
         setIsStreamingPlanning(false);
         setPlanningProgress([]);
+        abortControllerRef.current = null;
       }
     },
     [selectedPartners, addMessage]
@@ -409,6 +459,7 @@ export function PlanningProvider({
     startPlanning,
     exitPlanningMode,
     regeneratePlan,
+    stopPlanning,
 
     // Gestione partner
     addPartner,
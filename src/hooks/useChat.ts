@@ -4,7 +4,14 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
-import type { ChatMessage, ChatSession, Status, PartnerData } from "@/types";
+import type {
+  AppliedPreference,
+  ChatMessage,
+  ChatSession,
+  Status,
+  PartnerData,
+  PartnerMention,
+} from "@/types";
 import { CHAT_CONFIG } from "@/constants";
 import { useChatDatabasePersistence } from "./useChatDatabasePersistence";
 
@@ -18,8 +25,10 @@ interface AgentProgress {
     | "complete"
     | "error"
     | "end";
-  agent?: "hotel" | "restaurant" | "tour" | "shuttle";
+  agent?: "hotel" | "restaurant" | "tour" | "shuttle" | "experience";
+  status?: "completed" | "failed" | "timed_out";
   partnersFound?: number;
+  partners?: PartnerData[];
   message: string;
   timestamp: number;
 }
@@ -37,6 +46,7 @@ export interface UseChatReturn {
   clearChat: () => void;
   clearMessages: () => void;
   retryLastMessage: () => Promise<void>;
+  stopGeneration: () => void;
 
   // Session management
   startNewSession: () => Promise<string>;
@@ -85,7 +95,8 @@ export function useChat(): UseChatReturn {
     if (
       currentSessionId &&
       messages.length > 0 &&
-      !isLoadingSessionRef.current
+      !isLoadingSessionRef.current &&
+      !isStreamingResponse
     ) {
       // Clear existing timeout
       if (saveTimeoutRef.current) {
@@ -110,7 +121,7 @@ export function useChat(): UseChatReturn {
         }
       };
     }
-  }, [currentSessionId, messages, saveMessages]);
+  }, [currentSessionId, messages, saveMessages, isStreamingResponse]);
 
   const generateMessageId = () =>
     `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
@@ -160,12 +171,21 @@ export function useChat(): UseChatReturn {
 
       abortControllerRef.current = new AbortController();
 
+      // Assistant message rendered progressively from text_delta events
+      let streamingMessageId: string | null = null;
+
       try {
         // Use streaming AI Chat API for real-time progress
-        const conversationHistory = messages.map(msg => ({
-          role: msg.role,
-          content: msg.content,
-        }));
+        // Planning messages carry no text and are not part of the dialogue
+        const conversationHistory = messages
+          .filter(msg => msg.content.trim().length > 0)
+          .map(msg => ({
+            role: msg.role,
+            content: msg.content,
+          }));
+        // Whatever the user sends after a clarification question answers it
+        const clarificationResponse =
+          messages[messages.length - 1]?.metadata?.type === "clarification";
 
         setIsStreamingResponse(true);
         setAgentProgress([]);
@@ -183,6 +203,8 @@ export function useChat(): UseChatReturn {
                 content: content.trim(),
               },
             ],
+            conversationId: sessionId,
+            clarificationResponse,
           }),
           signal: abortControllerRef.current?.signal,
         });
@@ -206,14 +228,25 @@ export function useChat(): UseChatReturn {
 
         let finalMessage = "";
         let finalPartners: PartnerData[] = [];
+        let traceId: string | undefined;
+        let appliedPreferences: AppliedPreference[] = [];
+        let partnerMentions: PartnerMention[] = [];
+        let clarificationMessage: ChatMessage | null = null;
+        // Refusal for a message stopped by the server guardrails
+        let blockedMessage: ChatMessage | null = null;
+        let streamError: string | null = null;
         let planningMessageId: string | null = null;
+        let buffer = "";
 
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          const chunk = decoder.decode(value);
-          const lines = chunk.split("\n");
+          // Events carrying partner cards can span several chunks: keep the
+          // trailing incomplete line for the next read
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() || "";
 
           for (const line of lines) {
             if (line.startsWith("data: ")) {
@@ -229,6 +262,11 @@ export function useChat(): UseChatReturn {
                   eventData.type === "finalizing" ||
                   eventData.type === "chat_processing"
                 ) {
+                  // Partner cards travel with agent_complete: attach them to
+                  // the planning message, keep the progress entry lightweight
+                  const { partners: streamedPartners = [], ...progressEvent } =
+                    eventData as AgentProgress;
+
                   // Persist planning steps as a distinct message
                   setMessages(prevMessages => {
                     if (!planningMessageId) {
@@ -241,8 +279,9 @@ export function useChat(): UseChatReturn {
                         timestamp: new Date().toISOString(),
                         metadata: {
                           type: "planning",
-                          progress: [eventData],
+                          progress: [progressEvent],
                         },
+                        partners: streamedPartners,
                       };
                       return [...prevMessages, newPlanningMessage];
                     }
@@ -251,13 +290,21 @@ export function useChat(): UseChatReturn {
                       if (msg.id === planningMessageId) {
                         const currentProgress =
                           (msg.metadata?.progress as AgentProgress[]) || [];
+                        const currentPartners = msg.partners || [];
                         return {
                           ...msg,
                           metadata: {
                             ...msg.metadata,
                             type: "planning",
-                            progress: [...currentProgress, eventData],
+                            progress: [...currentProgress, progressEvent],
                           },
+                          partners: [
+                            ...currentPartners,
+                            ...streamedPartners.filter(
+                              partner =>
+                                !currentPartners.some(p => p.id === partner.id)
+                            ),
+                          ],
                         };
                       }
                       return msg;
@@ -266,14 +313,77 @@ export function useChat(): UseChatReturn {
 
                   // Also update the temporary agentProgress state for any UI that uses it directly
                   setAgentProgress(prev => {
-                    const newProgress = [...prev, eventData];
+                    const newProgress = [...prev, progressEvent];
                     return newProgress.slice(-10); // Keep only last 10 progress updates
                   });
+                } else if (eventData.type === "text_delta") {
+                  const delta: string = eventData.delta || "";
+                  if (!streamingMessageId) {
+                    const id = generateMessageId();
+                    streamingMessageId = id;
+                    setMessages(prev => [
+                      ...prev,
+                      {
+                        id,
+                        role: "assistant",
+                        content: delta,
+                        timestamp: new Date().toISOString(),
+                        metadata: { type: "streaming", searchQuery: content },
+                      },
+                    ]);
+                  } else {
+                    const id = streamingMessageId;
+                    setMessages(prev =>
+                      prev.map(msg =>
+                        msg.id === id
+                          ? { ...msg, content: msg.content + delta }
+                          : msg
+                      )
+                    );
+                  }
+                } else if (eventData.type === "text_replace") {
+                  // The server retracted the streamed text
+                  const replacement: string = eventData.message || "";
+                  if (streamingMessageId) {
+                    const id = streamingMessageId;
+                    setMessages(prev =>
+                      prev.map(msg =>
+                        msg.id === id ? { ...msg, content: replacement } : msg
+                      )
+                    );
+                  }
                 } else if (eventData.type === "complete") {
                   finalMessage = eventData.message;
                   finalPartners = eventData.partners || [];
+                  partnerMentions = eventData.partnerMentions || [];
+                  traceId = eventData.traceId;
+                  appliedPreferences =
+                    eventData.executionSummary?.appliedPreferences || [];
+                } else if (eventData.type === "clarification") {
+                  clarificationMessage = {
+                    id: generateMessageId(),
+                    role: "assistant",
+                    content: eventData.message,
+                    timestamp: new Date().toISOString(),
+                    metadata: {
+                      type: "clarification",
+                      searchQuery: content,
+                      clarification: eventData.clarification,
+                      traceId: eventData.traceId,
+                    },
+                  };
+                } else if (eventData.type === "blocked") {
+                  blockedMessage = {
+                    id: generateMessageId(),
+                    role: "assistant",
+                    content: eventData.message,
+                    timestamp: new Date().toISOString(),
+                    metadata: { type: "blocked", searchQuery: content },
+                  };
                 } else if (eventData.type === "error") {
-                  throw new Error(eventData.message);
+                  // Thrown after the loop: here it would be taken for a
+                  // parse error
+                  streamError = eventData.message || "Chat request failed";
                 } else if (eventData.type === "end") {
                   // Stream completed
                   break;
@@ -285,12 +395,38 @@ export function useChat(): UseChatReturn {
           }
         }
 
+        if (streamError) {
+          throw new Error(streamError);
+        }
+
+        if (blockedMessage) {
+          // No search ran: the refusal replaces the analysis progress
+          const refusal = blockedMessage;
+          setMessages(prev => [
+            ...prev.filter(msg => msg.id !== planningMessageId),
+            refusal,
+          ]);
+          setStatus("success");
+          return;
+        }
+
+        if (clarificationMessage) {
+          // No search ran: the question replaces the analysis progress
+          const question = clarificationMessage;
+          setMessages(prev => [
+            ...prev.filter(msg => msg.id !== planningMessageId),
+            question,
+          ]);
+          setStatus("success");
+          return;
+        }
+
         if (!finalMessage) {
           throw new Error("No response received from chat API");
         }
 
         const assistantMessage: ChatMessage = {
-          id: generateMessageId(),
+          id: streamingMessageId || generateMessageId(),
           role: "assistant",
           content: finalMessage,
           timestamp: new Date().toISOString(),
@@ -298,14 +434,36 @@ export function useChat(): UseChatReturn {
             searchQuery: content,
             partnersReturned: finalPartners?.length || 0,
             confidence: 0.9,
+            traceId,
+            appliedPreferences,
+            partnerMentions,
           },
           partners: finalPartners || [],
         };
 
-        setMessages(prev => [...prev, assistantMessage]);
+        // Replace the streamed draft with the final text and attach the cards
+        setMessages(prev =>
+          streamingMessageId
+            ? prev.map(msg =>
+                msg.id === streamingMessageId ? assistantMessage : msg
+              )
+            : [...prev, assistantMessage]
+        );
         setStatus("success");
       } catch (err) {
         if (err instanceof Error && err.name === "AbortError") {
+          // Keep whatever text was streamed before the user stopped it
+          if (streamingMessageId) {
+            const id = streamingMessageId;
+            setMessages(prev =>
+              prev.map(msg =>
+                msg.id === id
+                  ? { ...msg, metadata: { searchQuery: content } }
+                  : msg
+              )
+            );
+          }
+          setStatus("idle");
           return; // Request was cancelled
         }
 
@@ -314,8 +472,10 @@ export function useChat(): UseChatReturn {
         setError(errorMessage);
         setStatus("error");
 
-        // Remove the user message that failed to get a response
-        setMessages(prev => prev.slice(0, -1));
+        // Remove the partial answer and the user message that failed to get a response
+        setMessages(prev =>
+          prev.filter(msg => msg.id !== streamingMessageId).slice(0, -1)
+        );
       } finally {
         setIsTyping(false);
         setIsStreamingResponse(false);
@@ -326,6 +486,11 @@ export function useChat(): UseChatReturn {
     [messages, status, currentSessionId, createNewSession]
   );
 
+  // Closing the SSE connection makes the server cancel the orchestration
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const addMessage = useCallback((message: ChatMessage) => {
     setMessages(prev => [...prev, message]);
   }, []);
@@ -463,6 +628,7 @@ export function useChat(): UseChatReturn {
     clearChat,
     clearMessages,
     retryLastMessage,
+    stopGeneration,
 
     // Session management
     startNewSession,
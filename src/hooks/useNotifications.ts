@@ -0,0 +1,77 @@
+/**
+ * useNotifications Hook
+ * In-app notifications of the signed-in user, polled in the background
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { UserNotification } from "@/types";
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+interface UseNotificationsReturn {
+  notifications: UserNotification[];
+  unreadCount: number;
+  markAsRead: (ids?: string[]) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useNotifications(enabled: boolean): UseNotificationsReturn {
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications");
+      if (!response.ok) {
+        throw new Error(`Notifications request failed: ${response.status}`);
+      }
+      const data = await response.json();
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error("❌ Failed to load notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, refresh]);
+
+  // Without ids marks every notification as read
+  const markAsRead = useCallback(async (ids?: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev =>
+      prev.map(notification =>
+        !notification.readAt && (!ids || ids.includes(notification.id))
+          ? { ...notification, readAt }
+          : notification
+      )
+    );
+    setUnreadCount(prev => (ids ? Math.max(0, prev - ids.length) : 0));
+
+    try {
+      const response = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      if (!response.ok) {
+        throw new Error(`Notifications update failed: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("❌ Failed to mark notifications as read:", error);
+    }
+  }, []);
+
+  return { notifications, unreadCount, markAsRead, refresh };
+}
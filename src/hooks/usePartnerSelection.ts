@@ -6,6 +6,7 @@ export interface PartnersByCategory {
   restaurant: PartnerData[];
   tour: PartnerData[];
   shuttle: PartnerData[];
+  experience: PartnerData[];
 }
 
 export interface SelectionStats {
@@ -15,6 +16,7 @@ export interface SelectionStats {
     restaurant: number;
     tour: number;
     shuttle: number;
+    experience: number;
   };
 }
 
@@ -60,6 +62,7 @@ export function usePartnerSelection(): UsePartnerSelectionReturn {
       restaurant: selectedPartners.filter(p => p.type === "restaurant"),
       tour: selectedPartners.filter(p => p.type === "tour"),
       shuttle: selectedPartners.filter(p => p.type === "shuttle"),
+      experience: selectedPartners.filter(p => p.type === "experience"),
     };
   }, [selectedPartners]);
 
@@ -73,6 +76,7 @@ export function usePartnerSelection(): UsePartnerSelectionReturn {
         restaurant: byCategory.restaurant.length,
         tour: byCategory.tour.length,
         shuttle: byCategory.shuttle.length,
+        experience: byCategory.experience.length,
       },
     };
   }, [selectedPartners.length, selectedPartnersByCategory]);
@@ -0,0 +1,128 @@
+/**
+ * useSavedSearches Hook
+ * Saved traditional searches of the signed-in user (/api/saved-searches)
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { SavedSearch } from "@/types";
+import type { TraditionalSearchFilters } from "./useTraditionalSearch";
+
+interface UseSavedSearchesReturn {
+  savedSearches: SavedSearch[];
+  loading: boolean;
+  error: string | null;
+  saveSearch: (
+    name: string,
+    filters: TraditionalSearchFilters,
+    notify: boolean
+  ) => Promise<SavedSearch>;
+  deleteSearch: (id: string) => Promise<void>;
+  setNotify: (id: string, notify: boolean) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+async function readJson(response: Response) {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(
+      data.error || `Request failed with status ${response.status}`
+    );
+  }
+  return data;
+}
+
+export function useSavedSearches(enabled: boolean): UseSavedSearchesReturn {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await readJson(await fetch("/api/saved-searches"));
+      setSavedSearches(data.savedSearches);
+      setError(null);
+    } catch (err) {
+      console.error("❌ Failed to load saved searches:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Saved searches exist only for signed-in users
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    } else {
+      setSavedSearches([]);
+    }
+  }, [enabled, refresh]);
+
+  const saveSearch = useCallback(
+    async (
+      name: string,
+      filters: TraditionalSearchFilters,
+      notify: boolean
+    ): Promise<SavedSearch> => {
+      const data = await readJson(
+        await fetch("/api/saved-searches", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            name,
+            notify,
+            query: filters.query || "",
+            partnerTypes: filters.partnerTypes,
+            priceRange: filters.priceRange,
+            locations: filters.locations,
+            cuisineTypes: filters.cuisineTypes,
+            tourTypes: filters.tourTypes,
+            serviceTypes: filters.serviceTypes,
+            minRating: filters.minRating,
+            sortBy: filters.sortBy,
+            near: filters.near,
+          }),
+        })
+      );
+
+      setSavedSearches(prev => [data.savedSearch, ...prev]);
+      return data.savedSearch;
+    },
+    []
+  );
+
+  const deleteSearch = useCallback(async (id: string) => {
+    await readJson(
+      await fetch(`/api/saved-searches/${id}`, { method: "DELETE" })
+    );
+    setSavedSearches(prev => prev.filter(search => search.id !== id));
+  }, []);
+
+  const setNotify = useCallback(async (id: string, notify: boolean) => {
+    const data = await readJson(
+      await fetch(`/api/saved-searches/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ notify }),
+      })
+    );
+    setSavedSearches(prev =>
+      prev.map(search => (search.id === id ? data.savedSearch : search))
+    );
+  }, []);
+
+  return {
+    savedSearches,
+    loading,
+    error,
+    saveSearch,
+    deleteSearch,
+    setNotify,
+    refresh,
+  };
+}
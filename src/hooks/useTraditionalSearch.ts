@@ -4,8 +4,11 @@
  * Migrated from client-side Supabase queries for better performance and reliability
  */
 
-import { useState, useCallback } from "react";
-import type { Partner } from "@/types";
+import { useState, useCallback, useRef } from "react";
+import type { Partner, SearchFacets } from "@/types";
+import { SEARCH_CONFIG, SEARCH_FILTER_OPTIONS } from "@/constants";
+
+const PAGE_SIZE = SEARCH_CONFIG.defaultResultsLimit;
 
 export interface TraditionalSearchFilters {
   query: string;
@@ -15,7 +18,30 @@ export interface TraditionalSearchFilters {
   cuisineTypes?: string[]; // for restaurants
   tourTypes?: string[]; // for tours
   serviceTypes?: string[]; // for shuttles
+  minRating?: number;
   sortBy?: string;
+  near?: NearFilter;
+}
+
+// Centre of a radius search: coordinates (browser geolocation) or a place
+export interface NearFilter {
+  lat?: number;
+  lng?: number;
+  place?: string;
+  radiusKm: number;
+}
+
+export interface TraditionalSearchOptions {
+  // Pages to load at once, to restore a page from the URL
+  pages?: number;
+}
+
+interface TraditionalSearchPage {
+  results: Partner[];
+  total: number | null;
+  totalExact: boolean;
+  // Offset of the next page, null on the last one
+  nextOffset: number | null;
 }
 
 interface UseTraditionalSearchReturn {
@@ -23,6 +49,12 @@ interface UseTraditionalSearchReturn {
   results: Partner[];
   loading: boolean;
   total: number;
+  totalExact: boolean;
+
+  // Pagination
+  hasMore: boolean;
+  loadingMore: boolean;
+  pagesLoaded: number;
 
   // Available filter options (loaded from DB)
   availableLocations: string[];
@@ -31,8 +63,15 @@ interface UseTraditionalSearchReturn {
   availableServiceTypes: string[];
   loadingOptions: boolean;
 
+  // Result counts of each filter option, null until loaded
+  facets: SearchFacets | null;
+
   // Actions
-  searchPartners: (filters: TraditionalSearchFilters) => Promise<void>;
+  searchPartners: (
+    filters: TraditionalSearchFilters,
+    options?: TraditionalSearchOptions
+  ) => Promise<void>;
+  loadMore: () => Promise<void>;
   loadFilterOptions: () => Promise<void>;
   clearResults: () => void;
 
@@ -44,8 +83,18 @@ export function useTraditionalSearch(): UseTraditionalSearchReturn {
   const [results, setResults] = useState<Partner[]>([]);
   const [loading, setLoading] = useState(false);
   const [total, setTotal] = useState(0);
+  const [totalExact, setTotalExact] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Pagination state
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pagesLoaded, setPagesLoaded] = useState(0);
+  const lastFiltersRef = useRef<TraditionalSearchFilters | null>(null);
+  const loadingMoreRef = useRef(false);
+  // Responses of superseded searches are discarded
+  const requestIdRef = useRef(0);
+
   // Log hook initialization
   console.log("🎯 useTraditionalSearch hook initialized (API-based)");
 
@@ -59,9 +108,13 @@ export function useTraditionalSearch(): UseTraditionalSearchReturn {
     []
   );
   const [loadingOptions, setLoadingOptions] = useState(false);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
 
   const searchPartners = useCallback(
-    async (filters: TraditionalSearchFilters) => {
+    async (
+      filters: TraditionalSearchFilters,
+      options: TraditionalSearchOptions = {}
+    ) => {
       console.group("🔍 useTraditionalSearch - API-based search");
       console.log("📥 Received filters:", filters);
       console.log("📊 Filter analysis:", {
@@ -70,65 +123,54 @@ export function useTraditionalSearch(): UseTraditionalSearchReturn {
         partnerTypesCount: filters.partnerTypes.length,
         locationsCount: filters.locations.length,
         priceRange: filters.priceRange,
+        pages: options.pages ?? 1,
       });
 
-      // Remove early return to show all partners when no filters
-      console.log("🔍 Proceeding with search (even if no filters to show all)");
+      const requestId = ++requestIdRef.current;
+      lastFiltersRef.current = filters;
+      // A restored page is fetched in a single request, within the server limit
+      const pages = Math.max(
+        1,
+        Math.min(
+          options.pages ?? 1,
+          Math.floor(SEARCH_CONFIG.maxResultsLimit / PAGE_SIZE)
+        )
+      );
 
-      console.log("✅ Making API request to /api/search/traditional");
       setLoading(true);
       setError(null);
 
-      try {
-        const requestBody = {
-          query: filters.query || "",
-          partnerTypes: filters.partnerTypes,
-          priceRange: filters.priceRange as [number, number],
-          locations: filters.locations,
-          cuisineTypes: filters.cuisineTypes,
-          tourTypes: filters.tourTypes,
-          serviceTypes: filters.serviceTypes,
-          sortBy: filters.sortBy || "relevance",
-        };
-
-        console.log("📤 API request payload:", requestBody);
-
-        const response = await fetch("/api/search/traditional", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(requestBody),
+      // Facet counts load next to the results: a failure only hides them
+      fetchSearchFacets(filters)
+        .then(nextFacets => {
+          if (requestId === requestIdRef.current) setFacets(nextFacets);
+        })
+        .catch(err => {
+          console.warn("⚠️ Failed to load facet counts:", err);
+          if (requestId === requestIdRef.current) setFacets(null);
         });
 
-        console.log("📡 API response status:", response.status);
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          console.error("❌ API error response:", errorData);
-          throw new Error(
-            errorData.error ||
-              `API request failed with status ${response.status}`
-          );
-        }
-
-        const data = await response.json();
-        console.log("✅ API response data:", {
-          success: data.success,
-          resultsCount: data.results?.length || 0,
-          total: data.total,
-        });
-
-        if (!data.success) {
-          throw new Error(data.error || "API request failed");
+      try {
+        const page = await fetchSearchPage(filters, 0, pages * PAGE_SIZE);
+        if (requestId !== requestIdRef.current) {
+          console.log("⏭️ Discarding results of a superseded search");
+          console.groupEnd();
+          return;
         }
 
-        console.log("🎯 Final results sample:", data.results?.slice(0, 2));
+        console.log("🎯 Final results sample:", page.results.slice(0, 2));
         console.groupEnd();
 
-        setResults(data.results || []);
-        setTotal(data.total || 0);
+        setResults(page.results);
+        setTotal(page.total ?? page.results.length);
+        setTotalExact(page.totalExact);
+        setNextOffset(page.nextOffset);
+        setPagesLoaded(pages);
       } catch (err) {
+        if (requestId !== requestIdRef.current) {
+          console.groupEnd();
+          return;
+        }
         console.error("❌ Search error:", err);
         console.groupEnd();
         setError(
@@ -136,88 +178,65 @@ export function useTraditionalSearch(): UseTraditionalSearchReturn {
         );
         setResults([]);
         setTotal(0);
+        setNextOffset(null);
+        setPagesLoaded(0);
       } finally {
-        setLoading(false);
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
       }
     },
     []
   );
 
+  const loadMore = useCallback(async () => {
+    const filters = lastFiltersRef.current;
+    if (!filters || nextOffset === null || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    console.log("📄 Loading next page of results");
+
+    try {
+      const page = await fetchSearchPage(filters, nextOffset, PAGE_SIZE);
+      // Filters changed while the page was loading
+      if (requestId !== requestIdRef.current) return;
+
+      setResults(prev => {
+        const seen = new Set(prev.map(partner => partner.id));
+        return [
+          ...prev,
+          ...page.results.filter(partner => !seen.has(partner.id)),
+        ];
+      });
+      setNextOffset(page.nextOffset);
+      setPagesLoaded(prev => prev + 1);
+    } catch (err) {
+      console.error("❌ Load more error:", err);
+      if (requestId === requestIdRef.current) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load more partners"
+        );
+        // Stop the infinite scroll from retrying in a loop
+        setNextOffset(null);
+      }
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [nextOffset]);
+
   const loadFilterOptions = useCallback(async () => {
     console.log("📋 Loading filter options...");
     setLoadingOptions(true);
 
     try {
-      // Per ora usiamo opzioni hardcoded. In futuro si può creare un'API specifica
-      // TODO: Creare /api/search/filter-options per caricare dinamicamente le opzioni
-
-      const mockLocations = [
-        "Roma",
-        "Milano",
-        "Venezia",
-        "Firenze",
-        "Napoli",
-        "Torino",
-        "Bologna",
-        "Palermo",
-        "Genova",
-        "Verona",
-        "Padova",
-        "Trieste",
-        "Brescia",
-        "Modena",
-        "Parma",
-        "Reggio Emilia",
-        "Perugia",
-        "Livorno",
-      ];
-
-      const mockCuisineTypes = [
-        "Italiana",
-        "Mediterranea",
-        "Romana",
-        "Toscana",
-        "Siciliana",
-        "Napoletana",
-        "Vegetariana",
-        "Vegana",
-        "Pesce",
-        "Pizza",
-        "Internazionale",
-        "Fusion",
-        "Gourmet",
-        "Tradizionale",
-      ];
-
-      const mockTourTypes = [
-        "Culturale",
-        "Storico",
-        "Artistico",
-        "Gastronomico",
-        "Avventura",
-        "Naturalistico",
-        "Archeologico",
-        "Religioso",
-        "Enologico",
-        "Fotografico",
-      ];
-
-      const mockServiceTypes = [
-        "Aeroporto",
-        "Stazione",
-        "Hotel",
-        "Privato",
-        "Condiviso",
-        "Lusso",
-        "Economico",
-        "Navetta",
-        "Transfer",
-      ];
-
-      setAvailableLocations(mockLocations);
-      setAvailableCuisineTypes(mockCuisineTypes);
-      setAvailableTourTypes(mockTourTypes);
-      setAvailableServiceTypes(mockServiceTypes);
+      // Static options: /api/search/facets counts the results of each one
+      setAvailableLocations(SEARCH_FILTER_OPTIONS.locations);
+      setAvailableCuisineTypes(SEARCH_FILTER_OPTIONS.cuisineTypes);
+      setAvailableTourTypes(SEARCH_FILTER_OPTIONS.tourTypes);
+      setAvailableServiceTypes(SEARCH_FILTER_OPTIONS.serviceTypes);
 
       console.log("✅ Filter options loaded successfully");
     } catch (err) {
@@ -228,8 +247,13 @@ export function useTraditionalSearch(): UseTraditionalSearchReturn {
   }, []);
 
   const clearResults = useCallback(() => {
+    requestIdRef.current += 1;
+    lastFiltersRef.current = null;
     setResults([]);
     setTotal(0);
+    setNextOffset(null);
+    setPagesLoaded(0);
+    setFacets(null);
     setError(null);
   }, []);
 
@@ -237,14 +261,107 @@ export function useTraditionalSearch(): UseTraditionalSearchReturn {
     results,
     loading,
     total,
+    totalExact,
+    hasMore: nextOffset !== null,
+    loadingMore,
+    pagesLoaded,
     availableLocations,
     availableCuisineTypes,
     availableTourTypes,
     availableServiceTypes,
     loadingOptions,
+    facets,
     searchPartners,
+    loadMore,
     loadFilterOptions,
     clearResults,
     error,
   };
 }
+
+function toFiltersPayload(filters: TraditionalSearchFilters) {
+  return {
+    query: filters.query || "",
+    partnerTypes: filters.partnerTypes,
+    priceRange: filters.priceRange as [number, number],
+    locations: filters.locations,
+    cuisineTypes: filters.cuisineTypes,
+    tourTypes: filters.tourTypes,
+    serviceTypes: filters.serviceTypes,
+    minRating: filters.minRating,
+    near: filters.near,
+  };
+}
+
+async function fetchSearchFacets(
+  filters: TraditionalSearchFilters
+): Promise<SearchFacets> {
+  const response = await fetch("/api/search/facets", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(toFiltersPayload(filters)),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(
+      data.error || `Facets request failed with status ${response.status}`
+    );
+  }
+
+  return data.facets;
+}
+
+async function fetchSearchPage(
+  filters: TraditionalSearchFilters,
+  offset: number,
+  limit: number
+): Promise<TraditionalSearchPage> {
+  const requestBody = {
+    ...toFiltersPayload(filters),
+    sortBy: filters.sortBy || "relevance",
+    limit,
+    offset,
+  };
+
+  console.log("📤 API request payload:", requestBody);
+
+  const response = await fetch("/api/search/traditional", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  console.log("📡 API response status:", response.status);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error("❌ API error response:", errorData);
+    throw new Error(
+      errorData.error || `API request failed with status ${response.status}`
+    );
+  }
+
+  const data = await response.json();
+  console.log("✅ API response data:", {
+    success: data.success,
+    resultsCount: data.results?.length || 0,
+    total: data.total,
+    hasMore: data.hasMore,
+  });
+
+  if (!data.success) {
+    throw new Error(data.error || "API request failed");
+  }
+
+  return {
+    results: data.results || [],
+    total: typeof data.total === "number" ? data.total : null,
+    totalExact: data.totalExact !== false,
+    nextOffset: typeof data.nextOffset === "number" ? data.nextOffset : null,
+  };
+}
@@ -1,5 +1,11 @@
 import { Agent, run } from "@openai/agents";
 import { runAgentOrchestration } from "./agents/orchestrator";
+import { recordAgentRunUsage } from "./llm-usage";
+import { getModelForRole } from "./models";
+import { LANGUAGE_NAMES, resolveLanguage } from "./agents/language";
+import { UNTRUSTED_DATA_NOTICE, checkAgentOutput } from "./agents/guardrails";
+import { verifyPartnerMentions } from "./agents/grounding";
+import type { Locale } from "@/types";
 
 interface ChatContext {
   messages: Array<{
@@ -11,11 +17,13 @@ interface ChatContext {
     interests?: string[];
     travelStyle?: string;
   };
+  // Reply language, detected from the last message when missing
+  language?: Locale;
 }
 
 export const chatAgent = new Agent({
   name: "Via Nexo Travel Orchestrator",
-  model: "gpt-5-mini",
+  model: getModelForRole("chat_agent"),
   instructions: `
     You are Via Nexo's intelligent travel orchestrator, coordinating specialized agents to provide comprehensive travel recommendations from our affiliated partner network.
 
@@ -24,7 +32,7 @@ export const chatAgent = new Agent({
     1. Understand and contextualize user travel needs
     2. Provide conversational responses based on agent findings
     3. Synthesize recommendations across different travel services
-    4. Only mention partners that were actually found by the specialized agents
+    4. Only mention partners that were actually found by the specialized agents, using their exact names (answers naming other venues are corrected before they reach the user)
     5. Never invent or suggest non-affiliated options
     </core_rules>
 
@@ -77,7 +85,7 @@ export const chatAgent = new Agent({
     
     <response_formatting>
     Structure and Tone:
-    - Warm, conversational Italian with appropriate formality for context
+    - Warm, conversational tone in the user's language (Italian unless the request states otherwise) with appropriate formality for context
     - Strategic emoji use for visual appeal (🏨 🍽️ 🗺️ 🚐) but not excessive
     - Clear section headers for partner categories when multiple types found
     - Focus on experiential context rather than feature lists (cards provide details)
@@ -128,13 +136,16 @@ export async function chatWithAgent(context: ChatContext) {
     const lastMessage =
       context.messages[context.messages.length - 1]?.content || "";
     const conversationHistory = context.messages.slice(-5); // Last 5 messages for context
+    const language = context.language ?? resolveLanguage(lastMessage);
 
     console.log("[CHAT_AGENT] Starting orchestrated search for:", lastMessage);
 
     // Use the new orchestration system
     const orchestrationResult = await runAgentOrchestration(
       lastMessage,
-      conversationHistory
+      conversationHistory,
+      undefined,
+      { language }
     );
 
     console.log(
@@ -159,6 +170,8 @@ Conversation Context: ${conversationHistory.map(m => `${m.role}: ${m.content}`).
 
 Create an engaging, contextual response that synthesizes these findings into a compelling travel narrative.
 The partners will be displayed automatically in UI cards, so focus on experiential context and why these partners fit the user's scenario.
+Respond in ${LANGUAGE_NAMES[language]}.
+${UNTRUSTED_DATA_NOTICE}
     `.trim();
 
     const response = await run(chatAgent, contextualPrompt, {
@@ -168,10 +181,22 @@ The partners will be displayed automatically in UI cards, so focus on experienti
         orchestrationResults: orchestrationResult,
       },
     });
+    recordAgentRunUsage(chatAgent, "chat_response", response.rawResponses);
+
+    // A leaked or hijacked answer is replaced by the aggregated summary
+    const answer = response.finalOutput || orchestrationResult.message;
+    // Venues the agents never found are dropped from the answer
+    const { searchLocation } = orchestrationResult.executionSummary;
+    const grounding = verifyPartnerMentions(
+      checkAgentOutput(answer).allowed ? answer : orchestrationResult.message,
+      orchestrationResult.partners,
+      searchLocation ? [searchLocation] : []
+    );
 
     return {
       success: true,
-      message: response.finalOutput || orchestrationResult.message,
+      message: grounding.message || orchestrationResult.message,
+      partnerMentions: grounding.mentions,
       partners: orchestrationResult.partners,
       toolCalls: [], // Orchestrator doesn't use direct tool calls
       orchestration: orchestrationResult,
@@ -1,15 +1,135 @@
-import { tool } from "@openai/agents";
+import { tool, type RunContext } from "@openai/agents";
 import { z } from "zod";
 import { supabase } from "../supabase-server";
+import { hybridSearch } from "../hybrid-search";
+import { toViewPartnerType } from "../search-filters";
 import { generateEmbeddings } from "../openai";
 import { rapidApiBookingService } from "../rapidapi-booking";
 import { extractDatesFromQuery } from "../date-extraction";
+import { constrainToAnchor, type LocationAnchor } from "./location-anchor";
+import {
+  buildToolPartnerResult,
+  type ToolResultCollector,
+} from "./tool-result";
+import type { TravelPreferences } from "./user-preferences";
+import { DEFAULT_LOCALE } from "./language";
+import { getAgentMessages } from "./messages";
 import type {
+  AppliedPreference,
   HotelAvailability,
   AvailabilityDate,
   HotelDetails,
+  Locale,
 } from "../../types";
 
+/**
+ * Contesto condiviso passato a run() dall'orchestratore
+ */
+export interface AgentRunContext {
+  signal?: AbortSignal;
+  /** Hotel di riferimento: limita le ricerche dipendenti a un raggio */
+  anchor?: LocationAnchor;
+  /** Risultati validati dei tool, letti dall'orchestratore a fine run */
+  toolResults?: ToolResultCollector;
+  /** Preferenze del profilo usate come filtri quando il modello non li indica */
+  preferences?: TravelPreferences;
+  /** Preferenze effettivamente applicate dai tool, per spiegarle all'utente */
+  appliedPreferences?: AppliedPreference[];
+  /** Lingua dell'utente, per le descrizioni delle preferenze applicate */
+  language?: Locale;
+}
+
+/**
+ * Testi delle preferenze applicate nella lingua dell'utente
+ */
+function preferenceMessages(runContext?: RunContext<AgentRunContext>) {
+  return getAgentMessages(runContext?.context?.language ?? DEFAULT_LOCALE)
+    .preferences;
+}
+
+/**
+ * Id dei partner di un tipo entro il raggio dell'ancora: filtrano la query
+ * sulla tabella del tipo prima del limite, così l'ordinamento non lascia
+ * fuori i locali vicini
+ */
+async function partnerIdsNearAnchor(
+  partnerType: "restaurant" | "tour" | "experience" | "shuttle",
+  anchor: LocationAnchor
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .rpc("partners_near", {
+      center_lat: anchor.coordinates.lat,
+      center_lng: anchor.coordinates.lng,
+      radius_km: anchor.radiusKm,
+    })
+    .eq("type", toViewPartnerType(partnerType))
+    .select("id");
+  if (error) {
+    throw new Error(`Anchor radius lookup failed: ${error.message}`);
+  }
+  return (data || []).map((row: { id: string }) => row.id);
+}
+
+/**
+ * Ricerca semantica di un tipo con la classifica ibrida (full-text e
+ * vettoriale): tipo e raggio dell'ancora sono filtrati dall'RPC prima del
+ * limite. Le righe complete, con i campi specifici per l'agente, arrivano
+ * dalla tabella del tipo nell'ordine della classifica.
+ */
+async function hybridTypeSearch({
+  partnerType,
+  table,
+  query,
+  semanticQuery,
+  limit,
+  threshold,
+  anchor,
+}: {
+  partnerType: "hotel" | "restaurant" | "tour" | "shuttle";
+  table: string;
+  query: string;
+  semanticQuery: string;
+  limit: number;
+  threshold: number;
+  anchor?: LocationAnchor;
+}): Promise<Record<string, unknown>[]> {
+  const ranked = await hybridSearch({
+    query,
+    semanticQuery,
+    partnerTypes: [partnerType],
+    near: anchor
+      ? { center: anchor.coordinates, radiusKm: anchor.radiusKm }
+      : undefined,
+    limit,
+    threshold,
+  });
+  if (ranked.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .in(
+      "id",
+      ranked.map(partner => partner.id)
+    );
+  if (error) {
+    throw new Error(`${table} lookup failed: ${error.message}`);
+  }
+
+  const rowsById = new Map(
+    (data || []).map((row: Record<string, unknown>) => [String(row.id), row])
+  );
+  return ranked.flatMap(partner => {
+    const row = rowsById.get(partner.id);
+    if (!row) return [];
+    // L'embedding non serve all'agente e ne riempirebbe il contesto
+    const fields = Object.fromEntries(
+      Object.entries(row).filter(([key]) => key !== "vector_embedding")
+    );
+    return [{ ...fields, similarity: partner.similarity ?? undefined }];
+  });
+}
+
 // ===== HOTEL TOOLS =====
 
 export const hotelSearchTool = tool({
@@ -37,27 +157,35 @@ export const hotelSearchTool = tool({
       .describe("Specific amenities required"),
     limit: z.number().default(10).describe("Maximum results to return"),
   }),
-  execute: async ({
-    query,
-    location,
-    starRating,
-    priceRange,
-    amenities,
-    limit = 10,
-  }: {
-    query: string;
-    location: string | null;
-    starRating: number | null;
-    priceRange: number | null;
-    amenities: string[] | null;
-    limit?: number;
-  }) => {
-    console.log(`[HOTEL_SEARCH] Called with:`, {
+  execute: async (
+    {
       query,
       location,
       starRating,
       priceRange,
       amenities,
+      limit = 10,
+    }: {
+      query: string;
+      location: string | null;
+      starRating: number | null;
+      priceRange: number | null;
+      amenities: string[] | null;
+      limit?: number;
+    },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const preferences = runContext?.context?.preferences;
+
+    // Budget del profilo come fascia di prezzo predefinita
+    const maxPriceRange = priceRange || preferences?.budgetRange || null;
+
+    console.log(`[HOTEL_SEARCH] Called with:`, {
+      query,
+      location,
+      starRating,
+      priceRange: maxPriceRange,
+      amenities,
       limit,
     });
     try {
@@ -87,8 +215,8 @@ export const hotelSearchTool = tool({
         dbQuery = dbQuery.gte("star_rating", starRating);
       }
 
-      if (priceRange) {
-        dbQuery = dbQuery.lte("price_range", priceRange);
+      if (maxPriceRange) {
+        dbQuery = dbQuery.lte("price_range", maxPriceRange);
       }
 
       // Order by relevance: featured first, then by rating and booking count
@@ -124,22 +252,48 @@ export const hotelSearchTool = tool({
         });
       }
 
+      // Il budget del profilo ha filtrato risultati effettivamente restituiti
+      if (!priceRange && maxPriceRange && results.length > 0) {
+        runContext?.context?.appliedPreferences?.push({
+          preference: "budgetRange",
+          partnerType: "hotel",
+          value: maxPriceRange,
+          description:
+            preferenceMessages(runContext).budgetRange(maxPriceRange),
+        });
+      }
+
       console.log(`[HOTEL_SEARCH] Final results:`, {
         count: results.length,
         sampleName: results[0]?.name,
       });
-      return {
-        success: true,
-        data: results,
-        message: `Found ${results.length} hotels matching your criteria`,
-        searchContext: { query, location, starRating, priceRange, amenities },
-      };
+      return buildToolPartnerResult(
+        "search_hotels",
+        "hotel",
+        {
+          success: true,
+          rows: results,
+          message: `Found ${results.length} hotels matching your criteria`,
+          searchContext: {
+            query,
+            location,
+            starRating,
+            priceRange: maxPriceRange,
+            amenities,
+          },
+        },
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Hotel search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "search_hotels",
+        "hotel",
+        {
+          success: false,
+          error: error instanceof Error ? error.message : "Hotel search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -154,54 +308,53 @@ export const hotelVectorSearchTool = tool({
     limit: z.number().default(8).describe("Maximum results"),
     threshold: z.number().default(0.3).describe("Similarity threshold"),
   }),
-  execute: async ({ query, limit = 8, threshold = 0.3 }) => {
+  execute: async (
+    { query, limit = 8, threshold = 0.3 },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
     console.log(`[HOTEL_VECTOR_SEARCH] Called with:`, {
       query,
       limit,
       threshold,
     });
     try {
-      const queryEmbedding = await generateEmbeddings(`hotel ${query}`);
-      console.log(
-        `[HOTEL_VECTOR_SEARCH] Generated embedding length:`,
-        queryEmbedding.length
-      );
-
-      const { data, error } = await supabase.rpc("match_hotels", {
-        query_embedding: queryEmbedding,
-        match_threshold: threshold,
-        match_count: limit,
-      });
-
-      console.log(`[HOTEL_VECTOR_SEARCH] RPC result:`, {
-        dataCount: data?.length,
-        error: error?.message,
+      const data = await hybridTypeSearch({
+        partnerType: "hotel",
+        table: "hotels",
+        query,
+        semanticQuery: `hotel ${query}`,
+        limit,
+        threshold,
       });
 
-      if (error) {
-        console.error(`[HOTEL_VECTOR_SEARCH] RPC error:`, error);
-        throw new Error(`Hotel vector search failed: ${error.message}`);
-      }
-
       console.log(`[HOTEL_VECTOR_SEARCH] Final results:`, {
-        count: (data || []).length,
-        sampleName: data?.[0]?.name,
+        count: data.length,
+        sampleName: data[0]?.name,
       });
-      return {
-        success: true,
-        data: data || [],
-        message: `Found ${(data || []).length} hotels through semantic search`,
-        searchContext: { query, threshold },
-      };
+      return buildToolPartnerResult(
+        "hotel_semantic_search",
+        "hotel",
+        {
+          success: true,
+          rows: data,
+          message: `Found ${data.length} hotels through semantic search`,
+          searchContext: { query, threshold },
+        },
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Hotel semantic search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "hotel_semantic_search",
+        "hotel",
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Hotel semantic search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -237,27 +390,41 @@ export const rapidApiHotelSearchTool = tool({
     currency: z.string().default("EUR").describe("Currency for pricing"),
     limit: z.number().default(10).describe("Maximum results to return"),
   }),
-  execute: async ({
-    query,
-    location,
-    checkinDate = null,
-    checkoutDate = null,
-    adults = 2,
-    rooms = 1,
-    children = 0,
-    currency = "EUR",
-    limit = 10,
-  }: {
-    query: string;
-    location: string;
-    checkinDate?: string | null;
-    checkoutDate?: string | null;
-    adults?: number;
-    rooms?: number;
-    children?: number;
-    currency?: string;
-    limit?: number;
-  }) => {
+  execute: async (
+    {
+      query,
+      location,
+      checkinDate = null,
+      checkoutDate = null,
+      adults = 2,
+      rooms = 1,
+      children = 0,
+      currency = "EUR",
+      limit = 10,
+    }: {
+      query: string;
+      location: string;
+      checkinDate?: string | null;
+      checkoutDate?: string | null;
+      adults?: number;
+      rooms?: number;
+      children?: number;
+      currency?: string;
+      limit?: number;
+    },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const signal = runContext?.context?.signal;
+    const preferredCurrency =
+      runContext?.context?.preferences?.preferredCurrency;
+
+    // Valuta del profilo al posto di quella predefinita
+    const usesProfileCurrency =
+      currency === "EUR" && !!preferredCurrency && preferredCurrency !== "EUR";
+    if (usesProfileCurrency) {
+      currency = preferredCurrency;
+    }
+
     console.log(`[RAPIDAPI_HOTEL_SEARCH] Called with:`, {
       query,
       location,
@@ -322,8 +489,10 @@ export const rapidApiHotelSearchTool = tool({
         currency,
       };
 
-      const apiResponse =
-        await rapidApiBookingService.searchHotels(searchParams);
+      const apiResponse = await rapidApiBookingService.searchHotels(
+        searchParams,
+        signal
+      );
 
       console.log(`[RAPIDAPI_HOTEL_SEARCH] API Response:`, {
         success: apiResponse.success,
@@ -332,13 +501,17 @@ export const rapidApiHotelSearchTool = tool({
       });
 
       if (!apiResponse.success) {
-        return {
-          success: false,
-          error: apiResponse.error || "Hotel search failed",
-          data: [],
-          message: `Hotel search failed for ${location}. Please try a different location or check your dates.`,
-          searchContext: { query, location },
-        };
+        return buildToolPartnerResult(
+          "search_hotels_rapidapi",
+          "hotel",
+          {
+            success: false,
+            error: apiResponse.error || "Hotel search failed",
+            message: `Hotel search failed for ${location}. Please try a different location or check your dates.`,
+            searchContext: { query, location },
+          },
+          runContext?.context?.toolResults
+        );
       }
 
       // Limit results before availability checking to reduce API calls
@@ -359,7 +532,8 @@ export const rapidApiHotelSearchTool = tool({
                 hotel.id,
                 finalCheckinDate,
                 finalCheckoutDate,
-                currency
+                currency,
+                signal
               );
 
             return {
@@ -397,7 +571,8 @@ export const rapidApiHotelSearchTool = tool({
                 extractedGuests,
                 extractedRooms,
                 children,
-                currency
+                currency,
+                signal
               );
 
               return {
@@ -562,50 +737,69 @@ export const rapidApiHotelSearchTool = tool({
         },
       }));
 
+      if (usesProfileCurrency && transformedResults.length > 0) {
+        runContext?.context?.appliedPreferences?.push({
+          preference: "preferredCurrency",
+          partnerType: "hotel",
+          value: currency,
+          description:
+            preferenceMessages(runContext).preferredCurrency(currency),
+        });
+      }
+
       const finalMessage =
         finalCheckinDate && finalCheckoutDate
           ? `Found ${transformedResults.length} available hotels in ${location} for ${finalCheckinDate} to ${finalCheckoutDate}`
           : `Found ${transformedResults.length} hotels in ${location} (availability not verified - please provide specific dates)`;
 
-      return {
-        success: true,
-        data: transformedResults,
-        message: finalMessage,
-        searchContext: {
-          query,
-          location,
-          checkinDate: finalCheckinDate,
-          checkoutDate: finalCheckoutDate,
-          adults: extractedGuests,
-          rooms: extractedRooms,
-          children,
-          currency,
-          source: "rapidapi_booking",
-          availability_verified: !!(finalCheckinDate && finalCheckoutDate),
-        },
-        metadata: {
-          total_found: apiResponse.total_results,
-          total_available: transformedResults.length,
-          date_extraction_used: !checkinDate || !checkoutDate,
-          filtered_by_availability:
-            finalCheckinDate && finalCheckoutDate
-              ? limitedResults.length - availableHotels.length
-              : 0,
+      return buildToolPartnerResult(
+        "search_hotels_rapidapi",
+        "hotel",
+        {
+          success: true,
+          rows: transformedResults,
+          message: finalMessage,
+          searchContext: {
+            query,
+            location,
+            checkinDate: finalCheckinDate,
+            checkoutDate: finalCheckoutDate,
+            adults: extractedGuests,
+            rooms: extractedRooms,
+            children,
+            currency,
+            source: "rapidapi_booking",
+            availability_verified: !!(finalCheckinDate && finalCheckoutDate),
+          },
+          metadata: {
+            total_found: apiResponse.total_results,
+            total_available: transformedResults.length,
+            date_extraction_used: !checkinDate || !checkoutDate,
+            filtered_by_availability:
+              finalCheckinDate && finalCheckoutDate
+                ? limitedResults.length - availableHotels.length
+                : 0,
+          },
         },
-      };
+        runContext?.context?.toolResults
+      );
     } catch (error) {
       console.error(`[RAPIDAPI_HOTEL_SEARCH] Search failed:`, error);
 
-      return {
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "RapidAPI hotel search failed",
-        data: [],
-        message: `Hotel search failed for ${location}. Please try a different location or check your dates.`,
-        searchContext: { query, location },
-      };
+      return buildToolPartnerResult(
+        "search_hotels_rapidapi",
+        "hotel",
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "RapidAPI hotel search failed",
+          message: `Hotel search failed for ${location}. Please try a different location or check your dates.`,
+          searchContext: { query, location },
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -637,29 +831,46 @@ export const restaurantSearchTool = tool({
       .describe("Dietary requirements"),
     limit: z.number().default(10).describe("Maximum results"),
   }),
-  execute: async ({
-    query,
-    location,
-    cuisineType,
-    priceRange,
-    michelinStars,
-    dietaryOptions,
-    limit = 10,
-  }: {
-    query: string;
-    location: string | null;
-    cuisineType: string | null;
-    priceRange: number | null;
-    michelinStars: number | null;
-    dietaryOptions: string[] | null;
-    limit?: number;
-  }) => {
+  execute: async (
+    {
+      query,
+      location,
+      cuisineType,
+      priceRange,
+      michelinStars,
+      dietaryOptions,
+      limit = 10,
+    }: {
+      query: string;
+      location: string | null;
+      cuisineType: string | null;
+      priceRange: number | null;
+      michelinStars: number | null;
+      dietaryOptions: string[] | null;
+      limit?: number;
+    },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
+    const dietaryRestrictions =
+      runContext?.context?.preferences?.dietaryRestrictions ?? [];
+
+    // Restrizioni alimentari del profilo come filtro predefinito
+    const requiredDietaryOptions =
+      dietaryOptions && dietaryOptions.length > 0
+        ? dietaryOptions
+        : dietaryRestrictions;
+    const usesProfileDiet =
+      requiredDietaryOptions !== dietaryOptions &&
+      dietaryRestrictions.length > 0;
+
     console.log(`[RESTAURANT_SEARCH] Called with:`, {
       query,
       location,
       cuisineType,
       priceRange,
       michelinStars,
+      dietaryOptions: requiredDietaryOptions,
       limit,
     });
     try {
@@ -695,6 +906,19 @@ export const restaurantSearchTool = tool({
         dbQuery = dbQuery.gte("michelin_stars", michelinStars);
       }
 
+      // Tutte le opzioni richieste, prima del limite
+      if (requiredDietaryOptions.length > 0) {
+        dbQuery = dbQuery.contains("dietary_options", requiredDietaryOptions);
+      }
+
+      // Raggio dell'ancora applicato prima del limite
+      if (anchor) {
+        dbQuery = dbQuery.in(
+          "id",
+          await partnerIdsNearAnchor("restaurant", anchor)
+        );
+      }
+
       dbQuery = dbQuery
         .order("is_featured", { ascending: false })
         .order("michelin_stars", { ascending: false })
@@ -712,44 +936,62 @@ export const restaurantSearchTool = tool({
         throw new Error(`Restaurant search failed: ${error.message}`);
       }
 
-      let results = data || [];
-
-      // Filter by dietary options if specified
-      if (dietaryOptions && dietaryOptions.length > 0) {
-        results = results.filter((restaurant: unknown) => {
-          const restaurantObj = restaurant as { dietary_options?: string[] };
-          const restaurantOptions = restaurantObj.dietary_options || [];
-          return dietaryOptions.some(option =>
-            restaurantOptions.some((ro: string) =>
-              ro.toLowerCase().includes(option.toLowerCase())
-            )
-          );
+      const results = data || [];
+
+      // Keep only restaurants within walking distance of the anchor hotel
+      const finalResults = anchor
+        ? constrainToAnchor(results, anchor, limit)
+        : results;
+
+      // Il profilo ha filtrato risultati effettivamente restituiti
+      if (usesProfileDiet && finalResults.length > 0) {
+        runContext?.context?.appliedPreferences?.push({
+          preference: "dietaryRestrictions",
+          partnerType: "restaurant",
+          value: dietaryRestrictions,
+          description: preferenceMessages(runContext).dietaryRestrictions(
+            dietaryRestrictions.join(", ")
+          ),
         });
       }
 
       console.log(`[RESTAURANT_SEARCH] Final results:`, {
-        count: results.length,
-        sampleName: results[0]?.name,
+        count: finalResults.length,
+        sampleName: finalResults[0]?.name,
+        anchor: anchor?.name,
       });
-      return {
-        success: true,
-        data: results,
-        message: `Found ${results.length} restaurants matching your criteria`,
-        searchContext: {
-          query,
-          location,
-          cuisineType,
-          priceRange,
-          michelinStars,
+      return buildToolPartnerResult(
+        "search_restaurants",
+        "restaurant",
+        {
+          success: true,
+          rows: finalResults,
+          message: anchor
+            ? `Found ${finalResults.length} restaurants within ${anchor.radiusKm} km of ${anchor.name}`
+            : `Found ${finalResults.length} restaurants matching your criteria`,
+          searchContext: {
+            query,
+            location,
+            cuisineType,
+            priceRange,
+            michelinStars,
+            dietaryOptions: requiredDietaryOptions,
+            anchor: anchor?.name,
+          },
         },
-      };
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error:
-          error instanceof Error ? error.message : "Restaurant search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "search_restaurants",
+        "restaurant",
+        {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Restaurant search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -764,35 +1006,66 @@ export const restaurantVectorSearchTool = tool({
     limit: z.number().default(8).describe("Maximum results"),
     threshold: z.number().default(0.3).describe("Similarity threshold"),
   }),
-  execute: async ({ query, limit = 8, threshold = 0.3 }) => {
+  execute: async (
+    { query, limit = 8, threshold = 0.3 },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
+    const dietaryRestrictions =
+      runContext?.context?.preferences?.dietaryRestrictions ?? [];
     try {
-      const queryEmbedding = await generateEmbeddings(`restaurant ${query}`);
-
-      const { data, error } = await supabase.rpc("match_restaurants", {
-        query_embedding: queryEmbedding,
-        match_threshold: threshold,
-        match_count: limit,
+      // Le restrizioni alimentari orientano la ricerca semantica
+      const data = await hybridTypeSearch({
+        partnerType: "restaurant",
+        table: "restaurants",
+        query,
+        semanticQuery:
+          dietaryRestrictions.length > 0
+            ? `restaurant ${query} ${dietaryRestrictions.join(" ")}`
+            : `restaurant ${query}`,
+        limit,
+        threshold,
+        anchor,
       });
 
-      if (error) {
-        throw new Error(`Restaurant vector search failed: ${error.message}`);
+      const results = anchor ? constrainToAnchor(data, anchor, limit) : data;
+      if (dietaryRestrictions.length > 0 && results.length > 0) {
+        runContext?.context?.appliedPreferences?.push({
+          preference: "dietaryRestrictions",
+          partnerType: "restaurant",
+          value: dietaryRestrictions,
+          description: preferenceMessages(runContext).dietaryRestrictions(
+            dietaryRestrictions.join(", ")
+          ),
+        });
       }
 
-      return {
-        success: true,
-        data: data || [],
-        message: `Found ${(data || []).length} restaurants through semantic search`,
-        searchContext: { query, threshold },
-      };
+      return buildToolPartnerResult(
+        "restaurant_semantic_search",
+        "restaurant",
+        {
+          success: true,
+          rows: results,
+          message: anchor
+            ? `Found ${results.length} restaurants through semantic search near ${anchor.name}`
+            : `Found ${results.length} restaurants through semantic search`,
+          searchContext: { query, threshold, anchor: anchor?.name },
+        },
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Restaurant semantic search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "restaurant_semantic_search",
+        "restaurant",
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Restaurant semantic search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -819,23 +1092,27 @@ export const tourSearchTool = tool({
     maxParticipants: z.number().nullable().describe("Maximum group size"),
     limit: z.number().default(10).describe("Maximum results"),
   }),
-  execute: async ({
-    query,
-    location,
-    tourType,
-    difficultyLevel,
-    duration,
-    maxParticipants,
-    limit = 10,
-  }: {
-    query: string;
-    location: string | null;
-    tourType: string | null;
-    difficultyLevel: number | null;
-    duration: string | null;
-    maxParticipants: number | null;
-    limit?: number;
-  }) => {
+  execute: async (
+    {
+      query,
+      location,
+      tourType,
+      difficultyLevel,
+      duration,
+      maxParticipants,
+      limit = 10,
+    }: {
+      query: string;
+      location: string | null;
+      tourType: string | null;
+      difficultyLevel: number | null;
+      duration: string | null;
+      maxParticipants: number | null;
+      limit?: number;
+    },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
     console.log(`[TOUR_SEARCH] Called with:`, {
       query,
       location,
@@ -849,7 +1126,7 @@ export const tourSearchTool = tool({
         .select(
           `
           id, name, description, tour_type, location, starting_point, city, country,
-          duration_hours, duration_days, max_participants, min_participants,
+          coordinates, duration_hours, duration_days, max_participants, min_participants,
           difficulty_level, age_requirement, fitness_level, price_adult, price_child,
           schedule_type, available_days, includes, excludes, requirements,
           phone, email, website, booking_url, primary_image_url, gallery_urls, 
@@ -878,6 +1155,11 @@ export const tourSearchTool = tool({
         dbQuery = dbQuery.gte("max_participants", maxParticipants);
       }
 
+      // Raggio dell'ancora applicato prima del limite
+      if (anchor) {
+        dbQuery = dbQuery.in("id", await partnerIdsNearAnchor("tour", anchor));
+      }
+
       dbQuery = dbQuery
         .order("is_featured", { ascending: false })
         .order("booking_count", { ascending: false })
@@ -894,22 +1176,46 @@ export const tourSearchTool = tool({
         throw new Error(`Tour search failed: ${error.message}`);
       }
 
+      // Keep only tours starting near the anchor hotel
+      const results = anchor
+        ? constrainToAnchor(data || [], anchor, limit)
+        : data || [];
+
       console.log(`[TOUR_SEARCH] Final results:`, {
-        count: (data || []).length,
-        sampleName: data?.[0]?.name,
+        count: results.length,
+        sampleName: results[0]?.name,
+        anchor: anchor?.name,
       });
-      return {
-        success: true,
-        data: data || [],
-        message: `Found ${(data || []).length} tours matching your criteria`,
-        searchContext: { query, location, tourType, difficultyLevel, duration },
-      };
+      return buildToolPartnerResult(
+        "search_tours",
+        "tour",
+        {
+          success: true,
+          rows: results,
+          message: anchor
+            ? `Found ${results.length} tours within ${anchor.radiusKm} km of ${anchor.name}`
+            : `Found ${results.length} tours matching your criteria`,
+          searchContext: {
+            query,
+            location,
+            tourType,
+            difficultyLevel,
+            duration,
+            anchor: anchor?.name,
+          },
+        },
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Tour search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "search_tours",
+        "tour",
+        {
+          success: false,
+          error: error instanceof Error ? error.message : "Tour search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -924,35 +1230,285 @@ export const tourVectorSearchTool = tool({
     limit: z.number().default(8).describe("Maximum results"),
     threshold: z.number().default(0.3).describe("Similarity threshold"),
   }),
-  execute: async ({ query, limit = 8, threshold = 0.3 }) => {
+  execute: async (
+    { query, limit = 8, threshold = 0.3 },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
+    try {
+      const data = await hybridTypeSearch({
+        partnerType: "tour",
+        table: "tours",
+        query,
+        semanticQuery: `tour ${query}`,
+        limit,
+        threshold,
+        anchor,
+      });
+
+      const results = anchor ? constrainToAnchor(data, anchor, limit) : data;
+
+      return buildToolPartnerResult(
+        "tour_semantic_search",
+        "tour",
+        {
+          success: true,
+          rows: results,
+          message: anchor
+            ? `Found ${results.length} tours through semantic search near ${anchor.name}`
+            : `Found ${results.length} tours through semantic search`,
+          searchContext: { query, threshold, anchor: anchor?.name },
+        },
+        runContext?.context?.toolResults
+      );
+    } catch (error) {
+      return buildToolPartnerResult(
+        "tour_semantic_search",
+        "tour",
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Tour semantic search failed",
+        },
+        runContext?.context?.toolResults
+      );
+    }
+  },
+});
+
+// ===== EXPERIENCE TOOLS =====
+
+export const experienceSearchTool = tool({
+  name: "search_experiences",
+  description:
+    "Search hands-on experiences such as cooking classes, wine tastings and workshops",
+  parameters: z.object({
+    query: z.string().describe("Natural language search query for experiences"),
+    location: z.string().nullable().describe("City or area to search in"),
+    experienceType: z
+      .string()
+      .nullable()
+      .describe("Type of experience (cooking class, wine tasting, workshop)"),
+    maxPricePerPerson: z
+      .number()
+      .nullable()
+      .describe("Maximum price per person in EUR"),
+    participants: z.number().nullable().describe("Number of participants"),
+    language: z.string().nullable().describe("Preferred language"),
+    limit: z.number().default(10).describe("Maximum results"),
+  }),
+  execute: async (
+    {
+      query,
+      location,
+      experienceType,
+      maxPricePerPerson,
+      participants,
+      language,
+      limit = 10,
+    }: {
+      query: string;
+      location: string | null;
+      experienceType: string | null;
+      maxPricePerPerson: number | null;
+      participants: number | null;
+      language: string | null;
+      limit?: number;
+    },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
+
+    console.log(`[EXPERIENCE_SEARCH] Called with:`, {
+      query,
+      location,
+      experienceType,
+      maxPricePerPerson,
+      participants,
+      language,
+      limit,
+    });
+    try {
+      let dbQuery = supabase
+        .from("experiences")
+        .select(
+          `
+          id, name, description, experience_type, location, address, city, country,
+          coordinates, duration_hours, min_participants, max_participants,
+          price_per_person, price_range, languages, includes, available_days,
+          rating, phone, email, website, booking_url, primary_image_url,
+          gallery_urls, is_featured, booking_count
+        `
+        )
+        .eq("is_active", true);
+
+      if (location) {
+        // Clean location to avoid PostgREST parsing errors
+        const cleanLocation = location.replace(/[,;]/g, "").trim();
+        dbQuery = dbQuery.or(
+          `city.ilike.%${cleanLocation}%,location.ilike.%${cleanLocation}%`
+        );
+      }
+
+      if (experienceType) {
+        dbQuery = dbQuery.ilike("experience_type", `%${experienceType}%`);
+      }
+
+      if (maxPricePerPerson) {
+        dbQuery = dbQuery.lte("price_per_person", maxPricePerPerson);
+      }
+
+      if (participants) {
+        dbQuery = dbQuery.gte("max_participants", participants);
+      }
+
+      // Raggio dell'ancora applicato prima del limite
+      if (anchor) {
+        dbQuery = dbQuery.in(
+          "id",
+          await partnerIdsNearAnchor("experience", anchor)
+        );
+      }
+
+      dbQuery = dbQuery
+        .order("is_featured", { ascending: false })
+        .order("booking_count", { ascending: false })
+        .limit(limit);
+
+      const { data, error } = await dbQuery;
+      console.log(`[EXPERIENCE_SEARCH] Query result:`, {
+        dataCount: data?.length,
+        error: error?.message,
+      });
+
+      if (error) {
+        console.error(`[EXPERIENCE_SEARCH] Database error:`, error);
+        throw new Error(`Experience search failed: ${error.message}`);
+      }
+
+      let results = data || [];
+
+      // Filter by language if specified
+      if (language) {
+        results = results.filter(experience =>
+          (experience.languages || []).some((l: string) =>
+            l.toLowerCase().includes(language.toLowerCase())
+          )
+        );
+      }
+
+      // Keep only experiences near the anchor hotel
+      const finalResults = anchor
+        ? constrainToAnchor(results, anchor, limit)
+        : results;
+
+      console.log(`[EXPERIENCE_SEARCH] Final results:`, {
+        count: finalResults.length,
+        sampleName: finalResults[0]?.name,
+        anchor: anchor?.name,
+      });
+      return buildToolPartnerResult(
+        "search_experiences",
+        "experience",
+        {
+          success: true,
+          rows: finalResults,
+          message: anchor
+            ? `Found ${finalResults.length} experiences within ${anchor.radiusKm} km of ${anchor.name}`
+            : `Found ${finalResults.length} experiences matching your criteria`,
+          searchContext: {
+            query,
+            location,
+            experienceType,
+            maxPricePerPerson,
+            participants,
+            language,
+            anchor: anchor?.name,
+          },
+        },
+        runContext?.context?.toolResults
+      );
+    } catch (error) {
+      return buildToolPartnerResult(
+        "search_experiences",
+        "experience",
+        {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Experience search failed",
+        },
+        runContext?.context?.toolResults
+      );
+    }
+  },
+});
+
+export const experienceVectorSearchTool = tool({
+  name: "experience_semantic_search",
+  description: "Semantic search for experiences using vector embeddings",
+  parameters: z.object({
+    query: z
+      .string()
+      .describe("Natural language query for semantic experience search"),
+    limit: z.number().default(8).describe("Maximum results"),
+    threshold: z.number().default(0.3).describe("Similarity threshold"),
+  }),
+  execute: async (
+    { query, limit = 8, threshold = 0.3 },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
     try {
-      const queryEmbedding = await generateEmbeddings(`tour ${query}`);
+      // Ricerca vettoriale sulla tabella: match_experiences non dipende
+      // dalla vista partners usata dalla ricerca ibrida
+      const queryEmbedding = await generateEmbeddings(`experience ${query}`);
 
-      const { data, error } = await supabase.rpc("match_tours", {
+      const { data, error } = await supabase.rpc("match_experiences", {
         query_embedding: queryEmbedding,
         match_threshold: threshold,
         match_count: limit,
+        // Raggio dell'ancora applicato dall'RPC prima del limite
+        center_lat: anchor?.coordinates.lat ?? null,
+        center_lng: anchor?.coordinates.lng ?? null,
+        radius_km: anchor?.radiusKm ?? null,
       });
 
       if (error) {
-        throw new Error(`Tour vector search failed: ${error.message}`);
+        throw new Error(`Experience vector search failed: ${error.message}`);
       }
 
-      return {
-        success: true,
-        data: data || [],
-        message: `Found ${(data || []).length} tours through semantic search`,
-        searchContext: { query, threshold },
-      };
+      const results = anchor
+        ? constrainToAnchor(data || [], anchor, limit)
+        : data || [];
+
+      return buildToolPartnerResult(
+        "experience_semantic_search",
+        "experience",
+        {
+          success: true,
+          rows: results,
+          message: anchor
+            ? `Found ${results.length} experiences through semantic search near ${anchor.name}`
+            : `Found ${results.length} experiences through semantic search`,
+          searchContext: { query, threshold, anchor: anchor?.name },
+        },
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Tour semantic search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "experience_semantic_search",
+        "experience",
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Experience semantic search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -970,21 +1526,25 @@ export const shuttleSearchTool = tool({
     serviceType: z.string().nullable().describe("Type of shuttle service"),
     limit: z.number().default(10).describe("Maximum results"),
   }),
-  execute: async ({
-    query,
-    departureLocation,
-    arrivalLocation,
-    capacity,
-    serviceType,
-    limit = 10,
-  }: {
-    query: string;
-    departureLocation: string | null;
-    arrivalLocation: string | null;
-    capacity: number | null;
-    serviceType: string | null;
-    limit?: number;
-  }) => {
+  execute: async (
+    {
+      query,
+      departureLocation,
+      arrivalLocation,
+      capacity,
+      serviceType,
+      limit = 10,
+    }: {
+      query: string;
+      departureLocation: string | null;
+      arrivalLocation: string | null;
+      capacity: number | null;
+      serviceType: string | null;
+      limit?: number;
+    },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
     console.log(`[SHUTTLE_SEARCH] Called with:`, {
       query,
       departureLocation,
@@ -999,7 +1559,7 @@ export const shuttleSearchTool = tool({
         .select(
           `
           id, name, description, service_type, departure_location, arrival_location,
-          route_description, stops, vehicle_type, capacity, luggage_capacity,
+          coordinates, route_description, stops, vehicle_type, capacity, luggage_capacity,
           schedule, frequency, advance_booking_required, price_per_person,
           price_per_vehicle, price_one_way, price_round_trip, features,
           accessibility_features, phone, email, website, booking_url, 
@@ -1024,6 +1584,14 @@ export const shuttleSearchTool = tool({
         dbQuery = dbQuery.ilike("service_type", `%${serviceType}%`);
       }
 
+      // Raggio dell'ancora applicato prima del limite
+      if (anchor) {
+        dbQuery = dbQuery.in(
+          "id",
+          await partnerIdsNearAnchor("shuttle", anchor)
+        );
+      }
+
       dbQuery = dbQuery
         .order("is_featured", { ascending: false })
         .order("booking_count", { ascending: false })
@@ -1040,28 +1608,47 @@ export const shuttleSearchTool = tool({
         throw new Error(`Shuttle search failed: ${error.message}`);
       }
 
+      // Keep only shuttles with a pickup point near the anchor hotel
+      const results = anchor
+        ? constrainToAnchor(data || [], anchor, limit)
+        : data || [];
+
       console.log(`[SHUTTLE_SEARCH] Final results:`, {
-        count: (data || []).length,
-        sampleName: data?.[0]?.name,
+        count: results.length,
+        sampleName: results[0]?.name,
+        anchor: anchor?.name,
       });
-      return {
-        success: true,
-        data: data || [],
-        message: `Found ${(data || []).length} shuttle services matching your criteria`,
-        searchContext: {
-          query,
-          departureLocation,
-          arrivalLocation,
-          capacity,
-          serviceType,
+      return buildToolPartnerResult(
+        "search_shuttles",
+        "shuttle",
+        {
+          success: true,
+          rows: results,
+          message: anchor
+            ? `Found ${results.length} shuttle services within ${anchor.radiusKm} km of ${anchor.name}`
+            : `Found ${results.length} shuttle services matching your criteria`,
+          searchContext: {
+            query,
+            departureLocation,
+            arrivalLocation,
+            capacity,
+            serviceType,
+            anchor: anchor?.name,
+          },
         },
-      };
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Shuttle search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "search_shuttles",
+        "shuttle",
+        {
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Shuttle search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
@@ -1076,35 +1663,50 @@ export const shuttleVectorSearchTool = tool({
     limit: z.number().default(8).describe("Maximum results"),
     threshold: z.number().default(0.3).describe("Similarity threshold"),
   }),
-  execute: async ({ query, limit = 8, threshold = 0.3 }) => {
+  execute: async (
+    { query, limit = 8, threshold = 0.3 },
+    runContext?: RunContext<AgentRunContext>
+  ) => {
+    const anchor = runContext?.context?.anchor;
     try {
-      const queryEmbedding = await generateEmbeddings(`shuttle ${query}`);
-
-      const { data, error } = await supabase.rpc("match_shuttles", {
-        query_embedding: queryEmbedding,
-        match_threshold: threshold,
-        match_count: limit,
+      const data = await hybridTypeSearch({
+        partnerType: "shuttle",
+        table: "shuttles",
+        query,
+        semanticQuery: `shuttle ${query}`,
+        limit,
+        threshold,
+        anchor,
       });
 
-      if (error) {
-        throw new Error(`Shuttle vector search failed: ${error.message}`);
-      }
-
-      return {
-        success: true,
-        data: data || [],
-        message: `Found ${(data || []).length} shuttle services through semantic search`,
-        searchContext: { query, threshold },
-      };
+      const results = anchor ? constrainToAnchor(data, anchor, limit) : data;
+
+      return buildToolPartnerResult(
+        "shuttle_semantic_search",
+        "shuttle",
+        {
+          success: true,
+          rows: results,
+          message: anchor
+            ? `Found ${results.length} shuttle services through semantic search near ${anchor.name}`
+            : `Found ${results.length} shuttle services through semantic search`,
+          searchContext: { query, threshold, anchor: anchor?.name },
+        },
+        runContext?.context?.toolResults
+      );
     } catch (error) {
-      return {
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Shuttle semantic search failed",
-        data: [],
-      };
+      return buildToolPartnerResult(
+        "shuttle_semantic_search",
+        "shuttle",
+        {
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Shuttle semantic search failed",
+        },
+        runContext?.context?.toolResults
+      );
     }
   },
 });
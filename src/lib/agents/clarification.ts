@@ -0,0 +1,203 @@
+import type {
+  ClarificationPrompt,
+  ClarificationRequest,
+  Locale,
+  PartnerData,
+} from "@/types";
+import type { QueryAnalysis } from "./query-classifier";
+import { DEFAULT_LOCALE } from "./language";
+import { getAgentMessages, type AgentMessages } from "./messages";
+
+/**
+ * Confidenza minima del tipo principale sotto la quale si chiede all'utente
+ * cosa cerca. Il punteggio a parole chiave ha una scala più bassa.
+ */
+const CONFIDENCE_THRESHOLDS: Record<QueryAnalysis["source"], number> = {
+  llm: parseFloat(process.env.CLARIFICATION_CONFIDENCE_THRESHOLD || "0.5"),
+  keywords: 0.15,
+};
+
+const POPULAR_DESTINATIONS = [
+  "Roma",
+  "Firenze",
+  "Venezia",
+  "Milano",
+  "Napoli",
+  "Costiera Amalfitana",
+];
+
+// Ordine delle risposte rapide sul tipo di servizio
+const SERVICE_TYPES: PartnerData["type"][] = [
+  "hotel",
+  "restaurant",
+  "tour",
+  "experience",
+  "shuttle",
+];
+
+/**
+ * Decide se la query è troppo vaga per avviare gli agenti e, in quel caso,
+ * prepara la domanda con le risposte rapide nella lingua dell'utente.
+ * Restituisce null se si può procedere con la ricerca.
+ */
+export function detectClarificationNeed(
+  analysis: QueryAnalysis,
+  now: Date = new Date(),
+  language: Locale = DEFAULT_LOCALE
+): ClarificationRequest | null {
+  const { searchTerms } = analysis;
+  const messages = getAgentMessages(language);
+  const { labels } = messages.clarification;
+  const reasons: ClarificationRequest["reasons"] = [];
+
+  const primaryConfidence = analysis.primaryType
+    ? analysis.confidence[analysis.primaryType]
+    : 0;
+  const lowConfidence =
+    !searchTerms.isGeneralTripPlanning &&
+    primaryConfidence < CONFIDENCE_THRESHOLDS[analysis.source];
+  if (lowConfidence) reasons.push("low_confidence");
+
+  if (!searchTerms.location) reasons.push("missing_location");
+
+  // Senza date la ricerca hotel userebbe "domani" come check-in
+  const needsDates =
+    analysis.detectedTypes.includes("hotel") &&
+    !searchTerms.dates?.start &&
+    !searchTerms.timeframe &&
+    !searchTerms.hasDateRange;
+  if (needsDates) reasons.push("missing_dates");
+
+  if (reasons.length === 0) return null;
+
+  const prompts: ClarificationPrompt[] = [];
+
+  if (lowConfidence) {
+    prompts.push({
+      field: "intent",
+      type: "choices",
+      label: labels.intent,
+      options: SERVICE_TYPES.map(type => ({
+        label: capitalize(messages.typeLabels[type]),
+        value: type,
+        reply: messages.clarification.serviceReplies[type],
+      })),
+    });
+  }
+
+  if (!searchTerms.location) {
+    prompts.push({
+      field: "location",
+      type: "choices",
+      label: labels.location,
+      options: POPULAR_DESTINATIONS.map(destination => ({
+        label: destination,
+        value: destination,
+        reply: messages.clarification.locationReply(destination),
+      })),
+    });
+  }
+
+  if (needsDates) {
+    prompts.push({
+      field: "dates",
+      type: "date_range",
+      label: labels.dates,
+      minDate: formatDate(now),
+      presets: buildDatePresets(now, messages),
+    });
+
+    if (!searchTerms.partySize && !searchTerms.groupSize) {
+      prompts.push({
+        field: "partySize",
+        type: "choices",
+        label: labels.partySize,
+        options: [1, 2, 3, 4].map(size => ({
+          label: size === 4 ? "4+" : String(size),
+          value: size,
+          reply: messages.clarification.partySizeReply(size),
+        })),
+      });
+    }
+  }
+
+  return {
+    question: buildQuestion(reasons, messages),
+    reasons,
+    prompts,
+  };
+}
+
+function buildQuestion(
+  reasons: ClarificationRequest["reasons"],
+  messages: AgentMessages
+): string {
+  const { clarification } = messages;
+  const missing = [
+    reasons.includes("low_confidence") && clarification.missing.intent,
+    reasons.includes("missing_location") && clarification.missing.location,
+    reasons.includes("missing_dates") && clarification.missing.dates,
+  ].filter((part): part is string => Boolean(part));
+
+  const list =
+    missing.length > 1
+      ? `${missing.slice(0, -1).join(", ")} ${clarification.and} ${missing[missing.length - 1]}`
+      : missing[0];
+
+  return clarification.question(list);
+}
+
+/**
+ * Date proposte come risposta rapida: weekend in arrivo, quello dopo e la
+ * settimana successiva
+ */
+function buildDatePresets(
+  now: Date,
+  messages: AgentMessages
+): Extract<ClarificationPrompt, { field: "dates" }>["presets"] {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const weekday = today.getDay();
+  const isWeekend = weekday === 6 || weekday === 0;
+
+  // Nel weekend "questo weekend" parte da oggi, altrimenti dal venerdì
+  const upcomingFriday = addDays(today, (5 - weekday + 7) % 7);
+  const nextMonday = addDays(today, (1 - weekday + 7) % 7 || 7);
+
+  const { presets, dateReply } = messages.clarification;
+  const range = (label: string, start: Date, nights: number) => {
+    const end = addDays(start, nights);
+    return {
+      label,
+      value: { start: formatDate(start), end: formatDate(end) },
+      reply: dateReply(formatDate(start), formatDate(end)),
+    };
+  };
+
+  return [
+    isWeekend
+      ? range(presets.thisWeekend, today, 1)
+      : range(presets.thisWeekend, upcomingFriday, 2),
+    range(
+      presets.nextWeekend,
+      isWeekend ? upcomingFriday : addDays(upcomingFriday, 7),
+      2
+    ),
+    range(presets.nextWeek, nextMonday, 5),
+  ];
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,60 @@
+import type { Locale, PartnerData } from "@/types";
+import { searchPartners } from "../supabase-server";
+import { analyzeUserQueryWithKeywords } from "./orchestrator";
+import { rankPartners } from "./ranking";
+import { DEFAULT_LOCALE } from "./language";
+import { getAgentMessages } from "./messages";
+
+const FALLBACK_RESULTS_PER_TYPE = 5;
+
+export interface FallbackSearchResult {
+  message: string;
+  partners: PartnerData[];
+}
+
+/**
+ * Ricerca senza modelli AI, usata quando il budget giornaliero dell'utente
+ * è esaurito: tipi e località dall'analisi a parole chiave, partner dal
+ * catalogo come nella ricerca tradizionale. Il messaggio è nella lingua
+ * dell'utente.
+ */
+export async function runFallbackSearch(
+  query: string,
+  language: Locale = DEFAULT_LOCALE
+): Promise<FallbackSearchResult> {
+  const { typeLabels, fallback } = getAgentMessages(language);
+  const analysis = analyzeUserQueryWithKeywords(query);
+  const { location } = analysis.searchTerms;
+
+  const resultsByType = await Promise.all(
+    analysis.detectedTypes.map(async type => {
+      try {
+        const partners = await searchPartners(
+          { type, location },
+          FALLBACK_RESULTS_PER_TYPE
+        );
+        return partners.map((partner): PartnerData => ({ ...partner, type }));
+      } catch (error) {
+        console.error(`[FALLBACK_SEARCH] ${type} search failed:`, error);
+        return [];
+      }
+    })
+  );
+
+  const partners = rankPartners(resultsByType.flat(), analysis);
+  console.log(
+    `[FALLBACK_SEARCH] Found ${partners.length} partners for "${query}"`
+  );
+
+  const found = analysis.detectedTypes
+    .map((type, index) => ({ type, count: resultsByType[index].length }))
+    .filter(({ count }) => count > 0)
+    .map(({ type, count }) => `${count} ${typeLabels[type]}`);
+
+  const message =
+    found.length > 0
+      ? fallback.found(location, found.join(", "))
+      : fallback.empty(location);
+
+  return { message, partners };
+}
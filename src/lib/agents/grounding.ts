@@ -0,0 +1,343 @@
+import type { PartnerData, PartnerMention } from "@/types";
+
+export interface GroundingResult {
+  /** Risposta senza le frasi sui locali non trovati dalla ricerca */
+  message: string;
+  /** Citazioni verificate, collegabili a /partner/[id] */
+  mentions: PartnerMention[];
+  /** Locali citati dal modello ma assenti dai risultati */
+  unknownVenues: string[];
+}
+
+/**
+ * Parole che introducono il nome di un locale ("Hotel Danieli", "Trattoria
+ * da Mario"). Niente "Palazzo" o "Villa": sono anche nomi di monumenti.
+ */
+const VENUE_KEYWORDS = [
+  "hotel",
+  "hôtel",
+  "albergo",
+  "resort",
+  "relais",
+  "locanda",
+  "agriturismo",
+  "b&b",
+  "ristorante",
+  "restaurant",
+  "restaurante",
+  "trattoria",
+  "osteria",
+  "pizzeria",
+  "enoteca",
+  "gasthaus",
+];
+
+const NAME_CONNECTORS = new Set([
+  "da",
+  "di",
+  "del",
+  "della",
+  "dei",
+  "al",
+  "alla",
+  "il",
+  "la",
+  "lo",
+  "le",
+  "de",
+  "du",
+  "des",
+]);
+
+const VENUE_KEYWORD_TOKENS = new Set(VENUE_KEYWORDS.map(normalize));
+
+/**
+ * Parole di intestazioni e descrizioni ("Hotel consigliati", "Ristoranti
+ * Top"): un candidato fatto solo di queste non è il nome di un locale
+ */
+const GENERIC_WORDS = new Set([
+  "consigliati",
+  "consigliato",
+  "selezionati",
+  "suggeriti",
+  "migliori",
+  "top",
+  "lusso",
+  "boutique",
+  "economici",
+  "romantici",
+  "disponibili",
+  "recommended",
+  "selected",
+  "best",
+  "luxury",
+  "options",
+  "opzioni",
+  "recommandés",
+  "sélectionnés",
+  "empfohlene",
+  "recomendados",
+  "seleccionados",
+]);
+
+// Parola chiave seguita da parole maiuscole o connettori. Senza flag "i",
+// che farebbe accettare a \p{Lu} anche le minuscole.
+const VENUE_NAME_PATTERN = new RegExp(
+  `(?<!\\p{L})(?:${VENUE_KEYWORDS.map(caseInsensitive).join("|")})(?:\\s+(?:\\p{Lu}[\\p{L}'’&-]*|${Array.from(
+    NAME_CONNECTORS
+  ).join("|")}))+`,
+  "gu"
+);
+
+const BOLD_PATTERN = /\*\*(.+?)\*\*/g;
+// Titoli markdown e righe fatte solo di un grassetto ("**Hotel a Venezia**")
+const HEADING_PATTERN = /^\s*(?:#{1,6}\s|\*\*[^*]+\*\*:?\s*$)/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s/;
+const NUMBERED_ITEM_PATTERN = /^(\s*)\d+([.)]\s)/;
+
+/**
+ * Confronta i locali citati nella risposta con i partner trovati dagli
+ * agenti: toglie le frasi sui locali inventati e annota le citazioni
+ * verificate con l'id del partner
+ */
+export function verifyPartnerMentions(
+  message: string,
+  partners: PartnerData[],
+  /** Località della richiesta, oltre alle città dei partner */
+  queryLocations: string[] = []
+): GroundingResult {
+  const places = collectPlaceTokens(partners, queryLocations);
+  const unknownVenues = Array.from(
+    new Set(
+      extractVenueCandidates(message, places)
+        .filter(candidate => candidate.isVenue)
+        .filter(candidate => !findPartner(candidate.text, partners))
+        .map(candidate => candidate.text)
+    )
+  );
+
+  if (unknownVenues.length > 0) {
+    console.warn(
+      `[GROUNDING] Removing venues not found by the agents: ${unknownVenues.join(", ")}`
+    );
+  }
+
+  const grounded = stripVenues(message, unknownVenues);
+  return {
+    message: grounded,
+    mentions: collectMentions(grounded, partners),
+    unknownVenues,
+  };
+}
+
+/**
+ * Lunghezza della parte di un testo in streaming che si può già verificare:
+ * le righe complete e, nelle righe di prosa, le frasi complete. Voci di
+ * elenco e titoli si tolgono per intero, quindi aspettano l'a capo; un
+ * grassetto aperto può essere ancora il nome di un locale.
+ */
+export function verifiableLength(text: string): number {
+  const lineStart = text.lastIndexOf("\n") + 1;
+  const line = text.slice(lineStart);
+  if (/^\s*#/.test(line) || LIST_ITEM_PATTERN.test(line)) return lineStart;
+
+  let end = lineStart;
+  for (const match of line.matchAll(/[.!?]\s+/g)) {
+    const sentenceEnd = match.index + match[0].length;
+    const boldMarkers = line.slice(0, sentenceEnd).split("**").length - 1;
+    if (boldMarkers % 2 === 0) end = lineStart + sentenceEnd;
+  }
+  return end;
+}
+
+interface VenueCandidate {
+  text: string;
+  /** Il testo ha la forma del nome di un locale, non solo di un grassetto */
+  isVenue: boolean;
+}
+
+function extractVenueCandidates(
+  message: string,
+  places: Set<string> = new Set()
+): VenueCandidate[] {
+  const candidates: VenueCandidate[] = [];
+
+  for (const match of message.matchAll(VENUE_NAME_PATTERN)) {
+    const text = trimConnectors(match[0]);
+    candidates.push({ text, isVenue: looksLikeVenueName(text, places) });
+  }
+
+  // Il modello mette in grassetto i nomi dei partner
+  for (const match of message.matchAll(BOLD_PATTERN)) {
+    const text = match[1].replace(/[:.,]+$/, "").trim();
+    if (text) candidates.push({ text, isVenue: false });
+  }
+
+  return candidates;
+}
+
+/**
+ * Nome proprio dopo la parola chiave, non un'intestazione generica né una
+ * località ("hotel di Venezia")
+ */
+function looksLikeVenueName(text: string, places: Set<string>): boolean {
+  const nameTokens = significantTokens(text);
+  return (
+    nameTokens.length > 0 &&
+    nameTokens.some(token => !GENERIC_WORDS.has(token) && !places.has(token))
+  );
+}
+
+/**
+ * Parole delle località note: città dei partner (ultima parte
+ * dell'indirizzo) e località della richiesta
+ */
+function collectPlaceTokens(
+  partners: PartnerData[],
+  queryLocations: string[]
+): Set<string> {
+  const cities = partners.map(
+    partner => partner.location.split(",").pop() ?? ""
+  );
+  return new Set(
+    [...cities, ...queryLocations].flatMap(place => significantTokens(place))
+  );
+}
+
+function findPartner(
+  text: string,
+  partners: PartnerData[]
+): PartnerData | undefined {
+  const candidate = normalize(text);
+  if (candidate.length < 3) return undefined;
+
+  const exact = partners.find(partner => normalize(partner.name) === candidate);
+  if (exact) return exact;
+
+  const candidateTokens = significantTokens(text);
+  return partners.find(partner => {
+    const name = normalize(partner.name);
+    if (name.length < 3) return false;
+    // "Hotel Danieli Venezia" contiene "Hotel Danieli"
+    if (` ${candidate} `.includes(` ${name} `)) return true;
+
+    // "Hotel Danieli" e "Danieli, a Luxury Collection Hotel"
+    const nameTokens = significantTokens(partner.name);
+    if (candidateTokens.length === 0 || nameTokens.length === 0) return false;
+    const shared = candidateTokens.filter(token => nameTokens.includes(token));
+    return shared.length / candidateTokens.length >= 0.6;
+  });
+}
+
+/**
+ * Citazioni verificate: nomi dei partner presenti nel testo e candidati
+ * riconosciuti. I partner RapidAPI non hanno una pagina /partner/[id].
+ */
+function collectMentions(
+  message: string,
+  partners: PartnerData[]
+): PartnerMention[] {
+  const linkable = partners.filter(partner => !partner.rapid_api_data);
+  const mentions = new Map<string, PartnerMention>();
+  const lowerMessage = message.toLowerCase();
+
+  for (const partner of linkable) {
+    const index = lowerMessage.indexOf(partner.name.toLowerCase());
+    if (partner.name.length >= 3 && index !== -1) {
+      const text = message.slice(index, index + partner.name.length);
+      mentions.set(text, { partnerId: partner.id, text });
+    }
+  }
+
+  for (const candidate of extractVenueCandidates(message)) {
+    if (mentions.has(candidate.text)) continue;
+    const partner = findPartner(candidate.text, linkable);
+    if (partner) {
+      mentions.set(candidate.text, {
+        partnerId: partner.id,
+        text: candidate.text,
+      });
+    }
+  }
+
+  return Array.from(mentions.values());
+}
+
+/**
+ * Elimina le voci di elenco che citano i locali sconosciuti e, nel testo
+ * normale, solo le frasi che li contengono. I titoli restano.
+ */
+function stripVenues(message: string, venues: string[]): string {
+  if (venues.length === 0) return message;
+
+  const mentionsVenue = (text: string) =>
+    venues.some(venue => text.includes(venue));
+
+  const lines = message.split("\n").flatMap(line => {
+    if (!mentionsVenue(line) || HEADING_PATTERN.test(line)) return [line];
+    if (LIST_ITEM_PATTERN.test(line)) return [];
+
+    const kept = line
+      .split(/(?<=[.!?])\s+/)
+      .filter(sentence => !mentionsVenue(sentence))
+      .join(" ");
+    return kept.trim() ? [kept] : [];
+  });
+
+  return renumberLists(lines)
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Dopo aver tolto delle voci, gli elenchi numerati ripartono da 1 senza buchi
+function renumberLists(lines: string[]): string[] {
+  let counter = 0;
+  return lines.map(line => {
+    if (!NUMBERED_ITEM_PATTERN.test(line)) {
+      if (line.trim() && !/^\s/.test(line)) counter = 0;
+      return line;
+    }
+    counter += 1;
+    return line.replace(NUMBERED_ITEM_PATTERN, `$1${counter}$2`);
+  });
+}
+
+function trimConnectors(text: string): string {
+  const words = text.trim().split(/\s+/);
+  while (words.length > 1 && NAME_CONNECTORS.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(" ");
+}
+
+/**
+ * Parole del nome senza parola chiave del locale e articoli
+ */
+function significantTokens(text: string): string[] {
+  return normalize(text)
+    .split(" ")
+    .filter(
+      token =>
+        token.length > 1 &&
+        !NAME_CONNECTORS.has(token) &&
+        !VENUE_KEYWORD_TOKENS.has(token)
+    );
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}&]+/gu, " ")
+    .trim();
+}
+
+function caseInsensitive(word: string): string {
+  return Array.from(word)
+    .map(char =>
+      char.toUpperCase() === char ? char : `[${char}${char.toUpperCase()}]`
+    )
+    .join("");
+}
@@ -1,4 +1,5 @@
 import { Agent } from "@openai/agents";
+import { getModelForRole } from "../models";
 import {
   hotelSearchTool,
   hotelVectorSearchTool,
@@ -7,7 +8,7 @@ import {
 
 export const hotelAgent = new Agent({
   name: "Via Nexo Hotel Specialist",
-  model: "gpt-5-mini",
+  model: getModelForRole("hotel_agent"),
   instructions: `
     You are Via Nexo's hotel search specialist with access to REAL-TIME hotel availability through Booking.com.
 
@@ -3,9 +3,38 @@ export { hotelAgent } from "./hotel-agent";
 export { restaurantAgent } from "./restaurant-agent";
 export { tourAgent } from "./tour-agent";
 export { shuttleAgent } from "./shuttle-agent";
+export { experienceAgent } from "./experience-agent";
 
 // Tools
 export * from "./base-tools";
 
 // Orchestration
-export { runAgentOrchestration, analyzeUserQuery } from "./orchestrator";
+export {
+  runAgentOrchestration,
+  analyzeUserQuery,
+  analyzeUserQueryWithKeywords,
+} from "./orchestrator";
+export { classifyUserQuery, queryAnalysisSchema } from "./query-classifier";
+export { rankPartners, scorePartner } from "./ranking";
+export { detectClarificationNeed } from "./clarification";
+export { detectLanguage, resolveLanguage } from "./language";
+export { toTravelPreferences } from "./user-preferences";
+export type { TravelPreferences } from "./user-preferences";
+export type { LocationAnchor } from "./location-anchor";
+export {
+  TOOL_RESULT_VERSION,
+  toolPartnerResultSchema,
+  createToolResultCollector,
+} from "./tool-result";
+export type {
+  ToolPartnerResult,
+  ToolResultCollector,
+  ToolResultError,
+} from "./tool-result";
+export type { QueryAnalysis } from "./query-classifier";
+export type {
+  AgentTrace,
+  OrchestrationTrace,
+  ToolCallTrace,
+  TokenUsage,
+} from "./tracing";
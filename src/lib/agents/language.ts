@@ -0,0 +1,91 @@
+import type { Locale } from "@/types";
+
+export const DEFAULT_LOCALE: Locale = "it";
+
+const LOCALES: Locale[] = ["it", "en", "fr", "de", "es"];
+
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  it: "Italian",
+  en: "English",
+  fr: "French",
+  de: "German",
+  es: "Spanish",
+};
+
+/**
+ * Parole frequenti e tipiche di ogni lingua. Sono escluse quelle comuni a
+ * più lingue (es. "la", "de", "un", "cena") che non aiutano a distinguerle.
+ */
+const LANGUAGE_MARKERS: Record<Locale, string[]> = {
+  it: words(
+    "il lo gli e per con una uno che della delle dei nel nella alla dal vicino cerco vorrei voglio albergo ristorante domani stasera notte notti giorni persone dove sono prenotare pranzo viaggio vacanza camera"
+  ),
+  en: words(
+    "the and for with near to of my want looking need find book dinner lunch tomorrow tonight night nights days people where is are trip room some best"
+  ),
+  fr: words(
+    "le les des du et pour avec une près je cherche voudrais veux demain soir nuit nuits jours personnes dîner déjeuner où est au aux dans chambre séjour voyage quelque proche"
+  ),
+  de: words(
+    "der die das und mit für ein eine einen ich suche möchte morgen heute abend nacht nächte tage personen abendessen nähe wo ist im am vom bis zimmer reise unterkunft nach zum"
+  ),
+  es: words(
+    "el los las y para cerca busco quiero mañana esta noche noches días personas dónde está habitación viaje semana algo comer cenar unos unas restaurante"
+  ),
+};
+
+// Caratteri presenti in una sola delle lingue supportate
+const LANGUAGE_CHARACTERS: Partial<Record<Locale, RegExp>> = {
+  de: /[äöüß]/,
+  es: /[ñ¿¡]/,
+  fr: /[çœêâîû]/,
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && LOCALES.includes(value as Locale);
+}
+
+/**
+ * Riconosce la lingua del messaggio. Restituisce null se il testo è troppo
+ * corto o ambiguo (es. "hotel Roma").
+ */
+export function detectLanguage(text: string): Locale | null {
+  const lower = text.toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+
+  const scores = LOCALES.map(locale => {
+    const markers = LANGUAGE_MARKERS[locale];
+    const wordHits = words.filter(word => markers.includes(word)).length;
+    const characterHit = LANGUAGE_CHARACTERS[locale]?.test(lower) ? 1 : 0;
+    return { locale, score: wordHits + characterHit };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score === 0 || best.score === second.score) return null;
+  return best.locale;
+}
+
+/**
+ * Lingua della risposta: quella del messaggio, altrimenti la lingua
+ * preferita del profilo, altrimenti l'italiano
+ */
+export function resolveLanguage(
+  text: string,
+  preferredLanguage?: unknown
+): Locale {
+  return (
+    detectLanguage(text) ??
+    (isLocale(preferredLanguage) ? preferredLanguage : DEFAULT_LOCALE)
+  );
+}
+
+/**
+ * Istruzione sulla lingua da aggiungere alla richiesta per gli agenti
+ */
+export function describeLanguageForAgents(language: Locale): string {
+  return `Reply in ${LANGUAGE_NAMES[language]}, the user's language. Search tools expect Italian place names (e.g. Firenze, Venezia, Napoli), whatever the language of the request.`;
+}
+
+function words(list: string): string[] {
+  return list.split(" ");
+}
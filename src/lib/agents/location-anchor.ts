@@ -0,0 +1,79 @@
+export const ANCHOR_RADIUS_KM = parseFloat(process.env.ANCHOR_RADIUS_KM || "3");
+
+/**
+ * Punto di riferimento (l'hotel scelto) per le ricerche dipendenti
+ */
+export interface LocationAnchor {
+  partnerId: string;
+  name: string;
+  location: string;
+  coordinates: { lat: number; lng: number };
+  radiusKm: number;
+}
+
+/**
+ * Legge le coordinate nei formati usati da database e RapidAPI
+ * ({ lat, lng } oppure { latitude, longitude })
+ */
+export function readCoordinates(
+  value: unknown
+): { lat: number; lng: number } | null {
+  if (!value || typeof value !== "object") return null;
+
+  const coords = value as Record<string, unknown>;
+  const lat = Number(coords.lat ?? coords.latitude);
+  const lng = Number(coords.lng ?? coords.longitude);
+
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+}
+
+/**
+ * Distanza in linea d'aria (formula di haversine)
+ */
+export function distanceKm(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Applica il vincolo di distanza ai risultati di un tool: scarta quelli
+ * oltre il raggio, aggiunge distance_to_hotel_km e ordina i più vicini
+ * per primi. I risultati senza coordinate sono scartati: i messaggi dei
+ * tool li dichiarerebbero entro il raggio senza poterlo verificare.
+ */
+export function constrainToAnchor<T extends object>(
+  results: T[],
+  anchor: LocationAnchor,
+  limit: number
+): Array<T & { distance_to_hotel_km: number }> {
+  return results
+    .flatMap(result => {
+      const coordinates = readCoordinates(
+        (result as { coordinates?: unknown }).coordinates
+      );
+      if (!coordinates) return [];
+
+      return [
+        {
+          ...result,
+          distance_to_hotel_km:
+            Math.round(distanceKm(anchor.coordinates, coordinates) * 100) / 100,
+        },
+      ];
+    })
+    .filter(result => result.distance_to_hotel_km <= anchor.radiusKm)
+    .sort((a, b) => a.distance_to_hotel_km - b.distance_to_hotel_km)
+    .slice(0, limit);
+}
@@ -0,0 +1,510 @@
+import type { Locale, PartnerData } from "@/types";
+
+/**
+ * Testi generati dal server (risposta aggregata, chiarimenti, ricerca
+ * senza AI, preferenze applicate, avanzamento del piano) in ogni lingua
+ * supportata
+ */
+export interface AgentMessages {
+  /** Nome plurale di ogni tipo di partner */
+  typeLabels: Record<PartnerData["type"], string>;
+  aggregated: {
+    noResults: string;
+    introGeneral: (count: number) => string;
+    introSpecific: (count: number, typeLabel: string) => string;
+    optionsFound: (count: number) => string;
+    anchorNote: (radiusKm: number, anchorName: string) => string;
+    preferencesNote: (descriptions: string) => string;
+    outroMultiple: string;
+    outroSingle: string;
+  };
+  clarification: {
+    question: (missing: string) => string;
+    and: string;
+    missing: { intent: string; location: string; dates: string };
+    labels: {
+      intent: string;
+      location: string;
+      dates: string;
+      partySize: string;
+    };
+    serviceReplies: Record<PartnerData["type"], string>;
+    locationReply: (destination: string) => string;
+    dateReply: (start: string, end: string) => string;
+    partySizeReply: (size: number) => string;
+    presets: { thisWeekend: string; nextWeekend: string; nextWeek: string };
+  };
+  fallback: {
+    found: (location: string | undefined, results: string) => string;
+    empty: (location: string | undefined) => string;
+  };
+  /** Risposte alle richieste bloccate dai guardrail */
+  guardrails: {
+    prompt_injection: string;
+    abusive: string;
+    off_topic: string;
+  };
+  preferences: {
+    budgetRange: (level: number) => string;
+    preferredCurrency: (currency: string) => string;
+    dietaryRestrictions: (restrictions: string) => string;
+  };
+  planning: {
+    analyzingPartners: (count: number) => string;
+    optimizingGeography: string;
+    creatingItinerary: string;
+    addingRecommendations: string;
+    finalizingPlan: string;
+    budgetExceeded: string;
+  };
+}
+
+export const AGENT_MESSAGES: Record<Locale, AgentMessages> = {
+  it: {
+    typeLabels: {
+      hotel: "hotel",
+      restaurant: "ristoranti",
+      tour: "tour",
+      shuttle: "transfer",
+      experience: "esperienze",
+    },
+    aggregated: {
+      noResults:
+        "Mi dispiace, non ho trovato risultati per la tua ricerca. Prova con termini diversi o contatta il nostro team per assistenza personalizzata.",
+      introGeneral: count =>
+        `Fantastico! Ho trovato ${count} opzioni perfette per il tuo viaggio:`,
+      introSpecific: (count, typeLabel) =>
+        `Ottimo! Ho trovato ${count} ${typeLabel} che fanno al caso tuo:`,
+      optionsFound: count => `${count} opzioni trovate`,
+      anchorNote: (radiusKm, anchorName) =>
+        `📍 Ristoranti, tour, esperienze e transfer entro ${radiusKm} km da **${anchorName}**.`,
+      preferencesNote: descriptions =>
+        `⚙️ Ho tenuto conto delle tue preferenze: ${descriptions}.`,
+      outroMultiple:
+        "Tutte le opzioni sono visualizzate qui sotto con i dettagli completi. Fammi sapere se vuoi approfondire qualche categoria specifica!",
+      outroSingle: "Dettagli completi disponibili nelle card qui sotto!",
+    },
+    clarification: {
+      question: missing =>
+        `Per trovare le opzioni giuste mi serve ancora qualche dettaglio: ${missing}?`,
+      and: "e",
+      missing: {
+        intent: "cosa stai cercando",
+        location: "dove vuoi andare",
+        dates: "in quali date",
+      },
+      labels: {
+        intent: "Cosa stai cercando?",
+        location: "Dove vuoi andare?",
+        dates: "Quando?",
+        partySize: "Quante persone?",
+      },
+      serviceReplies: {
+        hotel: "cerco un hotel",
+        restaurant: "cerco un ristorante",
+        tour: "cerco un tour",
+        experience: "cerco un'esperienza",
+        shuttle: "cerco un transfer",
+      },
+      locationReply: destination => `a ${destination}`,
+      dateReply: (start, end) => `dal ${start} al ${end}`,
+      partySizeReply: size =>
+        size === 1 ? "per 1 persona" : `per ${size} persone`,
+      presets: {
+        thisWeekend: "Questo weekend",
+        nextWeekend: "Prossimo weekend",
+        nextWeek: "Settimana prossima",
+      },
+    },
+    fallback: {
+      found: (location, results) =>
+        `Hai raggiunto il limite giornaliero dell'assistente AI, quindi ho usato la ricerca standard${location ? ` per ${location}` : ""}: ho trovato ${results}. L'assistente completo tornerà disponibile domani.`,
+      empty: location =>
+        `Hai raggiunto il limite giornaliero dell'assistente AI, quindi ho usato la ricerca standard, ma non ho trovato risultati${location ? ` per ${location}` : ""}. Prova la ricerca con i filtri o riprova domani con l'assistente completo.`,
+    },
+    guardrails: {
+      prompt_injection:
+        "Non posso eseguire questa richiesta. Dimmi pure cosa cerchi per il tuo viaggio: hotel, ristoranti, tour, esperienze o transfer.",
+      abusive:
+        "Manteniamo la conversazione rispettosa. Sono qui per aiutarti a organizzare il tuo viaggio in Italia.",
+      off_topic:
+        "Posso aiutarti solo con viaggi in Italia: hotel, ristoranti, tour, esperienze e transfer.",
+    },
+    preferences: {
+      budgetRange: level =>
+        `Hotel con fascia di prezzo fino a ${level}/5, dal tuo budget`,
+      preferredCurrency: currency =>
+        `Prezzi degli hotel in ${currency}, la tua valuta preferita`,
+      dietaryRestrictions: restrictions =>
+        `Ristoranti con opzioni ${restrictions}, dalle tue restrizioni alimentari`,
+    },
+    planning: {
+      analyzingPartners: count => `Analizzando ${count} partner selezionati...`,
+      optimizingGeography:
+        "Ottimizzando disposizione geografica e logistica...",
+      creatingItinerary: "Creazione itinerario dettagliato in corso...",
+      addingRecommendations: "Aggiungendo consigli esperti e finalizzazione...",
+      finalizingPlan: "Piano di viaggio completato!",
+      budgetExceeded:
+        "Hai raggiunto il limite giornaliero dell'assistente AI. Potrai creare nuovi piani di viaggio domani.",
+    },
+  },
+  en: {
+    typeLabels: {
+      hotel: "hotels",
+      restaurant: "restaurants",
+      tour: "tours",
+      shuttle: "transfers",
+      experience: "experiences",
+    },
+    aggregated: {
+      noResults:
+        "Sorry, I couldn't find any results for your search. Try different terms or contact our team for personal assistance.",
+      introGeneral: count =>
+        `Great! I found ${count} perfect options for your trip:`,
+      introSpecific: (count, typeLabel) =>
+        `Great! I found ${count} ${typeLabel} that suit you:`,
+      optionsFound: count => `${count} options found`,
+      anchorNote: (radiusKm, anchorName) =>
+        `📍 Restaurants, tours, experiences and transfers within ${radiusKm} km of **${anchorName}**.`,
+      preferencesNote: descriptions =>
+        `⚙️ I took your preferences into account: ${descriptions}.`,
+      outroMultiple:
+        "All options are shown below with full details. Let me know if you'd like to explore a specific category!",
+      outroSingle: "Full details are available in the cards below!",
+    },
+    clarification: {
+      question: missing =>
+        `To find the right options I need a few more details: ${missing}?`,
+      and: "and",
+      missing: {
+        intent: "what you are looking for",
+        location: "where you want to go",
+        dates: "which dates",
+      },
+      labels: {
+        intent: "What are you looking for?",
+        location: "Where do you want to go?",
+        dates: "When?",
+        partySize: "How many people?",
+      },
+      serviceReplies: {
+        hotel: "I'm looking for a hotel",
+        restaurant: "I'm looking for a restaurant",
+        tour: "I'm looking for a tour",
+        experience: "I'm looking for an experience",
+        shuttle: "I'm looking for a transfer",
+      },
+      locationReply: destination => `in ${destination}`,
+      dateReply: (start, end) => `from ${start} to ${end}`,
+      partySizeReply: size =>
+        size === 1 ? "for 1 person" : `for ${size} people`,
+      presets: {
+        thisWeekend: "This weekend",
+        nextWeekend: "Next weekend",
+        nextWeek: "Next week",
+      },
+    },
+    fallback: {
+      found: (location, results) =>
+        `You've reached the daily limit of the AI assistant, so I used the standard search${location ? ` for ${location}` : ""}: I found ${results}. The full assistant will be available again tomorrow.`,
+      empty: location =>
+        `You've reached the daily limit of the AI assistant, so I used the standard search, but found no results${location ? ` for ${location}` : ""}. Try the search filters or come back tomorrow for the full assistant.`,
+    },
+    guardrails: {
+      prompt_injection:
+        "I can't carry out this request. Tell me what you're looking for on your trip: hotels, restaurants, tours, experiences or transfers.",
+      abusive:
+        "Let's keep the conversation respectful. I'm here to help you plan your trip to Italy.",
+      off_topic:
+        "I can only help with travel in Italy: hotels, restaurants, tours, experiences and transfers.",
+    },
+    preferences: {
+      budgetRange: level => `Hotels priced up to ${level}/5, from your budget`,
+      preferredCurrency: currency =>
+        `Hotel prices in ${currency}, your preferred currency`,
+      dietaryRestrictions: restrictions =>
+        `Restaurants with ${restrictions} options, from your dietary restrictions`,
+    },
+    planning: {
+      analyzingPartners: count => `Analysing ${count} selected partners...`,
+      optimizingGeography: "Optimising geography and logistics...",
+      creatingItinerary: "Creating a detailed itinerary...",
+      addingRecommendations: "Adding expert tips and finishing up...",
+      finalizingPlan: "Travel plan ready!",
+      budgetExceeded:
+        "You've reached the daily limit of the AI assistant. You can create new travel plans tomorrow.",
+    },
+  },
+  fr: {
+    typeLabels: {
+      hotel: "hôtels",
+      restaurant: "restaurants",
+      tour: "visites",
+      shuttle: "transferts",
+      experience: "expériences",
+    },
+    aggregated: {
+      noResults:
+        "Désolé, je n'ai trouvé aucun résultat pour votre recherche. Essayez d'autres termes ou contactez notre équipe pour une assistance personnalisée.",
+      introGeneral: count =>
+        `Fantastique ! J'ai trouvé ${count} options parfaites pour votre voyage :`,
+      introSpecific: (count, typeLabel) =>
+        `Parfait ! J'ai trouvé ${count} ${typeLabel} qui vous correspondent :`,
+      optionsFound: count => `${count} options trouvées`,
+      anchorNote: (radiusKm, anchorName) =>
+        `📍 Restaurants, visites, expériences et transferts à moins de ${radiusKm} km de **${anchorName}**.`,
+      preferencesNote: descriptions =>
+        `⚙️ J'ai tenu compte de vos préférences : ${descriptions}.`,
+      outroMultiple:
+        "Toutes les options sont affichées ci-dessous avec tous les détails. Dites-moi si vous souhaitez approfondir une catégorie !",
+      outroSingle: "Tous les détails sont dans les fiches ci-dessous !",
+    },
+    clarification: {
+      question: missing =>
+        `Pour trouver les bonnes options, il me manque encore quelques détails : ${missing} ?`,
+      and: "et",
+      missing: {
+        intent: "ce que vous cherchez",
+        location: "où vous voulez aller",
+        dates: "à quelles dates",
+      },
+      labels: {
+        intent: "Que cherchez-vous ?",
+        location: "Où voulez-vous aller ?",
+        dates: "Quand ?",
+        partySize: "Combien de personnes ?",
+      },
+      serviceReplies: {
+        hotel: "je cherche un hôtel",
+        restaurant: "je cherche un restaurant",
+        tour: "je cherche une visite guidée",
+        experience: "je cherche une expérience",
+        shuttle: "je cherche un transfert",
+      },
+      locationReply: destination => `à ${destination}`,
+      dateReply: (start, end) => `du ${start} au ${end}`,
+      partySizeReply: size =>
+        size === 1 ? "pour 1 personne" : `pour ${size} personnes`,
+      presets: {
+        thisWeekend: "Ce week-end",
+        nextWeekend: "Le week-end prochain",
+        nextWeek: "La semaine prochaine",
+      },
+    },
+    fallback: {
+      found: (location, results) =>
+        `Vous avez atteint la limite quotidienne de l'assistant IA, j'ai donc utilisé la recherche standard${location ? ` pour ${location}` : ""} : j'ai trouvé ${results}. L'assistant complet sera de nouveau disponible demain.`,
+      empty: location =>
+        `Vous avez atteint la limite quotidienne de l'assistant IA, j'ai donc utilisé la recherche standard, sans trouver de résultats${location ? ` pour ${location}` : ""}. Essayez les filtres de recherche ou revenez demain pour l'assistant complet.`,
+    },
+    guardrails: {
+      prompt_injection:
+        "Je ne peux pas traiter cette demande. Dites-moi ce que vous cherchez pour votre voyage : hôtels, restaurants, visites, expériences ou transferts.",
+      abusive:
+        "Gardons une conversation respectueuse. Je suis là pour vous aider à organiser votre voyage en Italie.",
+      off_topic:
+        "Je peux uniquement vous aider pour des voyages en Italie : hôtels, restaurants, visites, expériences et transferts.",
+    },
+    preferences: {
+      budgetRange: level =>
+        `Hôtels dans une gamme de prix jusqu'à ${level}/5, selon votre budget`,
+      preferredCurrency: currency =>
+        `Prix des hôtels en ${currency}, votre devise préférée`,
+      dietaryRestrictions: restrictions =>
+        `Restaurants avec options ${restrictions}, selon vos restrictions alimentaires`,
+    },
+    planning: {
+      analyzingPartners: count =>
+        `Analyse de ${count} partenaires sélectionnés...`,
+      optimizingGeography:
+        "Optimisation de la géographie et de la logistique...",
+      creatingItinerary: "Création de l'itinéraire détaillé...",
+      addingRecommendations: "Ajout des conseils d'expert et finalisation...",
+      finalizingPlan: "Plan de voyage prêt !",
+      budgetExceeded:
+        "Vous avez atteint la limite quotidienne de l'assistant IA. Vous pourrez créer de nouveaux plans de voyage demain.",
+    },
+  },
+  de: {
+    typeLabels: {
+      hotel: "Hotels",
+      restaurant: "Restaurants",
+      tour: "Touren",
+      shuttle: "Transfers",
+      experience: "Erlebnisse",
+    },
+    aggregated: {
+      noResults:
+        "Leider habe ich für deine Suche keine Ergebnisse gefunden. Versuche es mit anderen Begriffen oder kontaktiere unser Team für persönliche Unterstützung.",
+      introGeneral: count =>
+        `Fantastisch! Ich habe ${count} passende Optionen für deine Reise gefunden:`,
+      introSpecific: (count, typeLabel) =>
+        `Super! Ich habe ${count} ${typeLabel} gefunden, die zu dir passen:`,
+      optionsFound: count => `${count} Optionen gefunden`,
+      anchorNote: (radiusKm, anchorName) =>
+        `📍 Restaurants, Touren, Erlebnisse und Transfers im Umkreis von ${radiusKm} km um **${anchorName}**.`,
+      preferencesNote: descriptions =>
+        `⚙️ Ich habe deine Vorlieben berücksichtigt: ${descriptions}.`,
+      outroMultiple:
+        "Alle Optionen findest du unten mit allen Details. Sag mir, wenn du eine Kategorie genauer ansehen möchtest!",
+      outroSingle: "Alle Details findest du in den Karten unten!",
+    },
+    clarification: {
+      question: missing =>
+        `Um die richtigen Optionen zu finden, brauche ich noch ein paar Details: ${missing}?`,
+      and: "und",
+      missing: {
+        intent: "was du suchst",
+        location: "wohin du reisen möchtest",
+        dates: "an welchen Tagen",
+      },
+      labels: {
+        intent: "Was suchst du?",
+        location: "Wohin möchtest du?",
+        dates: "Wann?",
+        partySize: "Wie viele Personen?",
+      },
+      serviceReplies: {
+        hotel: "ich suche ein Hotel",
+        restaurant: "ich suche ein Restaurant",
+        tour: "ich suche eine Tour",
+        experience: "ich suche ein Erlebnis",
+        shuttle: "ich suche einen Transfer",
+      },
+      locationReply: destination => `in ${destination}`,
+      dateReply: (start, end) => `vom ${start} bis ${end}`,
+      partySizeReply: size =>
+        size === 1 ? "für 1 Person" : `für ${size} Personen`,
+      presets: {
+        thisWeekend: "Dieses Wochenende",
+        nextWeekend: "Nächstes Wochenende",
+        nextWeek: "Nächste Woche",
+      },
+    },
+    fallback: {
+      found: (location, results) =>
+        `Du hast das Tageslimit des KI-Assistenten erreicht, daher habe ich die Standardsuche verwendet${location ? ` für ${location}` : ""}: gefunden habe ich ${results}. Der vollständige Assistent ist morgen wieder verfügbar.`,
+      empty: location =>
+        `Du hast das Tageslimit des KI-Assistenten erreicht, daher habe ich die Standardsuche verwendet, aber keine Ergebnisse gefunden${location ? ` für ${location}` : ""}. Nutze die Suchfilter oder versuche es morgen mit dem vollständigen Assistenten.`,
+    },
+    guardrails: {
+      prompt_injection:
+        "Diese Anfrage kann ich nicht ausführen. Sag mir, was du für deine Reise suchst: Hotels, Restaurants, Touren, Erlebnisse oder Transfers.",
+      abusive:
+        "Lass uns respektvoll bleiben. Ich helfe dir gerne bei der Planung deiner Italienreise.",
+      off_topic:
+        "Ich kann dir nur bei Reisen in Italien helfen: Hotels, Restaurants, Touren, Erlebnisse und Transfers.",
+    },
+    preferences: {
+      budgetRange: level =>
+        `Hotels mit Preisniveau bis ${level}/5, nach deinem Budget`,
+      preferredCurrency: currency =>
+        `Hotelpreise in ${currency}, deiner bevorzugten Währung`,
+      dietaryRestrictions: restrictions =>
+        `Restaurants mit ${restrictions} Optionen, nach deinen Ernährungsvorgaben`,
+    },
+    planning: {
+      analyzingPartners: count =>
+        `${count} ausgewählte Partner werden analysiert...`,
+      optimizingGeography: "Geografie und Logistik werden optimiert...",
+      creatingItinerary: "Detaillierter Reiseplan wird erstellt...",
+      addingRecommendations: "Expertentipps werden ergänzt...",
+      finalizingPlan: "Reiseplan fertig!",
+      budgetExceeded:
+        "Du hast das Tageslimit des KI-Assistenten erreicht. Neue Reisepläne kannst du morgen erstellen.",
+    },
+  },
+  es: {
+    typeLabels: {
+      hotel: "hoteles",
+      restaurant: "restaurantes",
+      tour: "tours",
+      shuttle: "traslados",
+      experience: "experiencias",
+    },
+    aggregated: {
+      noResults:
+        "Lo siento, no he encontrado resultados para tu búsqueda. Prueba con otros términos o contacta con nuestro equipo para una atención personalizada.",
+      introGeneral: count =>
+        `¡Fantástico! He encontrado ${count} opciones perfectas para tu viaje:`,
+      introSpecific: (count, typeLabel) =>
+        `¡Genial! He encontrado ${count} ${typeLabel} ideales para ti:`,
+      optionsFound: count => `${count} opciones encontradas`,
+      anchorNote: (radiusKm, anchorName) =>
+        `📍 Restaurantes, tours, experiencias y traslados a menos de ${radiusKm} km de **${anchorName}**.`,
+      preferencesNote: descriptions =>
+        `⚙️ He tenido en cuenta tus preferencias: ${descriptions}.`,
+      outroMultiple:
+        "Todas las opciones aparecen abajo con todos los detalles. ¡Dime si quieres profundizar en alguna categoría!",
+      outroSingle: "¡Tienes todos los detalles en las fichas de abajo!",
+    },
+    clarification: {
+      question: missing =>
+        `Para encontrar las opciones adecuadas necesito algunos detalles más: ${missing}?`,
+      and: "y",
+      missing: {
+        intent: "qué estás buscando",
+        location: "adónde quieres ir",
+        dates: "en qué fechas",
+      },
+      labels: {
+        intent: "¿Qué estás buscando?",
+        location: "¿Adónde quieres ir?",
+        dates: "¿Cuándo?",
+        partySize: "¿Cuántas personas?",
+      },
+      serviceReplies: {
+        hotel: "busco un hotel",
+        restaurant: "busco un restaurante",
+        tour: "busco un tour",
+        experience: "busco una experiencia",
+        shuttle: "busco un traslado",
+      },
+      locationReply: destination => `en ${destination}`,
+      dateReply: (start, end) => `del ${start} al ${end}`,
+      partySizeReply: size =>
+        size === 1 ? "para 1 persona" : `para ${size} personas`,
+      presets: {
+        thisWeekend: "Este fin de semana",
+        nextWeekend: "El próximo fin de semana",
+        nextWeek: "La próxima semana",
+      },
+    },
+    fallback: {
+      found: (location, results) =>
+        `Has alcanzado el límite diario del asistente de IA, así que he usado la búsqueda estándar${location ? ` para ${location}` : ""}: he encontrado ${results}. El asistente completo volverá a estar disponible mañana.`,
+      empty: location =>
+        `Has alcanzado el límite diario del asistente de IA, así que he usado la búsqueda estándar, pero no he encontrado resultados${location ? ` para ${location}` : ""}. Prueba los filtros de búsqueda o vuelve mañana para usar el asistente completo.`,
+    },
+    guardrails: {
+      prompt_injection:
+        "No puedo atender esta solicitud. Dime qué buscas para tu viaje: hoteles, restaurantes, tours, experiencias o traslados.",
+      abusive:
+        "Mantengamos una conversación respetuosa. Estoy aquí para ayudarte a organizar tu viaje a Italia.",
+      off_topic:
+        "Solo puedo ayudarte con viajes por Italia: hoteles, restaurantes, tours, experiencias y traslados.",
+    },
+    preferences: {
+      budgetRange: level =>
+        `Hoteles con nivel de precio hasta ${level}/5, según tu presupuesto`,
+      preferredCurrency: currency =>
+        `Precios de hoteles en ${currency}, tu moneda preferida`,
+      dietaryRestrictions: restrictions =>
+        `Restaurantes con opciones ${restrictions}, según tus restricciones alimentarias`,
+    },
+    planning: {
+      analyzingPartners: count => `Analizando ${count} socios seleccionados...`,
+      optimizingGeography: "Optimizando geografía y logística...",
+      creatingItinerary: "Creando el itinerario detallado...",
+      addingRecommendations: "Añadiendo consejos de expertos y finalizando...",
+      finalizingPlan: "¡Plan de viaje listo!",
+      budgetExceeded:
+        "Has alcanzado el límite diario del asistente de IA. Podrás crear nuevos planes de viaje mañana.",
+    },
+  },
+};
+
+export function getAgentMessages(language: Locale): AgentMessages {
+  return AGENT_MESSAGES[language];
+}
@@ -1,63 +1,222 @@
-import { run } from "@openai/agents";
+import { Runner } from "@openai/agents";
 import { hotelAgent } from "./hotel-agent";
 import { restaurantAgent } from "./restaurant-agent";
 import { tourAgent } from "./tour-agent";
 import { shuttleAgent } from "./shuttle-agent";
-import type { PartnerData } from "@/types";
-
-interface QueryAnalysis {
-  detectedTypes: PartnerData["type"][];
-  confidence: Record<PartnerData["type"], number>;
-  isGeneral: boolean;
-  primaryType?: PartnerData["type"];
-  searchTerms: {
-    location?: string;
-    timeframe?: string;
-    occasion?: string;
-    budget?: string;
-    groupSize?: string;
-    generalTravelConfidence?: number;
-    hasDateRange?: boolean;
-    isGeneralTripPlanning?: boolean;
-  };
-}
+import { experienceAgent } from "./experience-agent";
+import { classifyUserQuery, type QueryAnalysis } from "./query-classifier";
+import { rankPartners } from "./ranking";
+import { detectClarificationNeed } from "./clarification";
+import {
+  DEFAULT_LOCALE,
+  describeLanguageForAgents,
+  resolveLanguage,
+} from "./language";
+import { getAgentMessages } from "./messages";
+import { UNTRUSTED_DATA_NOTICE } from "./guardrails";
+import {
+  describePreferencesForAgents,
+  summarizeAppliedPreferences,
+  type TravelPreferences,
+} from "./user-preferences";
+import {
+  ANCHOR_RADIUS_KM,
+  distanceKm,
+  readCoordinates,
+  type LocationAnchor,
+} from "./location-anchor";
+import {
+  createToolResultCollector,
+  type ToolPartner,
+  type ToolResultCollector,
+  type ToolResultError,
+} from "./tool-result";
+import {
+  createAgentTrace,
+  createOrchestrationTrace,
+  finishOrchestrationTrace,
+  saveOrchestrationTrace,
+  traceAgentRun,
+  type OrchestrationTrace,
+  type TraceOptions,
+} from "./tracing";
+import { agentModelName, recordLlmUsage } from "../llm-usage";
+import { LLM_PROVIDER } from "../models";
+import type {
+  AppliedPreference,
+  ClarificationRequest,
+  Locale,
+  PartnerData,
+} from "@/types";
+
+const AGENT_TIMEOUT_MS = parseInt(process.env.AGENT_TIMEOUT_MS || "45000");
+const ORCHESTRATION_TIMEOUT_MS = parseInt(
+  process.env.ORCHESTRATION_TIMEOUT_MS || "90000"
+);
+
+type AgentStatus = "completed" | "failed" | "timed_out";
 
 interface AgentResult {
   agentType: PartnerData["type"];
   success: boolean;
+  status: AgentStatus;
   message: string;
   partners: PartnerData[];
   executionTime: number;
   error?: string;
+  /** Tool falliti o con output non conforme a ToolPartnerResult */
+  toolErrors?: ToolResultError[];
 }
 
 interface ProgressUpdate {
   type: "analyzing" | "agent_start" | "agent_complete" | "finalizing";
   agent?: PartnerData["type"];
+  status?: AgentStatus;
   partnersFound?: number;
+  /** Partner trovati dall'agente e non ancora inviati da altri agenti */
+  partners?: PartnerData[];
   message: string;
   timestamp: number;
 }
 
 type ProgressCallback = (update: ProgressUpdate) => void;
 
+interface OrchestrationOptions {
+  /** Interrompe analisi, agenti e chiamate esterne (es. client SSE disconnesso) */
+  signal?: AbortSignal;
+  /** Tempo massimo per singolo agente */
+  agentTimeoutMs?: number;
+  /** Tempo massimo per l'intera fase di ricerca degli agenti */
+  totalTimeoutMs?: number;
+  /** Conversazione e utente a cui collegare la traccia salvata */
+  trace?: TraceOptions;
+  /**
+   * Con query ambigue o senza destinazione/date restituisce una domanda di
+   * chiarimento invece di avviare gli agenti
+   */
+  allowClarification?: boolean;
+  /** Preferenze salvate nel profilo dell'utente autenticato */
+  preferences?: TravelPreferences;
+  /**
+   * Lingua delle risposte. Se assente viene riconosciuta dalla query,
+   * con l'italiano come ripiego.
+   */
+  language?: Locale;
+}
+
+interface ExecutionControl {
+  signal?: AbortSignal;
+  deadline: AbortSignal;
+  agentTimeoutMs: number;
+  /** ID dei partner già inviati con agent_complete */
+  emittedPartnerIds: Set<string>;
+  /** Hotel di riferimento per le ricerche dipendenti */
+  anchor?: LocationAnchor;
+  /** Traccia dell'esecuzione, salvata al termine dell'orchestrazione */
+  trace: OrchestrationTrace;
+  preferences?: TravelPreferences;
+  /** Preferenze usate dai tool come filtri predefiniti */
+  appliedPreferences: AppliedPreference[];
+  language: Locale;
+}
+
+const AGENT_MAP = {
+  hotel: hotelAgent,
+  restaurant: restaurantAgent,
+  tour: tourAgent,
+  shuttle: shuttleAgent,
+  experience: experienceAgent,
+};
+
+/**
+ * Nomi delle città in inglese, francese, tedesco e spagnolo
+ */
+const LOCATION_ALIASES: Record<string, string> = {
+  rome: "roma",
+  rom: "roma",
+  mailand: "milano",
+  milán: "milano",
+  florence: "firenze",
+  florenz: "firenze",
+  florencia: "firenze",
+  venice: "venezia",
+  venise: "venezia",
+  venedig: "venezia",
+  venecia: "venezia",
+  naples: "napoli",
+  neapel: "napoli",
+  nápoles: "napoli",
+  turin: "torino",
+  bologne: "bologna",
+  bolonia: "bologna",
+  "amalfi coast": "costiera amalfitana",
+  "côte amalfitaine": "costiera amalfitana",
+  amalfiküste: "costiera amalfitana",
+  "costa amalfitana": "costiera amalfitana",
+};
+
+class AgentTimeoutError extends Error {
+  constructor(agentType: PartnerData["type"], timeoutMs: number) {
+    super(`${agentType} agent did not finish within ${timeoutMs}ms`);
+    this.name = "AgentTimeoutError";
+  }
+}
+
 interface OrchestratorResult {
   success: boolean;
+  /** ID della traccia salvata in agent_traces */
+  traceId: string;
   message: string;
   partners: PartnerData[];
   agentResults: AgentResult[];
+  /** Presente quando gli agenti non sono stati avviati in attesa di dettagli */
+  clarification?: ClarificationRequest;
   executionSummary: {
     totalAgentsUsed: number;
     totalExecutionTime: number;
     totalPartnersFound: number;
     analysisConfidence: number;
+    analysisSource: QueryAnalysis["source"];
+    timedOutAgents: PartnerData["type"][];
+    toolErrors: ToolResultError[];
+    anchor?: LocationAnchor;
+    /** Destinazione della richiesta, per riconoscerla nella risposta */
+    searchLocation?: string;
+    appliedPreferences: AppliedPreference[];
   };
 }
 
 /**
- * Analizza la query dell'utente per determinare quali agenti attivare
+ * Analizza la query dell'utente per determinare quali agenti attivare.
+ * Usa il classificatore LLM e ripiega sul punteggio a parole chiave
+ * se il modello non è disponibile o restituisce un output non valido.
+ * Con il provider simulato usa direttamente le parole chiave.
+ */
+export async function analyzeUserQuery(
+  query: string,
+  conversationHistory: Array<{ role: string; content: string }> = [],
+  signal?: AbortSignal
+): Promise<QueryAnalysis> {
+  if (LLM_PROVIDER === "mock") {
+    return analyzeUserQueryWithKeywords(query);
+  }
+
+  try {
+    return await classifyUserQuery(query, conversationHistory, signal);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn(
+      "[ORCHESTRATOR] Query classifier unavailable, using keyword fallback:",
+      error instanceof Error ? error.message : error
+    );
+    return analyzeUserQueryWithKeywords(query);
+  }
+}
+
+/**
+ * Analisi deterministica basata su pattern di parole chiave
  */
-export function analyzeUserQuery(query: string): QueryAnalysis {
+export function analyzeUserQueryWithKeywords(query: string): QueryAnalysis {
   const queryLower = query.toLowerCase();
 
   // Pattern recognition per tipi di partner
@@ -129,6 +288,23 @@ export function analyzeUserQuery(query: string): QueryAnalysis {
     "bike",
   ];
 
+  const experiencePatterns = [
+    "corso di cucina",
+    "lezione di cucina",
+    "cooking class",
+    "cooking",
+    "degustazione",
+    "wine tasting",
+    "tasting",
+    "cantina",
+    "laboratorio",
+    "workshop",
+    "artigiano",
+    "masterclass",
+    "pasta fresca",
+    "esperienza",
+  ];
+
   const shuttlePatterns = [
     "trasporto",
     "navetta",
@@ -177,23 +353,141 @@ export function analyzeUserQuery(query: string): QueryAnalysis {
     "mesi",
   ];
 
+  // Pattern in francese, tedesco e spagnolo: valutati in una lista a parte
+  // per non diluire il punteggio delle query in italiano e inglese
+  const foreignPatterns: Record<PartnerData["type"] | "general", string[]> = {
+    hotel: [
+      "hôtel",
+      "chambre",
+      "hébergement",
+      "nuit",
+      "unterkunft",
+      "zimmer",
+      "übernachtung",
+      "übernachten",
+      "nacht",
+      "habitación",
+      "alojamiento",
+      "hospedaje",
+      "noche",
+      "dormir",
+    ],
+    restaurant: [
+      "restaurant",
+      "dîner",
+      "déjeuner",
+      "manger",
+      "gastronomique",
+      "abendessen",
+      "mittagessen",
+      "essen",
+      "küche",
+      "restaurante",
+      "cenar",
+      "comer",
+      "comida",
+      "almuerzo",
+    ],
+    tour: [
+      "visite",
+      "excursion",
+      "guidée",
+      "musée",
+      "führung",
+      "ausflug",
+      "besichtigung",
+      "stadtrundgang",
+      "museum",
+      "visita guiada",
+      "excursión",
+      "recorrido",
+      "museo",
+    ],
+    experience: [
+      "cours de cuisine",
+      "dégustation",
+      "atelier",
+      "expérience",
+      "kochkurs",
+      "weinprobe",
+      "verkostung",
+      "erlebnis",
+      "clase de cocina",
+      "cata de vinos",
+      "degustación",
+      "taller",
+      "experiencia",
+    ],
+    shuttle: [
+      "navette",
+      "transfert",
+      "aéroport",
+      "gare",
+      "flughafen",
+      "bahnhof",
+      "abholung",
+      "traslado",
+      "aeropuerto",
+      "estación",
+      "transporte",
+    ],
+    general: [
+      "voyage",
+      "séjour",
+      "vacances",
+      "organiser",
+      "itinéraire",
+      "reise",
+      "urlaub",
+      "planen",
+      "reiseplan",
+      "viaje",
+      "vacaciones",
+      "organizar",
+      "planificar",
+      "famille",
+      "familie",
+      "familia",
+    ],
+  };
+
   // Check for general travel planning patterns first
-  const generalTravelConfidence = calculatePatternConfidence(
-    queryLower,
-    generalTravelPatterns
+  const generalTravelConfidence = Math.max(
+    calculatePatternConfidence(queryLower, generalTravelPatterns),
+    calculatePatternConfidence(queryLower, foreignPatterns.general)
   );
   const hasDateRange =
     /\b(dal|from)\b.*\b(al|to)\b/.test(queryLower) ||
+    /\b(du|vom|del)\s+\d{1,2}\b.*\b(au|bis|al)\s+\d{1,2}\b/.test(queryLower) ||
     /\b\d{1,2}\s*(gennaio|febbraio|marzo|aprile|maggio|giugno|luglio|agosto|settembre|ottobre|novembre|dicembre)\b/.test(
       queryLower
+    ) ||
+    /\b\d{1,2}\.?\s*(de\s+)?(janvier|février|mars|avril|mai|juin|juillet|août|septembre|octobre|novembre|décembre|januar|februar|märz|april|juni|juli|august|oktober|dezember|enero|febrero|abril|mayo|junio|julio|agosto|septiembre|octubre|noviembre|diciembre)(?!\p{L})/u.test(
+      queryLower
     );
 
   // Calcola confidence scores
   const confidence: Record<PartnerData["type"], number> = {
-    hotel: calculatePatternConfidence(queryLower, hotelPatterns),
-    restaurant: calculatePatternConfidence(queryLower, restaurantPatterns),
-    tour: calculatePatternConfidence(queryLower, tourPatterns),
-    shuttle: calculatePatternConfidence(queryLower, shuttlePatterns),
+    hotel: Math.max(
+      calculatePatternConfidence(queryLower, hotelPatterns),
+      calculatePatternConfidence(queryLower, foreignPatterns.hotel)
+    ),
+    restaurant: Math.max(
+      calculatePatternConfidence(queryLower, restaurantPatterns),
+      calculatePatternConfidence(queryLower, foreignPatterns.restaurant)
+    ),
+    tour: Math.max(
+      calculatePatternConfidence(queryLower, tourPatterns),
+      calculatePatternConfidence(queryLower, foreignPatterns.tour)
+    ),
+    shuttle: Math.max(
+      calculatePatternConfidence(queryLower, shuttlePatterns),
+      calculatePatternConfidence(queryLower, foreignPatterns.shuttle)
+    ),
+    experience: Math.max(
+      calculatePatternConfidence(queryLower, experiencePatterns),
+      calculatePatternConfidence(queryLower, foreignPatterns.experience)
+    ),
   };
 
   // Determina se è una query generale per trip planning
@@ -206,7 +500,7 @@ export function analyzeUserQuery(query: string): QueryAnalysis {
   // Se è general trip planning, attiva tutti gli agenti
   let detectedTypes: PartnerData["type"][];
   if (isGeneralTripPlanning) {
-    detectedTypes = ["hotel", "restaurant", "tour", "shuttle"];
+    detectedTypes = ["hotel", "restaurant", "tour", "shuttle", "experience"];
   } else {
     // Determina tipi rilevati (soglia minima 0.15 per essere più selettivi)
     detectedTypes = Object.entries(confidence)
@@ -217,7 +511,7 @@ export function analyzeUserQuery(query: string): QueryAnalysis {
 
   // Fallback se nessun tipo rilevato ma c'è una location
   if (detectedTypes.length === 0 && extractSearchTerms(query).location) {
-    detectedTypes = ["hotel", "restaurant", "tour", "shuttle"];
+    detectedTypes = ["hotel", "restaurant", "tour", "shuttle", "experience"];
   }
 
   // Determina se è una query generale
@@ -233,7 +527,7 @@ export function analyzeUserQuery(query: string): QueryAnalysis {
     detectedTypes:
       detectedTypes.length > 0
         ? detectedTypes
-        : ["hotel", "restaurant", "tour", "shuttle"],
+        : ["hotel", "restaurant", "tour", "shuttle", "experience"],
     confidence,
     isGeneral,
     primaryType: detectedTypes[0],
@@ -243,6 +537,7 @@ export function analyzeUserQuery(query: string): QueryAnalysis {
       hasDateRange,
       isGeneralTripPlanning,
     },
+    source: "keywords",
   };
 }
 
@@ -282,23 +577,24 @@ function extractSearchTerms(query: string): QueryAnalysis["searchTerms"] {
     "bologna",
     "centro",
     "centro storico",
+    "costiera amalfitana",
     "near",
     "vicino",
     "zona",
     "quartiere",
   ];
 
-  // Budget patterns
-  const budgetPatterns = [
-    "economico",
-    "budget",
-    "cheap",
-    "lusso",
-    "luxury",
-    "premium",
-    "costoso",
-    "expensive",
-  ];
+  // Budget patterns, con la fascia di prezzo usata dal classificatore LLM
+  const budgetPatterns: Record<string, string> = {
+    economico: "budget",
+    budget: "budget",
+    cheap: "budget",
+    lusso: "luxury",
+    luxury: "luxury",
+    premium: "premium",
+    costoso: "luxury",
+    expensive: "luxury",
+  };
 
   // Group size patterns
   const groupPatterns = [
@@ -329,14 +625,47 @@ function extractSearchTerms(query: string): QueryAnalysis["searchTerms"] {
     "wedding",
   ];
 
+  // Proximity patterns (dependent searches around the hotel)
+  const proximityPatterns = [
+    "vicino",
+    "vicini",
+    "nei dintorni",
+    "a piedi",
+    "near",
+    "nearby",
+    "close to",
+    "walking distance",
+    "près de",
+    "à proximité",
+    "à pied",
+    "in der nähe",
+    "zu fuß",
+    "cerca de",
+    "a pie",
+  ];
+
+  // Timeframe patterns (whole words: "oggi" is also in "soggiorno")
+  const timeframePattern =
+    /(?<!\p{L})(oggi|stasera|domani|weekend|fine settimana|prossima settimana|tonight|tomorrow|next week|ce soir|demain|week-end|semaine prochaine|heute abend|morgen|wochenende|nächste woche|esta noche|mañana|fin de semana|próxima semana)(?!\p{L})/u;
+
   const queryLower = query.toLowerCase();
 
-  if (locationPatterns.some(loc => queryLower.includes(loc))) {
+  // Nomi stranieri delle città: la ricerca usa quello italiano
+  const aliasedLocation = Object.entries(LOCATION_ALIASES).find(([alias]) =>
+    new RegExp(`(?<!\\p{L})${alias}(?!\\p{L})`, "u").test(queryLower)
+  )?.[1];
+
+  if (aliasedLocation) {
+    terms.location = aliasedLocation;
+  } else if (locationPatterns.some(loc => queryLower.includes(loc))) {
     terms.location = locationPatterns.find(loc => queryLower.includes(loc));
   }
 
-  if (budgetPatterns.some(budget => queryLower.includes(budget))) {
-    terms.budget = budgetPatterns.find(budget => queryLower.includes(budget));
+  const budgetTerm = Object.keys(budgetPatterns).find(budget =>
+    queryLower.includes(budget)
+  );
+  if (budgetTerm) {
+    terms.budget = budgetPatterns[budgetTerm];
   }
 
   if (groupPatterns.some(group => queryLower.includes(group))) {
@@ -349,11 +678,21 @@ function extractSearchTerms(query: string): QueryAnalysis["searchTerms"] {
     );
   }
 
+  const timeframe = queryLower.match(timeframePattern);
+  if (timeframe) {
+    terms.timeframe = timeframe[1];
+  }
+
+  if (proximityPatterns.some(pattern => queryLower.includes(pattern))) {
+    terms.nearHotel = true;
+  }
+
   return terms;
 }
 
 /**
- * Esegue gli agenti in parallelo o sequenziale in base alla query
+ * Esegue gli agenti in parallelo o sequenziale in base alla query e salva
+ * la traccia dell'esecuzione, anche quando fallisce o viene annullata
  */
 export async function runAgentOrchestration(
   query: string,
@@ -361,9 +700,50 @@ export async function runAgentOrchestration(
     role: "user" | "assistant" | "system";
     content: string;
   }> = [],
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: OrchestrationOptions = {}
 ): Promise<OrchestratorResult> {
+  const trace = createOrchestrationTrace(query, options.trace);
+
+  try {
+    const result = await executeOrchestration(
+      query,
+      conversationHistory,
+      onProgress,
+      options,
+      trace
+    );
+    trace.partnersReturned = result.partners.length;
+    await saveOrchestrationTrace(
+      finishOrchestrationTrace(trace, result.success ? "completed" : "failed")
+    );
+    return result;
+  } catch (error) {
+    await saveOrchestrationTrace(
+      finishOrchestrationTrace(
+        trace,
+        options.signal?.aborted ? "cancelled" : "failed",
+        error
+      )
+    );
+    throw error;
+  }
+}
+
+async function executeOrchestration(
+  query: string,
+  conversationHistory: Array<{ role: string; content: string }>,
+  onProgress: ProgressCallback | undefined,
+  options: OrchestrationOptions,
+  trace: OrchestrationTrace
+): Promise<OrchestratorResult> {
+  const {
+    signal,
+    agentTimeoutMs = AGENT_TIMEOUT_MS,
+    totalTimeoutMs = ORCHESTRATION_TIMEOUT_MS,
+  } = options;
   const startTime = Date.now();
+  const language = options.language ?? resolveLanguage(query);
 
   // Progress: Analyzing
   onProgress?.({
@@ -373,36 +753,104 @@ export async function runAgentOrchestration(
   });
 
   // Analizza la query
-  const analysis = analyzeUserQuery(query);
+  const analysis = await analyzeUserQuery(query, conversationHistory, signal);
+  trace.analysis = analysis;
+  signal?.throwIfAborted();
+
+  if (options.allowClarification) {
+    const clarification = detectClarificationNeed(
+      analysis,
+      new Date(),
+      language
+    );
+    if (clarification) {
+      console.log(
+        `[ORCHESTRATOR] Asking for clarification (${clarification.reasons.join(", ")})`
+      );
+      trace.clarification = clarification;
+      return {
+        success: true,
+        traceId: trace.id,
+        message: clarification.question,
+        partners: [],
+        agentResults: [],
+        clarification,
+        executionSummary: {
+          totalAgentsUsed: 0,
+          totalExecutionTime: Date.now() - startTime,
+          totalPartnersFound: 0,
+          analysisConfidence: Math.max(...Object.values(analysis.confidence)),
+          analysisSource: analysis.source,
+          timedOutAgents: [],
+          toolErrors: [],
+          appliedPreferences: [],
+        },
+      };
+    }
+  }
 
   // Prepara il contesto conversazionale
-  const contextualPrompt =
+  const conversationalPrompt =
     conversationHistory.length > 0
       ? `Conversation context: ${conversationHistory
           .slice(-3)
           .map(m => `${m.role}: ${m.content}`)
           .join("\n")}\n\nCurrent query: ${query}`
       : query;
-
-  // Strategia di esecuzione
+  const promptWithPreferences = options.preferences
+    ? `${conversationalPrompt}\n\n${describePreferencesForAgents(options.preferences)}`
+    : conversationalPrompt;
+  const contextualPrompt = `${promptWithPreferences}\n\n${describeLanguageForAgents(language)}\n${UNTRUSTED_DATA_NOTICE}`;
+
+  // Strategia di esecuzione: con "vicino all'hotel" gli altri agenti
+  // attendono l'hotel e cercano attorno alle sue coordinate
+  const shouldAnchorToHotel =
+    Boolean(analysis.searchTerms.nearHotel) &&
+    analysis.detectedTypes.includes("hotel") &&
+    analysis.detectedTypes.some(type => type !== "hotel");
   const shouldRunInParallel =
     analysis.isGeneral || analysis.detectedTypes.length > 2;
-
-  console.log(`[ORCHESTRATOR] Query analysis:`, analysis);
-  console.log(
-    `[ORCHESTRATOR] Execution strategy: ${shouldRunInParallel ? "PARALLEL" : "SEQUENTIAL"}`
-  );
+  trace.strategy = shouldAnchorToHotel
+    ? "ANCHORED"
+    : shouldRunInParallel
+      ? "PARALLEL"
+      : "SEQUENTIAL";
+
+  console.log(`[ORCHESTRATOR] Query analysis (${analysis.source}):`, analysis);
+  console.log(`[ORCHESTRATOR] Execution strategy: ${trace.strategy}`);
   console.log(
     `[ORCHESTRATOR] Agents to run: ${analysis.detectedTypes.join(", ")}`
   );
 
+  // La scadenza globale parte con gli agenti: chi non finisce in tempo
+  // viene segnato come timed_out e si restituiscono i risultati parziali
+  const control: ExecutionControl = {
+    signal,
+    deadline: AbortSignal.timeout(totalTimeoutMs),
+    agentTimeoutMs,
+    emittedPartnerIds: new Set(),
+    trace,
+    preferences: options.preferences,
+    appliedPreferences: [],
+    language,
+  };
+
   let agentResults: AgentResult[] = [];
 
-  if (shouldRunInParallel) {
+  if (shouldAnchorToHotel) {
+    // Esecuzione in due fasi: hotel, poi ricerche vicino all'hotel scelto
+    agentResults = await runAgentsAnchored(
+      contextualPrompt,
+      analysis,
+      control,
+      onProgress
+    );
+  } else if (shouldRunInParallel) {
     // Esecuzione parallela per query generali
     agentResults = await runAgentsInParallel(
       contextualPrompt,
       analysis.detectedTypes,
+      control,
       onProgress
     );
   } else {
@@ -410,10 +858,13 @@ export async function runAgentOrchestration(
     agentResults = await runAgentsSequentially(
       contextualPrompt,
       analysis.detectedTypes,
+      control,
       onProgress
     );
   }
 
+  signal?.throwIfAborted();
+
   // Progress: Finalizing
   onProgress?.({
     type: "finalizing",
@@ -425,17 +876,31 @@ export async function runAgentOrchestration(
   const allPartners = agentResults.flatMap(result => result.partners);
   const totalExecutionTime = Date.now() - startTime;
 
-  // Rimuovi duplicati per ID
-  const uniquePartners = allPartners.filter(
-    (partner, index, array) =>
-      array.findIndex(p => p.id === partner.id) === index
+  // Rimuovi duplicati per ID e ordina per rilevanza rispetto alla query
+  const uniquePartners = rankPartners(
+    allPartners.filter(
+      (partner, index, array) =>
+        array.findIndex(p => p.id === partner.id) === index
+    ),
+    analysis
+  );
+
+  const appliedPreferences = summarizeAppliedPreferences(
+    control.appliedPreferences
   );
 
   // Genera messaggio di risposta aggregato
-  const responseMessage = generateAggregatedResponse(agentResults, analysis);
+  const responseMessage = generateAggregatedResponse(
+    agentResults,
+    analysis,
+    control.anchor,
+    appliedPreferences,
+    language
+  );
 
   return {
     success: agentResults.some(result => result.success),
+    traceId: trace.id,
     message: responseMessage,
     partners: uniquePartners,
     agentResults,
@@ -444,6 +909,14 @@ export async function runAgentOrchestration(
       totalExecutionTime,
       totalPartnersFound: uniquePartners.length,
       analysisConfidence: Math.max(...Object.values(analysis.confidence)),
+      analysisSource: analysis.source,
+      timedOutAgents: agentResults
+        .filter(result => result.status === "timed_out")
+        .map(result => result.agentType),
+      toolErrors: agentResults.flatMap(result => result.toolErrors ?? []),
+      anchor: control.anchor,
+      searchLocation: analysis.searchTerms.location,
+      appliedPreferences,
     },
   };
 }
@@ -454,15 +927,9 @@ export async function runAgentOrchestration(
 async function runAgentsInParallel(
   query: string,
   agentTypes: PartnerData["type"][],
+  control: ExecutionControl,
   onProgress?: ProgressCallback
 ): Promise<AgentResult[]> {
-  const agentMap = {
-    hotel: hotelAgent,
-    restaurant: restaurantAgent,
-    tour: tourAgent,
-    shuttle: shuttleAgent,
-  };
-
   // Send start progress for all agents
   agentTypes.forEach(type => {
     onProgress?.({
@@ -476,41 +943,64 @@ async function runAgentsInParallel(
   const agentPromises = agentTypes.map(async (type): Promise<AgentResult> => {
     const startTime = Date.now();
     try {
-      const agent = agentMap[type];
+      const agent = AGENT_MAP[type];
       // Increase maxTurns for agents that make multiple tool calls
-      const maxTurns = type === "tour" || type === "shuttle" ? 6 : 3;
-      const response = await run(agent, query, { maxTurns });
+      const maxTurns =
+        type === "tour" || type === "shuttle" || type === "experience" ? 6 : 3;
+      const toolResults = createToolResultCollector();
+      const response = await runAgentWithDeadline(
+        agent,
+        type,
+        query,
+        maxTurns,
+        control,
+        toolResults
+      );
 
-      console.log(`[ORCHESTRATOR] About to extract partners for ${type}`);
-      const partners = extractPartnersFromResponse(response, type);
+      const partners = withAnchorDistance(
+        collectPartners(toolResults, type),
+        control.anchor
+      );
       console.log(
-        `[ORCHESTRATOR] Extracted ${partners.length} partners for ${type}`
+        `[ORCHESTRATOR] Collected ${partners.length} partners for ${type}`
       );
 
       const result: AgentResult = {
         agentType: type,
         success: true,
         message: response.finalOutput || "",
+        status: "completed",
         partners,
         executionTime: Date.now() - startTime,
+        toolErrors: toolResults.errors,
       };
 
       // Progress: Agent complete
       onProgress?.({
         type: "agent_complete",
         agent: type,
+        status: "completed",
         partnersFound: partners.length,
+        partners: takeUnemittedPartners(partners, control),
         message: `${type.charAt(0).toUpperCase() + type.slice(1)} agent: found ${partners.length} partners`,
         timestamp: Date.now(),
       });
 
       return result;
     } catch (error) {
+      // Annullamento: propaga invece di registrare un fallimento dell'agente
+      control.signal?.throwIfAborted();
+
+      if (error instanceof AgentTimeoutError) {
+        return reportTimedOutAgent(type, startTime, error, onProgress);
+      }
+
       console.error(`[ORCHESTRATOR] Agent ${type} failed:`, error);
 
       const result: AgentResult = {
         agentType: type,
         success: false,
+        status: "failed",
         message: `Failed to search ${type}s`,
         partners: [],
         executionTime: Date.now() - startTime,
@@ -521,6 +1011,7 @@ async function runAgentsInParallel(
       onProgress?.({
         type: "agent_complete",
         agent: type,
+        status: "failed",
         partnersFound: 0,
         message: `${type.charAt(0).toUpperCase() + type.slice(1)} agent: error occurred`,
         timestamp: Date.now(),
@@ -539,18 +1030,13 @@ async function runAgentsInParallel(
 async function runAgentsSequentially(
   query: string,
   agentTypes: PartnerData["type"][],
+  control: ExecutionControl,
   onProgress?: ProgressCallback
 ): Promise<AgentResult[]> {
-  const agentMap = {
-    hotel: hotelAgent,
-    restaurant: restaurantAgent,
-    tour: tourAgent,
-    shuttle: shuttleAgent,
-  };
-
   const results: AgentResult[] = [];
 
   for (const type of agentTypes) {
+    control.signal?.throwIfAborted();
     const startTime = Date.now();
 
     // Progress: Agent start
@@ -562,26 +1048,42 @@ async function runAgentsSequentially(
     });
 
     try {
-      const agent = agentMap[type];
+      const agent = AGENT_MAP[type];
       // Increase maxTurns for agents that make multiple tool calls
-      const maxTurns = type === "tour" || type === "shuttle" ? 6 : 3;
-      const response = await run(agent, query, { maxTurns });
+      const maxTurns =
+        type === "tour" || type === "shuttle" || type === "experience" ? 6 : 3;
+      const toolResults = createToolResultCollector();
+      const response = await runAgentWithDeadline(
+        agent,
+        type,
+        query,
+        maxTurns,
+        control,
+        toolResults
+      );
 
-      const partners = extractPartnersFromResponse(response, type);
+      const partners = withAnchorDistance(
+        collectPartners(toolResults, type),
+        control.anchor
+      );
 
       results.push({
         agentType: type,
         success: true,
+        status: "completed",
         message: response.finalOutput || "",
         partners,
         executionTime: Date.now() - startTime,
+        toolErrors: toolResults.errors,
       });
 
       // Progress: Agent complete
       onProgress?.({
         type: "agent_complete",
         agent: type,
+        status: "completed",
         partnersFound: partners.length,
+        partners: takeUnemittedPartners(partners, control),
         message: `${type.charAt(0).toUpperCase() + type.slice(1)} agent: found ${partners.length} partners`,
         timestamp: Date.now(),
       });
@@ -594,9 +1096,17 @@ async function runAgentsSequentially(
         break;
       }
     } catch (error) {
+      control.signal?.throwIfAborted();
+
+      if (error instanceof AgentTimeoutError) {
+        results.push(reportTimedOutAgent(type, startTime, error, onProgress));
+        continue;
+      }
+
       results.push({
         agentType: type,
         success: false,
+        status: "failed",
         message: `Failed to search ${type}s`,
         partners: [],
         executionTime: Date.now() - startTime,
@@ -607,6 +1117,7 @@ async function runAgentsSequentially(
       onProgress?.({
         type: "agent_complete",
         agent: type,
+        status: "failed",
         partnersFound: 0,
         message: `${type.charAt(0).toUpperCase() + type.slice(1)} agent: error occurred`,
         timestamp: Date.now(),
@@ -618,259 +1129,291 @@ async function runAgentsSequentially(
 }
 
 /**
- * Estrae partner dai risultati degli agenti
+ * Esegue prima l'agente hotel, poi gli altri agenti in parallelo vincolati
+ * a un raggio attorno all'hotel migliore. Senza un hotel con coordinate
+ * gli agenti dipendenti cercano senza ancora.
  */
-function extractPartnersFromResponse(
-  response: unknown,
-  type: PartnerData["type"]
-): PartnerData[] {
-  const partners: PartnerData[] = [];
-
-  console.log(`[PARTNER_EXTRACTION] Starting extraction for ${type}:`, {
-    responseType: typeof response,
-  });
+async function runAgentsAnchored(
+  query: string,
+  analysis: QueryAnalysis,
+  control: ExecutionControl,
+  onProgress?: ProgressCallback
+): Promise<AgentResult[]> {
+  const hotelResults = await runAgentsSequentially(
+    query,
+    ["hotel"],
+    control,
+    onProgress
+  );
+  const dependentTypes = analysis.detectedTypes.filter(
+    type => type !== "hotel"
+  );
 
-  try {
-    // Trova i tool calls di ricerca
-    const responseObj = response as {
-      newItems?: { type: string; rawItem?: unknown }[];
-    };
-    console.log(`[PARTNER_EXTRACTION] Response structure:`, {
-      hasNewItems: !!responseObj.newItems,
-      newItemsLength: responseObj.newItems?.length,
-      newItemsTypes: responseObj.newItems?.map(item => item.type),
-    });
+  const anchor = selectAnchor(
+    hotelResults.flatMap(result => result.partners),
+    analysis
+  );
 
-    const functionCalls =
-      responseObj.newItems?.filter(item => item.type === "tool_call_item") ||
-      [];
+  if (!anchor) {
     console.log(
-      `[PARTNER_EXTRACTION] Found function calls:`,
-      functionCalls.length
+      `[ORCHESTRATOR] No hotel with coordinates found, running ${dependentTypes.join(", ")} without anchor`
+    );
+    const dependentResults = await runAgentsInParallel(
+      query,
+      dependentTypes,
+      control,
+      onProgress
     );
+    return [...hotelResults, ...dependentResults];
+  }
 
-    for (const functionCall of functionCalls) {
-      console.log(`[PARTNER_EXTRACTION] Processing function call:`, {
-        hasRawItem: !!functionCall.rawItem,
-        rawItemType: typeof functionCall.rawItem,
-        rawItemKeys:
-          functionCall.rawItem && typeof functionCall.rawItem === "object"
-            ? Object.keys(functionCall.rawItem)
-            : [],
-      });
+  console.log(
+    `[ORCHESTRATOR] Anchoring ${dependentTypes.join(", ")} to ${anchor.name} (${anchor.radiusKm} km)`
+  );
+  control.anchor = anchor;
+  control.trace.anchor = anchor;
+
+  const anchoredQuery = `${query}\n\nSearch near the selected hotel "${anchor.name}" (${anchor.location}), within ${anchor.radiusKm} km of it.`;
+  const dependentResults = await runAgentsInParallel(
+    anchoredQuery,
+    dependentTypes,
+    control,
+    onProgress
+  );
 
-      // Verifica se è un tool call di ricerca
-      if (
-        functionCall.rawItem &&
-        typeof functionCall.rawItem === "object" &&
-        "type" in functionCall.rawItem &&
-        functionCall.rawItem.type === "function_call"
-      ) {
-        const toolName =
-          "name" in functionCall.rawItem ? functionCall.rawItem.name : "";
-        console.log(`[PARTNER_EXTRACTION] Found function call:`, {
-          toolName,
-          hasId: "id" in functionCall.rawItem,
-        });
-
-        // Trova il tool output corrispondente (usa callId di entrambi)
-        const toolOutput = responseObj.newItems?.find(
-          item =>
-            item.type === "tool_call_output_item" &&
-            item.rawItem &&
-            typeof item.rawItem === "object" &&
-            "callId" in item.rawItem &&
-            functionCall.rawItem &&
-            typeof functionCall.rawItem === "object" &&
-            "callId" in functionCall.rawItem &&
-            item.rawItem.callId === functionCall.rawItem.callId
-        );
+  return [...hotelResults, ...dependentResults];
+}
 
-        // Debug ID matching issue
-        const allOutputs =
-          responseObj.newItems?.filter(
-            item => item.type === "tool_call_output_item"
-          ) || [];
-        const outputIds = allOutputs.map(output =>
-          output.rawItem &&
-          typeof output.rawItem === "object" &&
-          "callId" in output.rawItem
-            ? output.rawItem.callId
-            : "no-callId"
-        );
+/**
+ * Sceglie come ancora l'hotel più rilevante dotato di coordinate
+ */
+function selectAnchor(
+  hotels: PartnerData[],
+  analysis: QueryAnalysis
+): LocationAnchor | undefined {
+  for (const hotel of rankPartners(hotels, analysis)) {
+    const coordinates = readCoordinates(hotel.coordinates);
+    if (coordinates) {
+      return {
+        partnerId: hotel.id,
+        name: hotel.name,
+        location: hotel.location,
+        coordinates,
+        radiusKm: ANCHOR_RADIUS_KM,
+      };
+    }
+  }
+
+  return undefined;
+}
 
-        console.log(`[PARTNER_EXTRACTION] Tool output search:`, {
-          foundOutput: !!toolOutput,
-          functionCallId:
-            functionCall.rawItem &&
-            typeof functionCall.rawItem === "object" &&
-            "id" in functionCall.rawItem
-              ? functionCall.rawItem.id
-              : "no-id",
-          functionCallCallId:
-            functionCall.rawItem &&
-            typeof functionCall.rawItem === "object" &&
-            "callId" in functionCall.rawItem
-              ? functionCall.rawItem.callId
-              : "no-callId",
-          availableOutputs: allOutputs.length,
-          outputIds: outputIds,
-          firstOutputKeys:
-            allOutputs[0]?.rawItem && typeof allOutputs[0].rawItem === "object"
-              ? Object.keys(allOutputs[0].rawItem)
-              : [],
-        });
-
-        if (
-          toolOutput &&
-          toolOutput.rawItem &&
-          typeof toolOutput.rawItem === "object" &&
-          "output" in toolOutput.rawItem
-        ) {
-          try {
-            const content = (toolOutput.rawItem as { output: unknown }).output;
-            console.log(`[PARTNER_EXTRACTION] Parsing tool output content:`, {
-              contentType: typeof content,
-              isObject: typeof content === "object",
-              contentLength:
-                typeof content === "string" ? content.length : "not-string",
-              toolName,
-            });
-
-            // Log full content structure to debug
-            if (typeof content === "object" && content !== null) {
-              console.log(
-                `[PARTNER_EXTRACTION] Full content object keys:`,
-                Object.keys(content)
-              );
-              console.log(
-                `[PARTNER_EXTRACTION] Full content object:`,
-                JSON.stringify(content, null, 2)
-              );
-            }
-
-            // Handle OpenAI Agents framework content structure
-            let result: unknown;
-            if (
-              typeof content === "object" &&
-              content !== null &&
-              "text" in content &&
-              typeof content.text === "string"
-            ) {
-              // OpenAI Agents wraps output in { type: "text", text: "JSON string" }
-              result = JSON.parse(content.text);
-              console.log(
-                `[PARTNER_EXTRACTION] Parsed OpenAI Agents text wrapper content`
-              );
-            } else if (typeof content === "object" && content !== null) {
-              // Content is already a parsed object, use directly
-              result = content;
-              console.log(
-                `[PARTNER_EXTRACTION] Using content as object directly`
-              );
-            } else if (typeof content === "string") {
-              // Content is a JSON string, parse it
-              result = JSON.parse(content);
-              console.log(`[PARTNER_EXTRACTION] Parsed JSON string content`);
-            } else {
-              throw new Error(`Unexpected content type: ${typeof content}`);
-            }
-
-            console.log(`[PARTNER_EXTRACTION] Parsed result:`, {
-              success: (result as { success?: boolean }).success,
-              dataCount: (result as { data?: unknown[] }).data?.length,
-              hasData: !!(result as { data?: unknown }).data,
-            });
-
-            if (
-              (result as { success?: boolean }).success &&
-              (result as { data?: unknown }).data &&
-              Array.isArray((result as { data?: unknown[] }).data)
-            ) {
-              // Trasforma i risultati nel formato PartnerData
-              const transformedPartners = (result as { data: unknown[] }).data
-                .filter(
-                  (item): item is Record<string, unknown> =>
-                    typeof item === "object" && item !== null
-                )
-                .map(
-                  (item): PartnerData => ({
-                    id: String(item.id || ""),
-                    name: String(item.name || ""),
-                    type: type,
-                    description: String(item.description || ""),
-                    location: String(item.location || item.city || ""),
-                    price_range: String(item.price_range || ""),
-                    rating: parseFloat(
-                      String(item.rating || item.star_rating || "0")
-                    ),
-                    amenities: Array.isArray(item.amenities)
-                      ? item.amenities
-                      : Array.isArray(item.menu_highlights)
-                        ? item.menu_highlights
-                        : Array.isArray(item.includes)
-                          ? item.includes
-                          : Array.isArray(item.features)
-                            ? item.features
-                            : [],
-                    coordinates:
-                      item.coordinates && typeof item.coordinates === "object"
-                        ? (item.coordinates as { lat: number; lng: number })
-                        : undefined,
-                    images: Array.isArray(item.gallery_urls)
-                      ? item.gallery_urls
-                      : Array.isArray(item.images)
-                        ? item.images
-                        : [],
-                    contact_info: {
-                      phone: item.phone ? String(item.phone) : undefined,
-                      email: item.email ? String(item.email) : undefined,
-                      website: item.website
-                        ? String(item.website)
-                        : item.booking_url
-                          ? String(item.booking_url)
-                          : item.reservation_url
-                            ? String(item.reservation_url)
-                            : undefined,
-                    },
-                  })
-                );
-
-              console.log(`[PARTNER_EXTRACTION] Transformed partners:`, {
-                count: transformedPartners.length,
-                sampleName: transformedPartners[0]?.name,
-              });
-              partners.push(...transformedPartners);
-            }
-          } catch (parseError) {
-            console.error(
-              `[ORCHESTRATOR] Error parsing tool output for ${toolName}:`,
-              parseError
-            );
-          }
+/**
+ * Aggiunge la distanza dall'hotel di riferimento ai partner che non
+ * l'hanno già ricevuta dal tool
+ */
+function withAnchorDistance(
+  partners: PartnerData[],
+  anchor?: LocationAnchor
+): PartnerData[] {
+  if (!anchor) return partners;
+
+  return partners.map(partner => {
+    if (partner.distance_to_hotel_km !== undefined) return partner;
+
+    const coordinates = readCoordinates(partner.coordinates);
+    return coordinates
+      ? {
+          ...partner,
+          distance_to_hotel_km:
+            Math.round(distanceKm(anchor.coordinates, coordinates) * 100) / 100,
         }
-      }
+      : partner;
+  });
+}
+
+/**
+ * Esegue un agente rispettando la scadenza del singolo agente e quella
+ * globale. Se una delle due scade lancia AgentTimeoutError senza attendere
+ * il completamento del run. Ogni run usa un Runner dedicato, così gli
+ * eventi dei tool finiscono nella traccia dell'agente giusto. I token
+ * usati vengono registrati anche per i run interrotti.
+ */
+async function runAgentWithDeadline(
+  agent: (typeof AGENT_MAP)[PartnerData["type"]],
+  type: PartnerData["type"],
+  query: string,
+  maxTurns: number,
+  control: ExecutionControl,
+  toolResults: ToolResultCollector
+) {
+  const timeoutSignal = AbortSignal.any([
+    AbortSignal.timeout(control.agentTimeoutMs),
+    control.deadline,
+  ]);
+  const runSignal = control.signal
+    ? AbortSignal.any([control.signal, timeoutSignal])
+    : timeoutSignal;
+
+  const aborted = new Promise<never>((_, reject) => {
+    const onAbort = () => reject(runSignal.reason);
+    if (runSignal.aborted) {
+      onAbort();
+    } else {
+      runSignal.addEventListener("abort", onAbort, { once: true });
     }
+  });
+
+  const agentTrace = createAgentTrace(type, maxTurns, Boolean(control.anchor));
+  control.trace.agents.push(agentTrace);
+  const runner = new Runner();
+  const finishTrace = traceAgentRun(runner, agentTrace);
+
+  try {
+    const response = await Promise.race([
+      runner.run(agent, query, {
+        maxTurns,
+        signal: runSignal,
+        context: {
+          signal: runSignal,
+          anchor: control.anchor,
+          toolResults,
+          preferences: control.preferences,
+          appliedPreferences: control.appliedPreferences,
+          language: control.language,
+        },
+      }),
+      aborted,
+    ]);
+    finishTrace("completed");
+    return response;
   } catch (error) {
-    console.error(
-      `[PARTNER_EXTRACTION] Error extracting partners for ${type}:`,
-      error
-    );
+    if (control.signal?.aborted) {
+      finishTrace("cancelled", error);
+      control.signal.throwIfAborted();
+    }
+    if (timeoutSignal.aborted) {
+      const timeoutError = new AgentTimeoutError(type, control.agentTimeoutMs);
+      finishTrace("timed_out", timeoutError);
+      throw timeoutError;
+    }
+    finishTrace("failed", error);
+    throw error;
+  } finally {
+    recordLlmUsage({
+      model: agentModelName(agent),
+      operation: `agent:${type}`,
+      inputTokens: agentTrace.usage.inputTokens,
+      outputTokens: agentTrace.usage.outputTokens,
+    });
   }
+}
 
-  console.log(`[PARTNER_EXTRACTION] Final extraction result for ${type}:`, {
-    totalPartnersExtracted: partners.length,
+/**
+ * Restituisce i partner non ancora inviati al client e li segna come inviati,
+ * così le card arrivano progressivamente senza duplicati tra agenti
+ */
+function takeUnemittedPartners(
+  partners: PartnerData[],
+  control: ExecutionControl
+): PartnerData[] {
+  return partners.filter(partner => {
+    if (control.emittedPartnerIds.has(partner.id)) return false;
+    control.emittedPartnerIds.add(partner.id);
+    return true;
   });
-  return partners;
 }
 
 /**
- * Genera una risposta aggregata dai risultati di tutti gli agenti
+ * Registra un agente che non ha completato entro la scadenza
+ */
+function reportTimedOutAgent(
+  type: PartnerData["type"],
+  startTime: number,
+  error: AgentTimeoutError,
+  onProgress?: ProgressCallback
+): AgentResult {
+  console.warn(`[ORCHESTRATOR] Agent ${type} timed out:`, error.message);
+
+  onProgress?.({
+    type: "agent_complete",
+    agent: type,
+    status: "timed_out",
+    partnersFound: 0,
+    message: `${type.charAt(0).toUpperCase() + type.slice(1)} agent: timed out`,
+    timestamp: Date.now(),
+  });
+
+  return {
+    agentType: type,
+    success: false,
+    status: "timed_out",
+    message: `Search for ${type}s timed out`,
+    partners: [],
+    executionTime: Date.now() - startTime,
+    error: error.message,
+  };
+}
+
+/**
+ * Raccoglie i partner dai risultati validati dei tool dell'agente
+ * (contratto ToolPartnerResult), senza duplicati
+ */
+function collectPartners(
+  toolResults: ToolResultCollector,
+  type: PartnerData["type"]
+): PartnerData[] {
+  const partners = new Map<string, PartnerData>();
+
+  for (const result of toolResults.results) {
+    if (!result.success || result.partnerType !== type) continue;
+
+    for (const partner of result.partners) {
+      if (partners.has(partner.id)) continue;
+      partners.set(partner.id, toPartnerData(partner));
+    }
+  }
+
+  if (toolResults.errors.length > 0) {
+    console.warn(`[ORCHESTRATOR] Tool errors for ${type}:`, toolResults.errors);
+  }
+
+  return Array.from(partners.values());
+}
+
+/**
+ * Partner per il client: i dettagli della categoria servono solo all'agente
+ */
+function toPartnerData(partner: ToolPartner): PartnerData {
+  return {
+    id: partner.id,
+    name: partner.name,
+    type: partner.type,
+    description: partner.description,
+    location: partner.location,
+    price_range: partner.price_range,
+    rating: partner.rating,
+    amenities: partner.amenities,
+    coordinates: partner.coordinates,
+    images: partner.images,
+    contact_info: partner.contact_info,
+    rapid_api_data: partner.rapid_api_data,
+    similarity: partner.similarity,
+    distance_to_hotel_km: partner.distance_to_hotel_km,
+  };
+}
+
+/**
+ * Genera una risposta aggregata dai risultati di tutti gli agenti, nella
+ * lingua dell'utente
  */
 function generateAggregatedResponse(
   results: AgentResult[],
-  analysis: QueryAnalysis
+  analysis: QueryAnalysis,
+  anchor?: LocationAnchor,
+  appliedPreferences: AppliedPreference[] = [],
+  language: Locale = DEFAULT_LOCALE
 ): string {
+  const { typeLabels, aggregated } = getAgentMessages(language);
   const successfulResults = results.filter(
     r => r.success && r.partners.length > 0
   );
@@ -880,13 +1423,17 @@ function generateAggregatedResponse(
   );
 
   if (successfulResults.length === 0) {
-    return `Mi dispiace, non ho trovato risultati per la tua ricerca. Prova con termini diversi o contatta il nostro team per assistenza personalizzata.`;
+    return aggregated.noResults;
   }
 
   // Genera intro basata sull'analisi
-  const intro = analysis.isGeneral
-    ? `Fantastico! Ho trovato ${totalPartners} opzioni perfette per il tuo viaggio:`
-    : `Ottimo! Ho trovato ${totalPartners} ${analysis.primaryType}${totalPartners > 1 ? "s" : ""} che fanno al caso tuo:`;
+  const intro =
+    analysis.isGeneral || !analysis.primaryType
+      ? aggregated.introGeneral(totalPartners)
+      : aggregated.introSpecific(
+          totalPartners,
+          typeLabels[analysis.primaryType]
+        );
 
   // Aggrega i messaggi per tipo
   const typeMessages = successfulResults
@@ -896,16 +1443,31 @@ function generateAggregatedResponse(
         restaurant: "🍽️",
         tour: "🗺️",
         shuttle: "🚐",
+        experience: "🎭",
       }[result.agentType];
+      const label = typeLabels[result.agentType];
 
-      return `${emoji} **${result.agentType.charAt(0).toUpperCase() + result.agentType.slice(1)}s**: ${result.partners.length} opzioni trovate`;
+      return `${emoji} **${label.charAt(0).toUpperCase() + label.slice(1)}**: ${aggregated.optionsFound(result.partners.length)}`;
     })
     .join("\n");
 
+  const anchorNote = anchor
+    ? `\n\n${aggregated.anchorNote(anchor.radiusKm, anchor.name)}`
+    : "";
+
+  const preferencesNote =
+    appliedPreferences.length > 0
+      ? `\n\n${aggregated.preferencesNote(
+          appliedPreferences
+            .map(preference => preference.description)
+            .join("; ")
+        )}`
+      : "";
+
   const outro =
     successfulResults.length > 1
-      ? "\n\nTutte le opzioni sono visualizzate qui sotto con i dettagli completi. Fammi sapere se vuoi approfondire qualche categoria specifica!"
-      : "\n\nDettagli completi disponibili nelle card qui sotto!";
+      ? `\n\n${aggregated.outroMultiple}`
+      : `\n\n${aggregated.outroSingle}`;
 
-  return `${intro}\n\n${typeMessages}${outro}`;
+  return `${intro}\n\n${typeMessages}${anchorNote}${preferencesNote}${outro}`;
 }
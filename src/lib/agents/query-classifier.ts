@@ -0,0 +1,215 @@
+import { z } from "zod";
+import { openai } from "../openai";
+import { recordLlmUsage } from "../llm-usage";
+import { getModelForRole } from "../models";
+
+export const CLASSIFIER_MODEL = getModelForRole("query_classifier");
+const CLASSIFIER_TIMEOUT_MS = parseInt(
+  process.env.QUERY_CLASSIFIER_TIMEOUT_MS || "8000"
+);
+
+const partnerTypeSchema = z.enum([
+  "hotel",
+  "restaurant",
+  "tour",
+  "shuttle",
+  "experience",
+]);
+
+const confidenceScore = z.number().min(0).max(1);
+
+/**
+ * Risultato dell'analisi di una query, condiviso dal classificatore LLM
+ * e dal fallback a parole chiave
+ */
+export const queryAnalysisSchema = z.object({
+  detectedTypes: z.array(partnerTypeSchema).min(1),
+  confidence: z.object({
+    hotel: confidenceScore,
+    restaurant: confidenceScore,
+    tour: confidenceScore,
+    shuttle: confidenceScore,
+    experience: confidenceScore,
+  }),
+  isGeneral: z.boolean(),
+  primaryType: partnerTypeSchema.optional(),
+  searchTerms: z.object({
+    location: z.string().optional(),
+    timeframe: z.string().optional(),
+    occasion: z.string().optional(),
+    budget: z.string().optional(),
+    groupSize: z.string().optional(),
+    partySize: z.number().int().positive().optional(),
+    dates: z
+      .object({
+        start: z.string().optional(),
+        end: z.string().optional(),
+      })
+      .optional(),
+    generalTravelConfidence: z.number().optional(),
+    hasDateRange: z.boolean().optional(),
+    isGeneralTripPlanning: z.boolean().optional(),
+    /** Ristoranti, tour e transfer vanno cercati vicino all'hotel trovato */
+    nearHotel: z.boolean().optional(),
+  }),
+  source: z.enum(["llm", "keywords"]),
+});
+
+export type QueryAnalysis = z.infer<typeof queryAnalysisSchema>;
+
+/**
+ * Formato JSON richiesto al modello (campi assenti espressi come null)
+ */
+const modelClassificationSchema = z.object({
+  types: z.array(partnerTypeSchema),
+  confidence: z.object({
+    hotel: confidenceScore,
+    restaurant: confidenceScore,
+    tour: confidenceScore,
+    shuttle: confidenceScore,
+    experience: confidenceScore,
+  }),
+  isGeneralTripPlanning: z.boolean(),
+  location: z.string().nullable(),
+  dates: z
+    .object({
+      start: z.string().nullable(),
+      end: z.string().nullable(),
+      timeframe: z.string().nullable(),
+    })
+    .nullable(),
+  partySize: z.number().int().positive().nullable(),
+  budget: z.enum(["budget", "mid-range", "luxury"]).nullable(),
+  occasion: z.string().nullable(),
+  nearHotel: z.boolean().nullable(),
+});
+
+type ModelClassification = z.infer<typeof modelClassificationSchema>;
+
+/**
+ * Classifica la query dell'utente con una singola chiamata al modello.
+ * Lancia un errore se il modello non risponde o l'output non è valido:
+ * il chiamante decide il fallback.
+ */
+export async function classifyUserQuery(
+  query: string,
+  conversationHistory: Array<{ role: string; content: string }> = [],
+  signal?: AbortSignal
+): Promise<QueryAnalysis> {
+  const today = new Date().toISOString().split("T")[0];
+
+  const systemPrompt = `
+You classify travel requests for Via Nexo, an Italian travel platform.
+Decide which specialist searches are needed: hotel, restaurant, tour, shuttle, experience.
+Requests may be written in Italian, English, French, German or Spanish.
+"experience" covers hands-on activities such as cooking classes, wine tastings and artisan workshops; "tour" covers guided visits and excursions.
+
+Current date: ${today}
+
+Rules:
+1. "types" lists only the services the user actually needs, most relevant first
+2. "confidence" gives a 0-1 score for every type, including unneeded ones
+3. "isGeneralTripPlanning" is true when the user wants a whole trip organised (e.g. "weekend a Firenze", "vacanza per due")
+4. "location" is the destination city or area, using its Italian name (e.g. "Florence", "Florenz", "Florencia" → "Firenze"), or null
+5. "dates.start"/"dates.end" are YYYY-MM-DD when inferable; "dates.timeframe" keeps vague expressions like "weekend" or "next summer"
+6. "partySize" is the number of travellers when stated or clearly implied (e.g. "coppia", "couple", "Paar", "pareja" = 2)
+7. "budget" is one of budget, mid-range, luxury, or null
+8. "occasion" is a short label like romantic, business, birthday, family, or null
+9. "nearHotel" is true when restaurants, tours or transfers should be close to the hotel (e.g. "hotel e cena vicino", "tour a piedi dall'albergo")
+10. Use the conversation context to resolve follow-ups such as "and a restaurant nearby?"
+
+Respond with JSON only, matching:
+{
+  "types": ["hotel" | "restaurant" | "tour" | "shuttle" | "experience"],
+  "confidence": { "hotel": number, "restaurant": number, "tour": number, "shuttle": number, "experience": number },
+  "isGeneralTripPlanning": boolean,
+  "location": string | null,
+  "dates": { "start": string | null, "end": string | null, "timeframe": string | null } | null,
+  "partySize": number | null,
+  "budget": "budget" | "mid-range" | "luxury" | null,
+  "occasion": string | null,
+  "nearHotel": boolean | null
+}
+`;
+
+  const context = conversationHistory
+    .slice(-3)
+    .map(m => `${m.role}: ${m.content}`)
+    .join("\n");
+
+  const response = await openai.chat.completions.create(
+    {
+      model: CLASSIFIER_MODEL,
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: context
+            ? `Conversation context:\n${context}\n\nCurrent query: ${query}`
+            : query,
+        },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+      max_tokens: 300,
+    },
+    { timeout: CLASSIFIER_TIMEOUT_MS, maxRetries: 0, signal }
+  );
+
+  recordLlmUsage({
+    model: CLASSIFIER_MODEL,
+    operation: "query_classification",
+    inputTokens: response.usage?.prompt_tokens ?? 0,
+    outputTokens: response.usage?.completion_tokens ?? 0,
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error("No response from query classifier");
+  }
+
+  const classification = modelClassificationSchema.parse(JSON.parse(content));
+
+  return queryAnalysisSchema.parse(toQueryAnalysis(classification));
+}
+
+/**
+ * Converte l'output del modello nel formato QueryAnalysis
+ */
+function toQueryAnalysis(classification: ModelClassification): QueryAnalysis {
+  const { confidence, isGeneralTripPlanning } = classification;
+
+  const detectedTypes = isGeneralTripPlanning
+    ? partnerTypeSchema.options
+    : Array.from(new Set(classification.types)).sort(
+        (a, b) => confidence[b] - confidence[a]
+      );
+
+  const types =
+    detectedTypes.length > 0 ? detectedTypes : partnerTypeSchema.options;
+
+  const start = classification.dates?.start ?? undefined;
+  const end = classification.dates?.end ?? undefined;
+
+  return {
+    detectedTypes: [...types],
+    confidence,
+    isGeneral: isGeneralTripPlanning || types.length > 2,
+    primaryType: types[0],
+    searchTerms: {
+      location: classification.location ?? undefined,
+      timeframe: classification.dates?.timeframe ?? undefined,
+      occasion: classification.occasion ?? undefined,
+      budget: classification.budget ?? undefined,
+      groupSize: classification.partySize
+        ? String(classification.partySize)
+        : undefined,
+      partySize: classification.partySize ?? undefined,
+      dates: start || end ? { start, end } : undefined,
+      hasDateRange: Boolean(start && end),
+      isGeneralTripPlanning,
+      nearHotel: classification.nearHotel ?? undefined,
+    },
+    source: "llm",
+  };
+}
@@ -0,0 +1,161 @@
+import type { PartnerData, PartnerRelevance } from "@/types";
+import type { QueryAnalysis } from "./query-classifier";
+
+type RelevanceComponent = keyof PartnerRelevance["components"];
+
+/**
+ * Peso di ogni componente nel punteggio finale. I componenti non
+ * disponibili per un partner vengono esclusi e i pesi rinormalizzati.
+ */
+const RELEVANCE_WEIGHTS: Record<RelevanceComponent, number> = {
+  similarity: 0.35,
+  rating: 0.2,
+  priceFit: 0.15,
+  locationMatch: 0.2,
+  availability: 0.1,
+};
+
+const PRICE_LEVELS: Record<string, number> = {
+  budget: 1,
+  "mid-range": 3,
+  luxury: 4.5,
+  premium: 5,
+};
+
+/**
+ * Ordina i partner di tutti gli agenti con un unico punteggio di
+ * rilevanza rispetto alla query analizzata
+ */
+export function rankPartners(
+  partners: PartnerData[],
+  analysis: QueryAnalysis
+): PartnerData[] {
+  return partners
+    .map(partner => ({
+      ...partner,
+      relevance: scorePartner(partner, analysis),
+    }))
+    .sort((a, b) => b.relevance.score - a.relevance.score);
+}
+
+/**
+ * Calcola punteggio e componenti (tutti in 0-1, null se non valutabili)
+ */
+export function scorePartner(
+  partner: PartnerData,
+  analysis: QueryAnalysis
+): PartnerRelevance {
+  const components: PartnerRelevance["components"] = {
+    similarity: scoreSimilarity(partner),
+    rating: scoreRating(partner),
+    priceFit: scorePriceFit(partner, analysis.searchTerms.budget),
+    locationMatch: scoreLocationMatch(partner, analysis.searchTerms.location),
+    availability: scoreAvailability(partner),
+  };
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const [name, value] of Object.entries(components) as [
+    RelevanceComponent,
+    number | null,
+  ][]) {
+    if (value === null) continue;
+    weightedSum += value * RELEVANCE_WEIGHTS[name];
+    totalWeight += RELEVANCE_WEIGHTS[name];
+  }
+
+  return {
+    score: totalWeight > 0 ? round(weightedSum / totalWeight) : 0,
+    components,
+  };
+}
+
+function scoreSimilarity(partner: PartnerData): number | null {
+  if (typeof partner.similarity !== "number") return null;
+  return round(clamp(partner.similarity));
+}
+
+function scoreRating(partner: PartnerData): number | null {
+  if (!partner.rating || partner.rating <= 0) return null;
+  // Booking.com usa la scala 1-10, il database 1-5
+  const scale = partner.rating > 5 ? 10 : 5;
+  return round(clamp(partner.rating / scale));
+}
+
+function scorePriceFit(
+  partner: PartnerData,
+  budget: string | undefined
+): number | null {
+  const target = budget ? PRICE_LEVELS[budget] : undefined;
+  const level = toPriceLevel(partner.price_range);
+  if (target === undefined || level === null) return null;
+
+  // Sotto budget è penalizzato meno che sopra budget
+  const distance = level - target;
+  const penalty = distance > 0 ? distance / 2 : Math.abs(distance) / 4;
+  return round(clamp(1 - penalty));
+}
+
+function scoreLocationMatch(
+  partner: PartnerData,
+  location: string | undefined
+): number | null {
+  if (!location) return null;
+
+  const target = normalize(location);
+  const partnerLocation = normalize(partner.location);
+  if (!target) return null;
+
+  if (
+    partnerLocation &&
+    (partnerLocation.includes(target) || target.includes(partnerLocation))
+  ) {
+    return 1;
+  }
+
+  if (normalize(partner.description).includes(target)) {
+    return 0.6;
+  }
+
+  // Corrispondenza parziale per località composte (es. "Costiera Amalfitana")
+  const targetWords = target.split(" ").filter(word => word.length > 3);
+  const matched = targetWords.filter(word => partnerLocation.includes(word));
+  return targetWords.length > 0
+    ? round((matched.length / targetWords.length) * 0.5)
+    : 0;
+}
+
+function scoreAvailability(partner: PartnerData): number | null {
+  const data = partner.rapid_api_data;
+  if (!data || typeof data.availability !== "boolean") return null;
+  if (!data.availability) return 0;
+  // Poche camere rimaste: disponibile ma meno sicuro
+  return data.available_rooms !== undefined && data.available_rooms < 3
+    ? 0.8
+    : 1;
+}
+
+function toPriceLevel(priceRange: string): number | null {
+  if (priceRange in PRICE_LEVELS) return PRICE_LEVELS[priceRange];
+  const numeric = parseFloat(priceRange);
+  return Number.isFinite(numeric) && numeric > 0 ? clamp(numeric, 1, 5) : null;
+}
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
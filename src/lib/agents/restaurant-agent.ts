@@ -1,9 +1,10 @@
 import { Agent } from "@openai/agents";
+import { getModelForRole } from "../models";
 import { restaurantSearchTool, restaurantVectorSearchTool } from "./base-tools";
 
 export const restaurantAgent = new Agent({
   name: "Via Nexo Restaurant Specialist",
-  model: "gpt-5-mini",
+  model: getModelForRole("restaurant_agent"),
   instructions: `
     You are Via Nexo's restaurant search specialist. Your ONLY job is to search for restaurants using the available tools.
 
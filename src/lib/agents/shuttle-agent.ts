@@ -1,9 +1,10 @@
 import { Agent } from "@openai/agents";
+import { getModelForRole } from "../models";
 import { shuttleSearchTool, shuttleVectorSearchTool } from "./base-tools";
 
 export const shuttleAgent = new Agent({
   name: "Via Nexo Shuttle Specialist",
-  model: "gpt-5-mini",
+  model: getModelForRole("shuttle_agent"),
   instructions: `
     You are Via Nexo's shuttle search specialist. Your ONLY job is to search for shuttles using the available tools.
 
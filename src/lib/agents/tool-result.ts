@@ -0,0 +1,268 @@
+import { z } from "zod";
+import { readCoordinates } from "./location-anchor";
+import { neutralizeUntrustedText } from "./guardrails";
+import type { PartnerData } from "@/types";
+
+/**
+ * Versione del contratto restituito dai tool di ricerca partner.
+ * Va incrementata a ogni modifica incompatibile dello schema.
+ */
+export const TOOL_RESULT_VERSION = 1;
+
+const partnerTypeSchema = z.enum([
+  "hotel",
+  "restaurant",
+  "tour",
+  "shuttle",
+  "experience",
+]);
+
+type PartnerType = z.infer<typeof partnerTypeSchema>;
+
+export const toolPartnerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: partnerTypeSchema,
+  description: z.string(),
+  location: z.string(),
+  price_range: z.string(),
+  rating: z.number().min(0),
+  amenities: z.array(z.string()),
+  coordinates: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  images: z.array(z.string()),
+  contact_info: z.object({
+    phone: z.string().optional(),
+    email: z.string().optional(),
+    website: z.string().optional(),
+  }),
+  rapid_api_data: z
+    .custom<
+      NonNullable<PartnerData["rapid_api_data"]>
+    >(value => typeof value === "object" && value !== null)
+    .optional(),
+  similarity: z.number().optional(),
+  distance_to_hotel_km: z.number().optional(),
+  /** Campi specifici della categoria (cucina, durata, percorso...) per l'agente */
+  details: z.record(z.unknown()).optional(),
+});
+
+export type ToolPartner = z.infer<typeof toolPartnerSchema>;
+
+/**
+ * Contratto condiviso da tutti i tool di ricerca in base-tools
+ */
+export const toolPartnerResultSchema = z.object({
+  version: z.literal(TOOL_RESULT_VERSION),
+  tool: z.string(),
+  partnerType: partnerTypeSchema,
+  success: z.boolean(),
+  partners: z.array(toolPartnerSchema),
+  message: z.string(),
+  error: z.string().optional(),
+  searchContext: z.record(z.unknown()).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export type ToolPartnerResult = z.infer<typeof toolPartnerResultSchema>;
+
+export interface ToolResultError {
+  tool: string;
+  kind: "tool_failed" | "invalid_output";
+  message: string;
+  /** Problemi di validazione (percorso: messaggio) */
+  issues?: string[];
+}
+
+/**
+ * Raccoglie i risultati dei tool durante un run: viene passato nel
+ * contesto di run() e letto dall'orchestratore al termine
+ */
+export interface ToolResultCollector {
+  results: ToolPartnerResult[];
+  errors: ToolResultError[];
+}
+
+export function createToolResultCollector(): ToolResultCollector {
+  return { results: [], errors: [] };
+}
+
+type ToolOutcome =
+  | {
+      success: true;
+      rows: unknown[];
+      message: string;
+      searchContext?: Record<string, unknown>;
+      metadata?: Record<string, unknown>;
+    }
+  | {
+      success: false;
+      error: string;
+      message?: string;
+      searchContext?: Record<string, unknown>;
+    };
+
+/**
+ * Normalizza le righe del tool nel contratto ToolPartnerResult, valida
+ * ogni partner e registra risultato ed eventuali errori nel collector.
+ * Le righe non valide vengono scartate ma segnalate come invalid_output.
+ */
+export function buildToolPartnerResult(
+  tool: string,
+  partnerType: PartnerType,
+  outcome: ToolOutcome,
+  collector?: ToolResultCollector
+): ToolPartnerResult {
+  if (!outcome.success) {
+    const result: ToolPartnerResult = {
+      version: TOOL_RESULT_VERSION,
+      tool,
+      partnerType,
+      success: false,
+      partners: [],
+      message: outcome.message ?? outcome.error,
+      error: outcome.error,
+      searchContext: outcome.searchContext,
+    };
+    collector?.errors.push({
+      tool,
+      kind: "tool_failed",
+      message: outcome.error,
+    });
+    collector?.results.push(result);
+    return result;
+  }
+
+  const partners: ToolPartner[] = [];
+  const issues: string[] = [];
+
+  outcome.rows.forEach((row, index) => {
+    const parsed = toolPartnerSchema.safeParse(toToolPartner(row, partnerType));
+    if (parsed.success) {
+      partners.push(parsed.data);
+    } else {
+      issues.push(
+        ...parsed.error.issues.map(
+          issue => `${index}.${issue.path.join(".")}: ${issue.message}`
+        )
+      );
+    }
+  });
+
+  if (issues.length > 0) {
+    console.warn(`[TOOL_RESULT] Invalid partners from ${tool}:`, issues);
+    collector?.errors.push({
+      tool,
+      kind: "invalid_output",
+      message: `${outcome.rows.length - partners.length} of ${outcome.rows.length} results do not match ToolPartnerResult v${TOOL_RESULT_VERSION}`,
+      issues,
+    });
+  }
+
+  const result = toolPartnerResultSchema.parse({
+    version: TOOL_RESULT_VERSION,
+    tool,
+    partnerType,
+    success: true,
+    partners,
+    message: outcome.message,
+    searchContext: outcome.searchContext,
+    metadata: outcome.metadata,
+  });
+
+  collector?.results.push(result);
+  return result;
+}
+
+// Campi già normalizzati o troppo pesanti per l'agente
+const OMITTED_DETAIL_KEYS = new Set([
+  "id",
+  "name",
+  "description",
+  "location",
+  "price_range",
+  "rating",
+  "star_rating",
+  "amenities",
+  "coordinates",
+  "images",
+  "primary_image_url",
+  "gallery_urls",
+  "phone",
+  "email",
+  "website",
+  "booking_url",
+  "reservation_url",
+  "rapid_api_data",
+  "similarity",
+  "distance_to_hotel_km",
+  "embedding",
+]);
+
+/**
+ * Converte una riga di database, RPC o RapidAPI nel formato partner.
+ * Nome e descrizione arrivano da terze parti e finiscono nel contesto
+ * dell'agente: vengono ripuliti da tag e istruzioni.
+ */
+function toToolPartner(row: unknown, type: PartnerType): unknown {
+  if (!row || typeof row !== "object") return row;
+
+  const item = row as Record<string, unknown>;
+  const strings = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((entry): entry is string => typeof entry === "string")
+      : undefined;
+  const optionalString = (...values: unknown[]) => {
+    const value = values.find(v => v !== null && v !== undefined && v !== "");
+    return value === undefined ? undefined : String(value);
+  };
+
+  const details = Object.fromEntries(
+    Object.entries(item).filter(
+      ([key, value]) =>
+        !OMITTED_DETAIL_KEYS.has(key) && value !== null && value !== undefined
+    )
+  );
+
+  return {
+    id: String(item.id ?? ""),
+    name: neutralizeUntrustedText(String(item.name ?? "")),
+    type,
+    description: neutralizeUntrustedText(String(item.description ?? "")),
+    location: String(item.location || item.city || ""),
+    price_range: String(item.price_range ?? ""),
+    rating: parseFloat(String(item.rating || item.star_rating || "0")),
+    amenities:
+      strings(item.amenities) ??
+      strings(item.menu_highlights) ??
+      strings(item.includes) ??
+      strings(item.features) ??
+      [],
+    coordinates: readCoordinates(item.coordinates) ?? undefined,
+    images: [
+      ...(typeof item.primary_image_url === "string"
+        ? [item.primary_image_url]
+        : []),
+      ...(strings(item.gallery_urls) ?? strings(item.images) ?? []),
+    ],
+    contact_info: {
+      phone: optionalString(item.phone),
+      email: optionalString(item.email),
+      website: optionalString(
+        item.website,
+        item.booking_url,
+        item.reservation_url
+      ),
+    },
+    rapid_api_data:
+      item.rapid_api_data && typeof item.rapid_api_data === "object"
+        ? item.rapid_api_data
+        : undefined,
+    similarity:
+      typeof item.similarity === "number" ? item.similarity : undefined,
+    distance_to_hotel_km:
+      typeof item.distance_to_hotel_km === "number"
+        ? item.distance_to_hotel_km
+        : undefined,
+    details: Object.keys(details).length > 0 ? details : undefined,
+  };
+}
@@ -1,9 +1,10 @@
 import { Agent } from "@openai/agents";
+import { getModelForRole } from "../models";
 import { tourSearchTool, tourVectorSearchTool } from "./base-tools";
 
 export const tourAgent = new Agent({
   name: "Via Nexo Tour Specialist",
-  model: "gpt-5-mini",
+  model: getModelForRole("tour_agent"),
   instructions: `
     You are Via Nexo's tour search specialist. Your ONLY job is to search for tours using the available tools.
 
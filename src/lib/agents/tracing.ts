@@ -0,0 +1,306 @@
+import { randomUUID } from "crypto";
+import type { RunContext, Runner, Usage } from "@openai/agents";
+import { supabase } from "../supabase-server";
+import type { QueryAnalysis } from "./query-classifier";
+import type { LocationAnchor } from "./location-anchor";
+import type { ClarificationRequest, PartnerData } from "@/types";
+
+const TRACES_ENABLED = process.env.AGENT_TRACES_ENABLED !== "false";
+// Output dei tool oltre questa soglia viene salvato troncato
+const TRACE_OUTPUT_MAX_CHARS = parseInt(
+  process.env.AGENT_TRACE_OUTPUT_MAX_CHARS || "20000"
+);
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface TokenUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ToolCallTrace {
+  callId: string;
+  tool: string;
+  /** Argomenti scelti dal modello (JSON già decodificato) */
+  args: unknown;
+  /** Output del tool, di norma un ToolPartnerResult */
+  output?: unknown;
+  startedAt: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface AgentTrace {
+  agent: PartnerData["type"];
+  status: "running" | "completed" | "failed" | "timed_out" | "cancelled";
+  startedAt: string;
+  durationMs: number;
+  maxTurns: number;
+  /** Ricerca vincolata all'hotel di riferimento */
+  anchored: boolean;
+  toolCalls: ToolCallTrace[];
+  usage: TokenUsage;
+  error?: string;
+}
+
+export interface OrchestrationTrace {
+  id: string;
+  query: string;
+  conversationId?: string;
+  userId?: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  strategy?: "ANCHORED" | "PARALLEL" | "SEQUENTIAL";
+  analysis?: QueryAnalysis;
+  anchor?: LocationAnchor;
+  /** Domanda restituita al posto dell'esecuzione degli agenti */
+  clarification?: ClarificationRequest;
+  agents: AgentTrace[];
+  partnersReturned: number;
+  usage: TokenUsage;
+  startedAt: string;
+  totalDurationMs: number;
+  error?: string;
+}
+
+/**
+ * Collegamento della traccia alla conversazione da cui parte la richiesta
+ */
+export interface TraceOptions {
+  conversationId?: string;
+  userId?: string;
+}
+
+export function createOrchestrationTrace(
+  query: string,
+  options: TraceOptions = {}
+): OrchestrationTrace {
+  return {
+    id: randomUUID(),
+    query,
+    conversationId: options.conversationId,
+    userId: options.userId,
+    status: "running",
+    agents: [],
+    partnersReturned: 0,
+    usage: emptyUsage(),
+    startedAt: new Date().toISOString(),
+    totalDurationMs: 0,
+  };
+}
+
+export function createAgentTrace(
+  agent: PartnerData["type"],
+  maxTurns: number,
+  anchored: boolean
+): AgentTrace {
+  return {
+    agent,
+    status: "running",
+    startedAt: new Date().toISOString(),
+    durationMs: 0,
+    maxTurns,
+    anchored,
+    toolCalls: [],
+    usage: emptyUsage(),
+  };
+}
+
+/**
+ * Registra sulla traccia dell'agente le chiamate ai tool e i token usati
+ * durante un run. Il Runner deve essere dedicato al singolo run, altrimenti
+ * gli eventi di run concorrenti finirebbero nella stessa traccia.
+ * Restituisce la funzione che chiude la traccia.
+ */
+export function traceAgentRun(
+  runner: Runner,
+  trace: AgentTrace
+): (status: AgentTrace["status"], error?: unknown) => void {
+  const startTime = Date.now();
+  const pendingCalls = new Map<
+    string,
+    { call: ToolCallTrace; start: number }
+  >();
+  let runContext: RunContext | undefined;
+
+  runner.on("agent_start", context => {
+    runContext = context;
+  });
+
+  runner.on("agent_tool_start", (context, _agent, tool, { toolCall }) => {
+    runContext = context;
+    const callId = readCallId(toolCall) ?? `${tool.name}-${pendingCalls.size}`;
+    pendingCalls.set(callId, {
+      start: Date.now(),
+      call: {
+        callId,
+        tool: tool.name,
+        args: parseJson(
+          "arguments" in toolCall ? String(toolCall.arguments) : undefined
+        ),
+        startedAt: new Date().toISOString(),
+        durationMs: 0,
+      },
+    });
+  });
+
+  runner.on(
+    "agent_tool_end",
+    (_context, _agent, tool, result, { toolCall }) => {
+      const callId = readCallId(toolCall) ?? `${tool.name}-0`;
+      const pending = pendingCalls.get(callId);
+      if (!pending) return;
+      pendingCalls.delete(callId);
+
+      const output = toTraceOutput(result);
+      const failed =
+        output &&
+        typeof output === "object" &&
+        (output as { success?: unknown }).success === false;
+
+      trace.toolCalls.push({
+        ...pending.call,
+        output,
+        durationMs: Date.now() - pending.start,
+        error: failed
+          ? String((output as { error?: unknown }).error ?? "Tool failed")
+          : undefined,
+      });
+    }
+  );
+
+  return (status, error) => {
+    // Tool ancora in corso quando il run si è interrotto
+    for (const { call, start } of pendingCalls.values()) {
+      trace.toolCalls.push({
+        ...call,
+        durationMs: Date.now() - start,
+        error: "Interrupted before completion",
+      });
+    }
+    pendingCalls.clear();
+
+    trace.status = status;
+    trace.durationMs = Date.now() - startTime;
+    trace.usage = toTokenUsage(runContext?.usage);
+    if (error) {
+      trace.error = error instanceof Error ? error.message : String(error);
+    }
+  };
+}
+
+/**
+ * Chiude la traccia dell'orchestrazione sommando i token degli agenti
+ */
+export function finishOrchestrationTrace(
+  trace: OrchestrationTrace,
+  status: OrchestrationTrace["status"],
+  error?: unknown
+): OrchestrationTrace {
+  trace.status = status;
+  trace.totalDurationMs = Date.now() - new Date(trace.startedAt).getTime();
+  trace.usage = trace.agents.reduce(
+    (total, agent) => ({
+      requests: total.requests + agent.usage.requests,
+      inputTokens: total.inputTokens + agent.usage.inputTokens,
+      outputTokens: total.outputTokens + agent.usage.outputTokens,
+      totalTokens: total.totalTokens + agent.usage.totalTokens,
+    }),
+    emptyUsage()
+  );
+  if (error) {
+    trace.error = error instanceof Error ? error.message : String(error);
+  }
+  return trace;
+}
+
+/**
+ * Salva la traccia in agent_traces. Un errore di salvataggio viene solo
+ * registrato: non deve mai far fallire la risposta all'utente.
+ */
+export async function saveOrchestrationTrace(
+  trace: OrchestrationTrace
+): Promise<boolean> {
+  if (!TRACES_ENABLED) return false;
+
+  try {
+    const { error } = await supabase.from("agent_traces").insert({
+      id: trace.id,
+      conversation_id:
+        trace.conversationId && UUID_PATTERN.test(trace.conversationId)
+          ? trace.conversationId
+          : null,
+      user_id: trace.userId ?? null,
+      query: trace.query,
+      status: trace.status,
+      strategy: trace.strategy ?? null,
+      analysis: trace.analysis ?? null,
+      anchor: trace.anchor ?? null,
+      clarification: trace.clarification ?? null,
+      agents: trace.agents,
+      partners_returned: trace.partnersReturned,
+      total_duration_ms: trace.totalDurationMs,
+      requests: trace.usage.requests,
+      input_tokens: trace.usage.inputTokens,
+      output_tokens: trace.usage.outputTokens,
+      total_tokens: trace.usage.totalTokens,
+      error: trace.error ?? null,
+      created_at: trace.startedAt,
+    });
+
+    if (error) {
+      console.error("[TRACING] Failed to save trace:", error.message);
+      return false;
+    }
+
+    console.log(
+      `[TRACING] Saved trace ${trace.id} (${trace.status}, ${trace.totalDurationMs}ms)`
+    );
+    return true;
+  } catch (error) {
+    console.error("[TRACING] Unexpected error saving trace:", error);
+    return false;
+  }
+}
+
+function emptyUsage(): TokenUsage {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+function toTokenUsage(usage?: Usage): TokenUsage {
+  if (!usage) return emptyUsage();
+  return {
+    requests: usage.requests,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    totalTokens: usage.totalTokens,
+  };
+}
+
+function readCallId(toolCall: object): string | undefined {
+  const { callId, id } = toolCall as { callId?: unknown; id?: unknown };
+  if (typeof callId === "string") return callId;
+  return typeof id === "string" ? id : undefined;
+}
+
+function parseJson(value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function toTraceOutput(result: string): unknown {
+  if (result.length > TRACE_OUTPUT_MAX_CHARS) {
+    return {
+      truncated: true,
+      length: result.length,
+      preview: result.slice(0, TRACE_OUTPUT_MAX_CHARS),
+    };
+  }
+  return parseJson(result);
+}
@@ -1,5 +1,14 @@
 import { Agent, run } from "@openai/agents";
-import type { PartnerData } from "@/types";
+import type { Locale, PartnerData } from "@/types";
+import { recordAgentRunUsage } from "../llm-usage";
+import { getModelForRole } from "../models";
+import { DEFAULT_LOCALE, LANGUAGE_NAMES } from "./language";
+import { getAgentMessages } from "./messages";
+import {
+  UNTRUSTED_DATA_NOTICE,
+  checkAgentOutput,
+  sanitizeUntrustedText,
+} from "./guardrails";
 
 interface PlanningInput {
   selectedPartners: PartnerData[];
@@ -14,6 +23,8 @@ interface PlanningInput {
       end?: string;
     };
   };
+  /** Lingua del piano e dei messaggi di avanzamento */
+  language?: Locale;
 }
 
 interface PlanningProgressUpdate {
@@ -33,12 +44,12 @@ type PlanningProgressCallback = (update: PlanningProgressUpdate) => void;
 
 export const travelPlanningAgent = new Agent({
   name: "Via Nexo Travel Planning Specialist",
-  model: "gpt-5-mini",
+  model: getModelForRole("travel_planner"),
   instructions: `
     You are Via Nexo's specialized travel planning agent. Your ONLY job is to create detailed, personalized itineraries using pre-selected partner services provided by the user.
 
     CORE MISSION:
-    You receive a curated list of partners (hotels, restaurants, tours, shuttles) that the user has specifically chosen, and you create optimized travel plans that incorporate these selections.
+    You receive a curated list of partners (hotels, restaurants, tours, experiences, shuttles) that the user has specifically chosen, and you create optimized travel plans that incorporate these selections.
 
     KEY RESPONSIBILITIES:
     1. 🏗️ ITINERARY STRUCTURING: Create day-by-day schedules using selected partners
@@ -101,24 +112,39 @@ export const travelPlanningAgent = new Agent({
     - Detail-oriented but not overwhelming  
     - Focus on the unique value of their selected partners
     - Provide actionable, practical advice
-    - Use Italian for section headers as shown above
+    - Write the whole plan in the language requested in the prompt, translating the section headers above when it is not Italian
   `,
   tools: [], // No search tools - works with provided data
 });
 
+/**
+ * Riga del prompt per un partner selezionato. Nome, località e descrizione
+ * arrivano dal client e da terze parti: vanno ripuliti prima del prompt.
+ */
+function formatPartnerLine(partner: PartnerData): string {
+  return `- ${sanitizeUntrustedText(partner.name, 100)} (${sanitizeUntrustedText(partner.location, 100)}) - ${partner.rating}⭐ - ${sanitizeUntrustedText(partner.price_range, 20)}\n  ${sanitizeUntrustedText(partner.description, 100)}`;
+}
+
 /**
  * Funzione helper per invocare il travel planning agent con progress tracking
  */
 export async function createTravelPlanWithProgress(
   input: PlanningInput,
-  onProgress?: PlanningProgressCallback
+  onProgress?: PlanningProgressCallback,
+  signal?: AbortSignal
 ): Promise<string> {
-  const { selectedPartners, userQuery, preferences = {} } = input;
+  const {
+    selectedPartners,
+    userQuery,
+    preferences = {},
+    language = DEFAULT_LOCALE,
+  } = input;
+  const progressMessages = getAgentMessages(language).planning;
 
   // Phase 1: Analyzing partners
   onProgress?.({
     type: "analyzing_partners",
-    message: `Analizzando ${selectedPartners.length} partner selezionati...`,
+    message: progressMessages.analyzingPartners(selectedPartners.length),
     timestamp: Date.now(),
     totalPartners: selectedPartners.length,
     partnersProcessed: 0,
@@ -130,12 +156,13 @@ export async function createTravelPlanWithProgress(
     restaurants: selectedPartners.filter(p => p.type === "restaurant"),
     tours: selectedPartners.filter(p => p.type === "tour"),
     shuttles: selectedPartners.filter(p => p.type === "shuttle"),
+    experiences: selectedPartners.filter(p => p.type === "experience"),
   };
 
   // Phase 2: Optimizing geography
   onProgress?.({
     type: "optimizing_geography",
-    message: "Ottimizzando disposizione geografica e logistica...",
+    message: progressMessages.optimizingGeography,
     timestamp: Date.now(),
     totalPartners: selectedPartners.length,
     partnersProcessed: selectedPartners.length,
@@ -147,61 +174,54 @@ export async function createTravelPlanWithProgress(
   // Phase 3: Creating itinerary
   onProgress?.({
     type: "creating_itinerary",
-    message: "Creazione itinerario dettagliato in corso...",
+    message: progressMessages.creatingItinerary,
     timestamp: Date.now(),
   });
 
   // Prepara il contesto dettagliato per l'agente
   const contextualPrompt = `
-RICHIESTA DELL'UTENTE: "${userQuery}"
+RICHIESTA DELL'UTENTE: "${sanitizeUntrustedText(userQuery)}"
 
 PARTNER SELEZIONATI (${selectedPartners.length} totali):
-
+<partner_data>
 🏨 HOTEL (${partnersByType.hotels.length}):
-${partnersByType.hotels
-  .map(
-    h =>
-      `- ${h.name} (${h.location}) - ${h.rating}⭐ - ${h.price_range}\n  ${h.description.substring(0, 100)}...`
-  )
-  .join("\n")}
+${partnersByType.hotels.map(formatPartnerLine).join("\n")}
 
 🍽️ RISTORANTI (${partnersByType.restaurants.length}):
-${partnersByType.restaurants
-  .map(
-    r =>
-      `- ${r.name} (${r.location}) - ${r.rating}⭐ - ${r.price_range}\n  ${r.description.substring(0, 100)}...`
-  )
-  .join("\n")}
+${partnersByType.restaurants.map(formatPartnerLine).join("\n")}
 
 🗺️ TOUR (${partnersByType.tours.length}):
-${partnersByType.tours
-  .map(
-    t =>
-      `- ${t.name} (${t.location}) - ${t.rating}⭐ - ${t.price_range}\n  ${t.description.substring(0, 100)}...`
-  )
-  .join("\n")}
+${partnersByType.tours.map(formatPartnerLine).join("\n")}
+
+🎭 ESPERIENZE (${partnersByType.experiences.length}):
+${partnersByType.experiences.map(formatPartnerLine).join("\n")}
 
 🚐 TRASPORTI (${partnersByType.shuttles.length}):
-${partnersByType.shuttles
-  .map(
-    s =>
-      `- ${s.name} (${s.location}) - ${s.rating}⭐ - ${s.price_range}\n  ${s.description.substring(0, 100)}...`
-  )
-  .join("\n")}
+${partnersByType.shuttles.map(formatPartnerLine).join("\n")}
+</partner_data>
 
 PREFERENZE UTENTE:
 ${preferences.duration ? `- Durata: ${preferences.duration} giorni` : ""}
-${preferences.budget ? `- Budget: ${preferences.budget}` : ""}
-${preferences.travelStyle ? `- Stile di viaggio: ${preferences.travelStyle}` : ""}
+${preferences.budget ? `- Budget: ${sanitizeUntrustedText(preferences.budget, 50)}` : ""}
+${preferences.travelStyle ? `- Stile di viaggio: ${sanitizeUntrustedText(preferences.travelStyle, 100)}` : ""}
 ${preferences.groupSize ? `- Dimensione gruppo: ${preferences.groupSize} persone` : ""}
 ${preferences.dates?.start ? `- Date: ${preferences.dates.start}${preferences.dates.end ? ` - ${preferences.dates.end}` : ""}` : ""}
 
 ISTRUZIONI:
 Crea un piano di viaggio dettagliato che integri TUTTI questi partner selezionati in modo logico e ottimizzato. Focus su timing, logistica e massimizzazione dell'esperienza per ognuno dei partner scelti dall'utente.
+Scrivi il piano in ${LANGUAGE_NAMES[language]}, la lingua dell'utente.
+${UNTRUSTED_DATA_NOTICE}
   `;
 
   // Esegui l'agente con il contesto completo
-  const response = await run(travelPlanningAgent, contextualPrompt);
+  const response = await run(travelPlanningAgent, contextualPrompt, {
+    signal,
+  });
+  recordAgentRunUsage(
+    travelPlanningAgent,
+    "travel_plan",
+    response.rawResponses
+  );
 
   if (!response.finalOutput) {
     console.error(
@@ -211,10 +231,15 @@ Crea un piano di viaggio dettagliato che integri TUTTI questi partner selezionat
     throw new Error("L'agente non è riuscito a generare un piano di viaggio.");
   }
 
+  // Un piano con istruzioni trapelate o iniettate non arriva all'utente
+  if (!checkAgentOutput(response.finalOutput).allowed) {
+    throw new Error("L'agente non è riuscito a generare un piano di viaggio.");
+  }
+
   // Phase 4: Adding recommendations
   onProgress?.({
     type: "adding_recommendations",
-    message: "Aggiungendo consigli esperti e finalizzazione...",
+    message: progressMessages.addingRecommendations,
     timestamp: Date.now(),
   });
 
@@ -224,7 +249,7 @@ Crea un piano di viaggio dettagliato che integri TUTTI questi partner selezionat
   // Phase 5: Finalizing plan
   onProgress?.({
     type: "finalizing_plan",
-    message: "Piano di viaggio completato!",
+    message: progressMessages.finalizingPlan,
     timestamp: Date.now(),
   });
 
@@ -0,0 +1,92 @@
+import type { AppliedPreference } from "@/types";
+
+/**
+ * Preferenze di viaggio salvate in user_profiles (via /api/auth/profile)
+ */
+export interface TravelPreferences {
+  travelStyle: string[];
+  /** Livello di prezzo 1-5, come price_range dei partner */
+  budgetRange?: number;
+  dietaryRestrictions: string[];
+  preferredLocations: string[];
+  preferredCurrency?: string;
+}
+
+/**
+ * Estrae le preferenze dalla riga di user_profiles. Restituisce null se il
+ * profilo non contiene preferenze utilizzabili.
+ */
+export function toTravelPreferences(
+  profile: Record<string, unknown> | null
+): TravelPreferences | null {
+  if (!profile) return null;
+
+  const strings = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter(
+          (entry): entry is string =>
+            typeof entry === "string" && entry.trim().length > 0
+        )
+      : [];
+
+  const budget = Number(profile.budget_range);
+  const preferences: TravelPreferences = {
+    travelStyle: strings(profile.travel_style),
+    // Valori fuori scala (es. importi) non sono confrontabili con price_range
+    budgetRange:
+      Number.isInteger(budget) && budget >= 1 && budget <= 5
+        ? budget
+        : undefined,
+    dietaryRestrictions: strings(profile.dietary_restrictions),
+    preferredLocations: strings(profile.preferred_locations),
+    preferredCurrency:
+      typeof profile.preferred_currency === "string"
+        ? profile.preferred_currency
+        : undefined,
+  };
+
+  const hasPreferences =
+    preferences.travelStyle.length > 0 ||
+    preferences.budgetRange !== undefined ||
+    preferences.dietaryRestrictions.length > 0 ||
+    preferences.preferredLocations.length > 0 ||
+    preferences.preferredCurrency !== undefined;
+
+  return hasPreferences ? preferences : null;
+}
+
+/**
+ * Riassunto delle preferenze da aggiungere alla richiesta per gli agenti
+ */
+export function describePreferencesForAgents(
+  preferences: TravelPreferences
+): string {
+  const lines = [
+    preferences.travelStyle.length > 0 &&
+      `travel style: ${preferences.travelStyle.join(", ")}`,
+    preferences.budgetRange !== undefined &&
+      `budget level: ${preferences.budgetRange}/5`,
+    preferences.dietaryRestrictions.length > 0 &&
+      `dietary restrictions: ${preferences.dietaryRestrictions.join(", ")}`,
+    preferences.preferredLocations.length > 0 &&
+      `favourite destinations: ${preferences.preferredLocations.join(", ")}`,
+    preferences.preferredCurrency &&
+      `currency: ${preferences.preferredCurrency}`,
+  ].filter((line): line is string => Boolean(line));
+
+  return `Saved traveller preferences (apply them unless the request says otherwise): ${lines.join("; ")}.`;
+}
+
+/**
+ * Preferenze applicate senza duplicati (lo stesso filtro può essere usato
+ * da più chiamate dello stesso tool)
+ */
+export function summarizeAppliedPreferences(
+  log: AppliedPreference[]
+): AppliedPreference[] {
+  const unique = new Map<string, AppliedPreference>();
+  for (const entry of log) {
+    unique.set(`${entry.preference}:${entry.partnerType}`, entry);
+  }
+  return Array.from(unique.values());
+}
@@ -19,6 +19,7 @@ export function extractFilterSuggestionsFromAIResponse(
     /(ristorante|cena|ristoranti)/gi,
     /(tour|escursione|visita guidata)/gi,
     /(trasporto|shuttle|noleggio|taxi)/gi,
+    /(corso di cucina|degustazione|cooking class|workshop)/gi,
   ];
 
   const foundPartnerTypes = new Set<string>();
@@ -44,6 +45,13 @@ export function extractFilterSuggestionsFromAIResponse(
           normalized.includes("shuttle")
         ) {
           foundPartnerTypes.add("shuttle");
+        } else if (
+          normalized.includes("cucina") ||
+          normalized.includes("cooking") ||
+          normalized.includes("degustazione") ||
+          normalized.includes("workshop")
+        ) {
+          foundPartnerTypes.add("experience");
         }
       });
     }
@@ -4,6 +4,10 @@
  */
 
 import { openai } from "./openai";
+import { recordLlmUsage } from "./llm-usage";
+import { LLM_PROVIDER, getModelForRole } from "./models";
+
+const DATE_EXTRACTION_MODEL = getModelForRole("date_extraction");
 
 export interface ExtractedDates {
   checkinDate: string; // YYYY-MM-DD format
@@ -28,6 +32,14 @@ class DateExtractionService {
   async extractDatesFromQuery(query: string): Promise<DateExtractionResult> {
     console.log(`[DATE_EXTRACTION] Processing query: "${query}"`);
 
+    // Offline mode: heuristics only
+    if (LLM_PROVIDER === "mock") {
+      const dates = this.extractDatesHeuristic(query);
+      return dates
+        ? { success: true, dates, fallbackUsed: true }
+        : this.getFallbackDates(query);
+    }
+
     try {
       // Get today's date for reference
       const today = new Date();
@@ -35,6 +47,7 @@ class DateExtractionService {
 
       const systemPrompt = `
 You are a date extraction specialist for hotel bookings. Extract check-in and check-out dates from user queries.
+Queries may be written in Italian, English, French, German or Spanish.
 
 Current date: ${todayStr}
 
@@ -61,10 +74,13 @@ Examples:
 - "Hotel per domani sera" → checkin: tomorrow, checkout: day after tomorrow
 - "Hotel a Milano per 3 notti dal 15 marzo" → checkin: 2025-03-15, checkout: 2025-03-18
 - "Hotel per 2 persone" → default dates + guests: 2
+- "Hôtel à Florence du 3 au 5 mai" → checkin: 2025-05-03, checkout: 2025-05-05
+- "Hotel in Venedig vom 10. bis 12. Juni für 2 Personen" → checkin: 2025-06-10, checkout: 2025-06-12, guests: 2
+- "Hotel en Roma del 8 al 11 de julio, 2 habitaciones" → checkin: 2025-07-08, checkout: 2025-07-11, rooms: 2
 `;
 
       const response = await openai.chat.completions.create({
-        model: "gpt-4",
+        model: DATE_EXTRACTION_MODEL,
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: query },
@@ -73,6 +89,13 @@ Examples:
         max_tokens: 300,
       });
 
+      recordLlmUsage({
+        model: DATE_EXTRACTION_MODEL,
+        operation: "date_extraction",
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      });
+
       const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error("No response from AI");
@@ -157,11 +180,13 @@ Examples:
 
     // Simple guest extraction from query
     const guestMatch = query.match(
-      /(\d+)\s*(?:persone|persons|people|ospiti|guests)/i
+      /(\d+)\s*(?:persone|persons|people|ospiti|guests|personnes|personen|gäste|personas|huéspedes)/i
     );
     const guests = guestMatch ? parseInt(guestMatch[1]) : 2;
 
-    const roomMatch = query.match(/(\d+)\s*(?:camere|rooms|stanze)/i);
+    const roomMatch = query.match(
+      /(\d+)\s*(?:camere|rooms|stanze|chambres|zimmer|habitaciones)/i
+    );
     const rooms = roomMatch ? parseInt(roomMatch[1]) : 1;
 
     const fallbackDates: ExtractedDates = {
@@ -194,7 +219,7 @@ Examples:
     const today = new Date();
 
     // Look for "tomorrow" keywords
-    if (/domani|tomorrow/i.test(query)) {
+    if (/domani|tomorrow|demain|morgen|mañana/i.test(query)) {
       const checkin = new Date(today);
       checkin.setDate(today.getDate() + 1);
 
@@ -209,8 +234,11 @@ Examples:
       };
     }
 
-    // Look for date patterns like "dal 20 al 22"
-    const dateRangeMatch = query.match(/dal\s+(\d{1,2})\s+al\s+(\d{1,2})/i);
+    // Look for date patterns like "dal 20 al 22" (also "du 20 au 22",
+    // "vom 20. bis 22.", "del 20 al 22")
+    const dateRangeMatch = query.match(
+      /(?:dal|du|vom|del)\s+(\d{1,2})\.?\s+(?:al|au|bis)\s+(\d{1,2})/i
+    );
     if (dateRangeMatch) {
       const day1 = parseInt(dateRangeMatch[1]);
       const day2 = parseInt(dateRangeMatch[2]);
@@ -0,0 +1,58 @@
+/**
+ * Transactional Email
+ * Sends emails through the Resend HTTP API. Without RESEND_API_KEY emails are
+ * skipped (and logged), so local setups work without a provider.
+ */
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+const EMAIL_FROM = process.env.EMAIL_FROM || "Via Nexo <noreply@vianexo.it>";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function isEmailConfigured(): boolean {
+  return !!process.env.RESEND_API_KEY;
+}
+
+/**
+ * Sends an email. Returns false when email is not configured; throws when
+ * the provider rejects the message.
+ */
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.warn(
+      `[EMAIL] RESEND_API_KEY not set, skipping email "${message.subject}"`
+    );
+    return false;
+  }
+
+  const response = await fetch(RESEND_API_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from: EMAIL_FROM, ...message }),
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => "");
+    throw new Error(`Email send failed (${response.status}): ${details}`);
+  }
+
+  return true;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,116 @@
+/**
+ * Geo Search Utilities
+ * Resolves the centre of a radius search
+ */
+
+import { z } from "zod";
+import { SEARCH_CONFIG } from "@/constants";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Centre of a radius search: explicit coordinates (also from the browser
+ * geolocation) or a named place
+ */
+export const geoFilterSchema = z
+  .object({
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+    place: z.string().trim().min(1).optional(),
+    radiusKm: z
+      .number()
+      .positive()
+      .max(SEARCH_CONFIG.maxRadius)
+      .default(SEARCH_CONFIG.defaultRadius),
+  })
+  .refine(
+    filter =>
+      (filter.lat !== undefined && filter.lng !== undefined) || !!filter.place,
+    { message: "Provide lat and lng or a place" }
+  );
+
+export type GeoFilter = z.infer<typeof geoFilterSchema>;
+
+// City centres for named-place searches, keyed by normalised name
+const KNOWN_PLACES: Record<string, GeoPoint> = {
+  roma: { lat: 41.9028, lng: 12.4964 },
+  milano: { lat: 45.4642, lng: 9.19 },
+  venezia: { lat: 45.4408, lng: 12.3155 },
+  firenze: { lat: 43.7696, lng: 11.2558 },
+  napoli: { lat: 40.8518, lng: 14.2681 },
+  torino: { lat: 45.0703, lng: 7.6869 },
+  bologna: { lat: 44.4949, lng: 11.3426 },
+  palermo: { lat: 38.1157, lng: 13.3615 },
+  genova: { lat: 44.4056, lng: 8.9463 },
+  verona: { lat: 45.4384, lng: 10.9916 },
+  padova: { lat: 45.4064, lng: 11.8768 },
+  trieste: { lat: 45.6495, lng: 13.7768 },
+  brescia: { lat: 45.5416, lng: 10.2118 },
+  modena: { lat: 44.6471, lng: 10.9252 },
+  parma: { lat: 44.8015, lng: 10.3279 },
+  "reggio emilia": { lat: 44.6989, lng: 10.6297 },
+  perugia: { lat: 43.1107, lng: 12.3908 },
+  livorno: { lat: 43.5485, lng: 10.3106 },
+  pisa: { lat: 43.7228, lng: 10.4017 },
+  siena: { lat: 43.3188, lng: 11.3308 },
+  bari: { lat: 41.1171, lng: 16.8719 },
+  lecce: { lat: 40.3515, lng: 18.175 },
+  catania: { lat: 37.5079, lng: 15.083 },
+  cagliari: { lat: 39.2238, lng: 9.1217 },
+  como: { lat: 45.8081, lng: 9.0852 },
+  sorrento: { lat: 40.6263, lng: 14.3758 },
+  positano: { lat: 40.6281, lng: 14.485 },
+  amalfi: { lat: 40.634, lng: 14.6027 },
+};
+
+// Exonyms used by foreign visitors
+const PLACE_ALIASES: Record<string, string> = {
+  rome: "roma",
+  milan: "milano",
+  venice: "venezia",
+  florence: "firenze",
+  naples: "napoli",
+  turin: "torino",
+  genoa: "genova",
+  padua: "padova",
+  rom: "roma",
+  mailand: "milano",
+  venedig: "venezia",
+  florenz: "firenze",
+  neapel: "napoli",
+  venise: "venezia",
+  venecia: "venezia",
+  florencia: "firenze",
+  napoles: "napoli",
+};
+
+/**
+ * Centre point of a geo filter, or null when the place is unknown
+ */
+export function resolveGeoCenter(filter: GeoFilter): GeoPoint | null {
+  if (filter.lat !== undefined && filter.lng !== undefined) {
+    return { lat: filter.lat, lng: filter.lng };
+  }
+  return filter.place ? resolvePlace(filter.place) : null;
+}
+
+export function resolvePlace(name: string): GeoPoint | null {
+  const key = normalizePlace(name);
+  return KNOWN_PLACES[PLACE_ALIASES[key] ?? key] ?? null;
+}
+
+export function roundDistance(km: number): number {
+  return Math.round(km * 100) / 100;
+}
+
+function normalizePlace(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(",")[0]
+    .trim();
+}
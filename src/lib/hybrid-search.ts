@@ -0,0 +1,211 @@
+/**
+ * Hybrid Search Service
+ * Full-text (Italian stemming) and vector similarity ranked together with
+ * reciprocal rank fusion by the hybrid_search_partners RPC
+ */
+
+import { supabase, type Partner } from "./supabase-server";
+import { generateEmbeddings } from "./openai";
+import {
+  createCacheKey,
+  embeddingsCache,
+  hashString,
+  withCache,
+} from "./cache";
+import type { GeoPoint } from "./geo";
+import { toViewPartnerType } from "./search-filters";
+
+const EMBEDDING_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+
+export interface HybridSearchOptions {
+  query: string;
+  // Text embedded for the vector ranking, when it differs from the query
+  semanticQuery?: string;
+  partnerTypes?: string[];
+  locations?: string[];
+  near?: { center: GeoPoint; radiusKm: number };
+  // Price level range, 1-5
+  priceRange?: [number, number];
+  minRating?: number;
+  // Type-specific filters, they do not exclude the other types
+  cuisineTypes?: string[];
+  tourTypes?: string[];
+  serviceTypes?: string[];
+  threshold?: number;
+}
+
+// Arguments of the hybrid_search_partners RPC
+export interface HybridSearchArgs {
+  query_text: string;
+  query_embedding: number[] | null;
+  match_threshold: number;
+  partner_types: string[];
+  locations: string[];
+  price_from: number;
+  price_to: number;
+  min_rating: number | null;
+  cuisine_types: string[];
+  tour_types: string[];
+  service_types: string[];
+  center_lat: number | null;
+  center_lng: number | null;
+  radius_km: number | null;
+}
+
+// Row of hybrid_search_partners: the partners_with_prices columns and scores
+export interface HybridSearchRow {
+  id: string;
+  name: string;
+  type: string;
+  description: string | null;
+  location: string | null;
+  price_range: string | null;
+  rating: number | string | null;
+  amenities: string[] | null;
+  coordinates: { lat: number; lng: number } | null;
+  contact_info: Record<string, string | undefined> | null;
+  images: string[] | null;
+  created_at: string | null;
+  updated_at: string | null;
+  price_level: number | null;
+  price_min: number | null;
+  price_max: number | null;
+  price_typical: number | null;
+  price_unit: string | null;
+  price_currency: string | null;
+  distance_km: number | null;
+  similarity: number | null;
+  text_rank: number | null;
+  semantic_rank: number | null;
+  rrf_score: number;
+}
+
+/**
+ * RPC arguments for a search. The RPC applies every filter before the limit
+ * and shares its text matching with partner_facets and the saved searches.
+ * Without an embedding (provider down) the ranking falls back to full-text
+ * only instead of failing the search.
+ */
+export async function buildHybridSearchArgs(
+  options: HybridSearchOptions
+): Promise<HybridSearchArgs> {
+  const semanticQuery = (options.semanticQuery ?? options.query).trim();
+
+  let queryEmbedding: number[] | null = null;
+  if (semanticQuery) {
+    try {
+      queryEmbedding = await withCache(
+        embeddingsCache,
+        createCacheKey("hybrid", hashString(semanticQuery)),
+        () => generateEmbeddings(semanticQuery),
+        EMBEDDING_CACHE_TTL
+      );
+    } catch (error) {
+      console.warn(
+        "[HYBRID_SEARCH] Embedding unavailable, using full-text ranking only:",
+        error
+      );
+    }
+  }
+
+  return {
+    query_text: options.query.trim(),
+    query_embedding: queryEmbedding?.length ? queryEmbedding : null,
+    match_threshold: options.threshold ?? 0.3,
+    partner_types: (options.partnerTypes ?? []).map(toViewPartnerType),
+    locations: options.locations ?? [],
+    price_from: options.priceRange?.[0] ?? 1,
+    price_to: options.priceRange?.[1] ?? 5,
+    min_rating: options.minRating ?? null,
+    cuisine_types: options.cuisineTypes ?? [],
+    tour_types: options.tourTypes ?? [],
+    service_types: options.serviceTypes ?? [],
+    center_lat: options.near?.center.lat ?? null,
+    center_lng: options.near?.center.lng ?? null,
+    radius_km: options.near?.radiusKm ?? null,
+  };
+}
+
+/**
+ * Best `limit` partners for the query, most relevant first
+ */
+export async function hybridSearch(
+  options: HybridSearchOptions & { limit: number; sortByDistance?: boolean }
+): Promise<HybridSearchRow[]> {
+  const args = await buildHybridSearchArgs(options);
+
+  console.log(
+    `[HYBRID_SEARCH] "${args.query_text}" - types: [${args.partner_types.join(", ")}], locations: [${args.locations.join(", ")}], semantic: ${args.query_embedding !== null}`
+  );
+
+  let query = supabase.rpc("hybrid_search_partners", args);
+  query =
+    options.sortByDistance && options.near
+      ? query.order("distance_km", { ascending: true })
+      : query.order("rrf_score", { ascending: false });
+
+  const { data, error } = await query
+    .order("id", { ascending: true })
+    .limit(options.limit);
+
+  if (error) {
+    console.error("[HYBRID_SEARCH] RPC error:", error);
+    throw new Error(`Hybrid search failed: ${error.message}`);
+  }
+
+  const rows = (data || []) as HybridSearchRow[];
+  console.log(`[HYBRID_SEARCH] ${rows.length} results`);
+  return rows;
+}
+
+export interface VectorSearchNear {
+  center: GeoPoint;
+  radiusKm: number;
+  // Nearest first instead of most relevant first
+  sortByDistance?: boolean;
+}
+
+/**
+ * Semantic partner search, ranked together with the full-text matches.
+ * Type and radius are applied by the RPC before the limit.
+ */
+export async function vectorSearch(
+  query: string,
+  partnerType?: Partner["type"],
+  limit: number = 10,
+  threshold: number = 0.3,
+  near?: VectorSearchNear
+): Promise<Partner[]> {
+  const rows = await hybridSearch({
+    query,
+    partnerTypes: partnerType ? [partnerType] : [],
+    near,
+    sortByDistance: near?.sortByDistance,
+    limit,
+    threshold,
+  });
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    type: (row.type === "transport" ? "shuttle" : row.type) as Partner["type"],
+    description: row.description || "",
+    location: row.location || "",
+    price_range: row.price_range || "",
+    rating:
+      typeof row.rating === "string" ? parseFloat(row.rating) : row.rating || 0,
+    amenities: row.amenities || [],
+    coordinates: row.coordinates || undefined,
+    images: row.images || [],
+    contact_info: row.contact_info
+      ? {
+          phone: row.contact_info.phone,
+          email: row.contact_info.email,
+          website: row.contact_info.website,
+        }
+      : undefined,
+    created_at: row.created_at || undefined,
+    updated_at: row.updated_at || undefined,
+    distance_km: row.distance_km ?? undefined,
+  }));
+}
@@ -0,0 +1,214 @@
+/**
+ * LLM Usage Accounting
+ * Records model, tokens and estimated cost of every OpenAI call and enforces
+ * per-user daily budgets
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { ModelResponse } from "@openai/agents";
+import { supabase } from "./supabase-server";
+
+const USAGE_TRACKING_ENABLED =
+  process.env.LLM_USAGE_TRACKING_ENABLED !== "false";
+// Default daily budget per authenticated user, 0 disables the limit
+const DAILY_BUDGET_USD = parseFloat(process.env.LLM_DAILY_BUDGET_USD || "0");
+
+/**
+ * USD per 1M tokens. Model snapshots (e.g. gpt-4o-mini-2024-07-18) use the
+ * price of the longest matching prefix.
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4": { input: 30, output: 60 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+export interface LlmUsageScope {
+  requestId: string;
+  /** API route that started the request, e.g. "chat/stream" */
+  route: string;
+  userId?: string;
+  conversationId?: string;
+}
+
+export interface LlmUsageRecord {
+  model: string;
+  /** What the call was for, e.g. "embedding" or "agent:hotel" */
+  operation: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface BudgetStatus {
+  allowed: boolean;
+  spentUsd: number;
+  /** null when no budget applies (anonymous user or limit disabled) */
+  limitUsd: number | null;
+}
+
+const usageScope = new AsyncLocalStorage<LlmUsageScope>();
+const unpricedModels = new Set<string>();
+
+/**
+ * Runs fn with the request, user and conversation that every LLM call made
+ * inside it (agents and tools included) is attributed to
+ */
+export function withLlmUsageScope<T>(
+  scope: Omit<LlmUsageScope, "requestId"> & { requestId?: string },
+  fn: () => T
+): T {
+  return usageScope.run(
+    { ...scope, requestId: scope.requestId ?? randomUUID() },
+    fn
+  );
+}
+
+export function estimateLlmCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number | null {
+  const pricedModel = Object.keys(MODEL_PRICING)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!pricedModel) return null;
+
+  const price = MODEL_PRICING[pricedModel];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Saves the usage of a single call. Never throws and never delays the caller:
+ * a failed insert is only logged.
+ */
+export function recordLlmUsage(record: LlmUsageRecord): void {
+  if (!USAGE_TRACKING_ENABLED) return;
+  if (record.inputTokens === 0 && record.outputTokens === 0) return;
+
+  const scope = usageScope.getStore();
+  const costUsd = estimateLlmCost(
+    record.model,
+    record.inputTokens,
+    record.outputTokens
+  );
+  if (costUsd === null && !unpricedModels.has(record.model)) {
+    unpricedModels.add(record.model);
+    console.warn(`[LLM_USAGE] No pricing for model ${record.model}`);
+  }
+
+  void Promise.resolve(
+    supabase.from("llm_usage").insert({
+      request_id: scope?.requestId ?? null,
+      route: scope?.route ?? null,
+      user_id: scope?.userId ?? null,
+      conversation_id: scope?.conversationId ?? null,
+      model: record.model,
+      operation: record.operation,
+      input_tokens: record.inputTokens,
+      output_tokens: record.outputTokens,
+      cost_usd: costUsd,
+    })
+  )
+    .then(({ error }) => {
+      if (error) {
+        console.error("[LLM_USAGE] Failed to save usage:", error.message);
+      }
+    })
+    .catch(error => {
+      console.error("[LLM_USAGE] Unexpected error saving usage:", error);
+    });
+}
+
+/**
+ * Records the model responses of an agent run (Runner result or stream)
+ */
+export function recordAgentRunUsage(
+  agent: { model: unknown },
+  operation: string,
+  rawResponses: ModelResponse[]
+): void {
+  recordLlmUsage({
+    model: agentModelName(agent),
+    operation,
+    inputTokens: rawResponses.reduce(
+      (total, response) => total + response.usage.inputTokens,
+      0
+    ),
+    outputTokens: rawResponses.reduce(
+      (total, response) => total + response.usage.outputTokens,
+      0
+    ),
+  });
+}
+
+export function agentModelName(agent: { model: unknown }): string {
+  return typeof agent.model === "string" && agent.model
+    ? agent.model
+    : "unknown";
+}
+
+/**
+ * Checks today's (UTC) spend of the user against the budget. The limit comes
+ * from user_profiles.daily_llm_budget_usd, or LLM_DAILY_BUDGET_USD when the
+ * profile has none. Errors never block the user.
+ */
+export async function checkDailyBudget(
+  userId: string | undefined
+): Promise<BudgetStatus> {
+  if (!userId) return { allowed: true, spentUsd: 0, limitUsd: null };
+
+  try {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const [profileResult, spendResult] = await Promise.all([
+      supabase
+        .from("user_profiles")
+        .select("daily_llm_budget_usd")
+        .eq("id", userId)
+        .maybeSingle(),
+      supabase.rpc("get_llm_spend_since", {
+        p_user_id: userId,
+        p_since: startOfDay.toISOString(),
+      }),
+    ]);
+
+    if (spendResult.error) {
+      console.error(
+        "[LLM_USAGE] Failed to read daily spend:",
+        spendResult.error.message
+      );
+      return { allowed: true, spentUsd: 0, limitUsd: null };
+    }
+
+    const profileBudget = Number(profileResult.data?.daily_llm_budget_usd);
+    const limitUsd =
+      profileResult.data?.daily_llm_budget_usd != null &&
+      Number.isFinite(profileBudget)
+        ? profileBudget
+        : DAILY_BUDGET_USD;
+    const spentUsd = Number(spendResult.data) || 0;
+
+    if (limitUsd <= 0) return { allowed: true, spentUsd, limitUsd: null };
+
+    const allowed = spentUsd < limitUsd;
+    if (!allowed) {
+      console.warn(
+        `[LLM_USAGE] Daily budget exceeded for user ${userId}: $${spentUsd.toFixed(4)} / $${limitUsd}`
+      );
+    }
+    return { allowed, spentUsd, limitUsd };
+  } catch (error) {
+    console.error("[LLM_USAGE] Unexpected error checking budget:", error);
+    return { allowed: true, spentUsd: 0, limitUsd: null };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Mock LLM Fixtures
+ * Scripted tool calls and answers played by the mock provider.
+ *
+ * Placeholders: {{query}} is the user request, {{location}} the first known
+ * destination it mentions (null in tool arguments, "la tua destinazione" in
+ * text when missing) and {{partners}} the partner list of a planning request.
+ */
+
+import type { ModelRole } from "./models";
+
+export interface MockAgentScript {
+  /** Tool called on the first turn, if the agent exposes it */
+  toolCall?: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+  /** Final answer, after the tool result or straight away without tools */
+  answer: string;
+}
+
+/** Destinations recognised in the request */
+export const MOCK_LOCATIONS = [
+  "Roma",
+  "Milano",
+  "Firenze",
+  "Venezia",
+  "Napoli",
+  "Torino",
+  "Bologna",
+  "Verona",
+  "Costiera Amalfitana",
+];
+
+export const MOCK_AGENT_SCRIPTS: Partial<Record<ModelRole, MockAgentScript>> = {
+  hotel_agent: {
+    toolCall: {
+      name: "search_hotels",
+      arguments: {
+        query: "{{query}}",
+        location: "{{location}}",
+        starRating: null,
+        priceRange: null,
+        amenities: null,
+        limit: 6,
+      },
+    },
+    answer: "Ho selezionato gli hotel più adatti a {{location}}.",
+  },
+  restaurant_agent: {
+    toolCall: {
+      name: "search_restaurants",
+      arguments: {
+        query: "{{query}}",
+        location: "{{location}}",
+        cuisineType: null,
+        priceRange: null,
+        michelinStars: null,
+        dietaryOptions: null,
+        limit: 6,
+      },
+    },
+    answer: "Ecco i ristoranti che ti consiglio a {{location}}.",
+  },
+  tour_agent: {
+    toolCall: {
+      name: "search_tours",
+      arguments: {
+        query: "{{query}}",
+        location: "{{location}}",
+        tourType: null,
+        difficultyLevel: null,
+        duration: null,
+        maxParticipants: null,
+        limit: 6,
+      },
+    },
+    answer: "Questi sono i tour più interessanti a {{location}}.",
+  },
+  shuttle_agent: {
+    toolCall: {
+      name: "search_shuttles",
+      arguments: {
+        query: "{{query}}",
+        departureLocation: null,
+        arrivalLocation: "{{location}}",
+        capacity: null,
+        serviceType: null,
+        limit: 6,
+      },
+    },
+    answer: "Ho trovato questi transfer per {{location}}.",
+  },
+  experience_agent: {
+    toolCall: {
+      name: "search_experiences",
+      arguments: {
+        query: "{{query}}",
+        location: "{{location}}",
+        experienceType: null,
+        maxPricePerPerson: null,
+        participants: null,
+        language: null,
+        limit: 6,
+      },
+    },
+    answer: "Ecco alcune esperienze da vivere a {{location}}.",
+  },
+  chat_agent: {
+    answer:
+      "Ottima scelta! Per la tua richiesta su {{location}} ho raccolto le opzioni migliori tra i nostri partner: trovi tutti i dettagli nelle schede qui sotto. Se vuoi posso restringere la ricerca per prezzo, date o zona.",
+  },
+  travel_planner: {
+    answer: `# Il tuo viaggio a {{location}}
+
+## Giorno 1
+- Arrivo e check-in
+- Pomeriggio libero per una prima passeggiata
+- Cena in uno dei locali selezionati
+
+## Giorno 2
+- Mattina dedicata alle attività in programma
+- Pranzo veloce in centro
+- Sera libera
+
+## Partner inclusi nel piano
+{{partners}}
+
+*Piano generato in modalità demo.*`,
+  },
+};
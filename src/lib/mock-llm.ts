@@ -0,0 +1,227 @@
+/**
+ * Mock LLM Provider
+ * Deterministic stand-in for OpenAI that plays the scripts in
+ * mock-llm-fixtures.ts, so chat and planning run offline
+ */
+
+import {
+  Usage,
+  setDefaultModelProvider,
+  setTracingDisabled,
+  type AgentInputItem,
+  type Model,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse,
+  type StreamEvent,
+  type protocol,
+} from "@openai/agents";
+import type { ModelRole } from "./models";
+import {
+  MOCK_AGENT_SCRIPTS,
+  MOCK_LOCATIONS,
+  type MockAgentScript,
+} from "./mock-llm-fixtures";
+
+export const MOCK_MODEL_PREFIX = "mock/";
+
+const MOCK_EMBEDDING_DIMENSIONS = 1536;
+const DEFAULT_ANSWER = "Risposta di esempio generata in modalità demo.";
+
+class MockModel implements Model {
+  constructor(private readonly role: string) {}
+
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    request.signal?.throwIfAborted();
+    return {
+      responseId: `mock_${Date.now()}`,
+      usage: new Usage(),
+      output: this.playScript(request),
+    };
+  }
+
+  async *getStreamedResponse(
+    request: ModelRequest
+  ): AsyncIterable<StreamEvent> {
+    request.signal?.throwIfAborted();
+    const output = this.playScript(request);
+    yield { type: "response_started" };
+
+    for (const item of output) {
+      if (item.type !== "message" || item.role !== "assistant") continue;
+      for (const part of item.content) {
+        if (part.type !== "output_text") continue;
+        // Word by word, like a real stream
+        for (const delta of part.text.match(/\S+\s*/g) ?? []) {
+          yield { type: "output_text_delta", delta };
+        }
+      }
+    }
+
+    yield {
+      type: "response_done",
+      response: {
+        id: `mock_${Date.now()}`,
+        usage: {
+          requests: 1,
+          inputTokens: 0,
+          outputTokens: 0,
+          totalTokens: 0,
+        },
+        output,
+      },
+    };
+  }
+
+  /**
+   * First turn: the scripted tool call, if the agent exposes that tool.
+   * After the tool result (or without tools): the final answer.
+   */
+  private playScript(request: ModelRequest): protocol.OutputModelItem[] {
+    const script: MockAgentScript | undefined =
+      MOCK_AGENT_SCRIPTS[this.role as ModelRole];
+    const inputText = readInputText(request.input);
+    const values = {
+      query: extractQuery(inputText),
+      location:
+        MOCK_LOCATIONS.find(location =>
+          inputText.toLowerCase().includes(location.toLowerCase())
+        ) ?? null,
+      partners: extractPartnerLines(inputText),
+    };
+
+    const hasToolResult =
+      Array.isArray(request.input) &&
+      request.input.some(item => item.type === "function_call_result");
+    const toolCall = script?.toolCall;
+    const toolAvailable = request.tools.some(
+      tool => tool.name === toolCall?.name
+    );
+
+    if (toolCall && toolAvailable && !hasToolResult) {
+      return [
+        {
+          type: "function_call",
+          callId: `mock_call_${toolCall.name}_${Date.now()}`,
+          name: toolCall.name,
+          status: "completed",
+          arguments: JSON.stringify(fillArguments(toolCall.arguments, values)),
+        },
+      ];
+    }
+
+    return [
+      {
+        type: "message",
+        role: "assistant",
+        status: "completed",
+        content: [
+          {
+            type: "output_text",
+            text: fillText(script?.answer ?? DEFAULT_ANSWER, values),
+          },
+        ],
+      },
+    ];
+  }
+}
+
+class MockModelProvider implements ModelProvider {
+  getModel(modelName?: string): Model {
+    return new MockModel(
+      modelName?.startsWith(MOCK_MODEL_PREFIX)
+        ? modelName.slice(MOCK_MODEL_PREFIX.length)
+        : (modelName ?? "unknown")
+    );
+  }
+}
+
+/**
+ * Replaces the OpenAI provider of the agents with the mock one
+ */
+export function registerMockModelProvider(): void {
+  setDefaultModelProvider(new MockModelProvider());
+  // Trace export would fail without an OpenAI key
+  setTracingDisabled(true);
+  console.log("[MOCK_LLM] Using the mock model provider");
+}
+
+/**
+ * Deterministic embedding: same text, same normalized vector
+ */
+export function createMockEmbedding(text: string): number[] {
+  let seed = 0;
+  for (const char of text) {
+    seed = (seed * 31 + char.charCodeAt(0)) >>> 0;
+  }
+
+  const vector = Array.from({ length: MOCK_EMBEDDING_DIMENSIONS }, () => {
+    // xorshift32
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return ((seed >>> 0) / 0xffffffff) * 2 - 1;
+  });
+
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(value => value / norm);
+}
+
+function readInputText(input: string | AgentInputItem[]): string {
+  if (typeof input === "string") return input;
+
+  const lastUserMessage = [...input]
+    .reverse()
+    .find(item => item.type === "message" && item.role === "user");
+  if (!lastUserMessage || lastUserMessage.type !== "message") return "";
+  if (lastUserMessage.role !== "user") return "";
+
+  return typeof lastUserMessage.content === "string"
+    ? lastUserMessage.content
+    : lastUserMessage.content
+        .map(part => (part.type === "input_text" ? part.text : ""))
+        .join(" ");
+}
+
+/**
+ * User request inside the contextual prompts of orchestrator and chat
+ */
+function extractQuery(inputText: string): string {
+  const match = inputText.match(/(?:Current query|User Query):\s*"?([^"\n]+)/);
+  return (match?.[1] ?? inputText.split("\n")[0]).trim();
+}
+
+/**
+ * "- Name (location) ..." lines of the travel planner prompt
+ */
+function extractPartnerLines(inputText: string): string {
+  const names = Array.from(inputText.matchAll(/^- (.+?) \(/gm), match =>
+    match[1].trim()
+  );
+  return names.length > 0
+    ? names.map(name => `- ${name}`).join("\n")
+    : "- Nessun partner selezionato";
+}
+
+function fillText(
+  template: string,
+  values: { query: string; location: string | null; partners: string }
+): string {
+  return template
+    .replaceAll("{{query}}", values.query)
+    .replaceAll("{{location}}", values.location ?? "la tua destinazione")
+    .replaceAll("{{partners}}", values.partners);
+}
+
+function fillArguments(
+  args: Record<string, unknown>,
+  values: { query: string; location: string | null }
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => {
+      if (value === "{{query}}") return [key, values.query];
+      if (value === "{{location}}") return [key, values.location];
+      return [key, value];
+    })
+  );
+}
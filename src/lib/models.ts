@@ -0,0 +1,62 @@
+/**
+ * Model Registry
+ * Resolves the model used by every agent, classifier and planner from config
+ * and selects the provider (OpenAI or the offline mock)
+ */
+
+import { MOCK_MODEL_PREFIX, registerMockModelProvider } from "./mock-llm";
+
+export type ModelRole =
+  | "hotel_agent"
+  | "restaurant_agent"
+  | "tour_agent"
+  | "shuttle_agent"
+  | "experience_agent"
+  | "chat_agent"
+  | "travel_planner"
+  | "query_classifier"
+  | "date_extraction"
+  | "embeddings";
+
+export type LlmProvider = "openai" | "mock";
+
+/**
+ * "mock" runs chat and planning offline with scripted tool calls and answers
+ * from fixtures (see mock-llm.ts)
+ */
+export const LLM_PROVIDER: LlmProvider =
+  process.env.LLM_PROVIDER === "mock" ? "mock" : "openai";
+
+// Shared default for the agents, each role can still override it
+const AGENT_MODEL = process.env.AGENT_MODEL || "gpt-5-mini";
+
+/**
+ * Environment variable and default model for each role
+ */
+const MODEL_REGISTRY: Record<ModelRole, { env: string; fallback: string }> = {
+  hotel_agent: { env: "HOTEL_AGENT_MODEL", fallback: AGENT_MODEL },
+  restaurant_agent: { env: "RESTAURANT_AGENT_MODEL", fallback: AGENT_MODEL },
+  tour_agent: { env: "TOUR_AGENT_MODEL", fallback: AGENT_MODEL },
+  shuttle_agent: { env: "SHUTTLE_AGENT_MODEL", fallback: AGENT_MODEL },
+  experience_agent: { env: "EXPERIENCE_AGENT_MODEL", fallback: AGENT_MODEL },
+  chat_agent: { env: "CHAT_AGENT_MODEL", fallback: AGENT_MODEL },
+  travel_planner: { env: "TRAVEL_PLANNER_MODEL", fallback: AGENT_MODEL },
+  query_classifier: { env: "QUERY_CLASSIFIER_MODEL", fallback: "gpt-4o-mini" },
+  date_extraction: { env: "DATE_EXTRACTION_MODEL", fallback: "gpt-4" },
+  embeddings: { env: "EMBEDDINGS_MODEL", fallback: "text-embedding-3-small" },
+};
+
+/**
+ * Model name for a role. With the mock provider the name identifies the
+ * role, so the mock model knows which script to play.
+ */
+export function getModelForRole(role: ModelRole): string {
+  if (LLM_PROVIDER === "mock") return `${MOCK_MODEL_PREFIX}${role}`;
+
+  const { env, fallback } = MODEL_REGISTRY[role];
+  return process.env[env] || fallback;
+}
+
+if (LLM_PROVIDER === "mock") {
+  registerMockModelProvider();
+}
@@ -0,0 +1,80 @@
+/**
+ * In-app Notifications
+ * Notifications shown in the header bell, e.g. new saved search matches
+ */
+
+import { supabase } from "./supabase-server";
+import type { UserNotification } from "@/types";
+
+interface NotificationRow {
+  id: string;
+  type: UserNotification["type"];
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown> | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export async function listNotifications(
+  userId: string,
+  limit: number
+): Promise<{ notifications: UserNotification[]; unreadCount: number }> {
+  const [list, unread] = await Promise.all([
+    supabase
+      .from("notifications")
+      .select("id, type, title, body, link, data, read_at, created_at")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit),
+    supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null),
+  ]);
+
+  if (list.error) {
+    throw new Error(`Failed to load notifications: ${list.error.message}`);
+  }
+  if (unread.error) {
+    throw new Error(`Failed to count notifications: ${unread.error.message}`);
+  }
+
+  return {
+    notifications: ((list.data || []) as NotificationRow[]).map(row => ({
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      body: row.body,
+      link: row.link,
+      data: row.data || {},
+      readAt: row.read_at,
+      createdAt: row.created_at,
+    })),
+    unreadCount: unread.count ?? 0,
+  };
+}
+
+/**
+ * Marks the given notifications as read, or all of them without ids
+ */
+export async function markNotificationsRead(
+  userId: string,
+  ids?: string[]
+): Promise<void> {
+  let query = supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (ids) {
+    query = query.in("id", ids);
+  }
+
+  const { error } = await query;
+  if (error) {
+    throw new Error(`Failed to update notifications: ${error.message}`);
+  }
+}
@@ -1,16 +1,19 @@
 import OpenAI from "openai";
+import { recordLlmUsage } from "./llm-usage";
+import { LLM_PROVIDER, getModelForRole } from "./models";
+import { createMockEmbedding } from "./mock-llm";
 
-if (!process.env.OPENAI_API_KEY) {
+// The mock provider runs offline and never calls OpenAI
+if (!process.env.OPENAI_API_KEY && LLM_PROVIDER !== "mock") {
   throw new Error("Missing OPENAI_API_KEY environment variable");
 }
 
 export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+  apiKey: process.env.OPENAI_API_KEY || "mock-provider",
 });
 
 export const DEFAULT_MODEL = process.env.OPENAI_MODEL || "gpt-5-mini";
-export const EMBEDDINGS_MODEL =
-  process.env.EMBEDDINGS_MODEL || "text-embedding-3-small";
+export const EMBEDDINGS_MODEL = getModelForRole("embeddings");
 export const MAX_TOKENS = parseInt(process.env.MAX_TOKENS_RESPONSE || "500");
 export const TEMPERATURE = parseFloat(process.env.TEMPERATURE || "0.7");
 
@@ -22,12 +25,23 @@ export const config = {
 };
 
 export async function generateEmbeddings(text: string): Promise<number[]> {
+  if (LLM_PROVIDER === "mock") {
+    return createMockEmbedding(text);
+  }
+
   try {
     const response = await openai.embeddings.create({
       model: EMBEDDINGS_MODEL,
       input: text,
     });
 
+    recordLlmUsage({
+      model: EMBEDDINGS_MODEL,
+      operation: "embedding",
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: 0,
+    });
+
     return response.data[0]?.embedding || [];
   } catch (error) {
     console.error("Error generating embeddings:", error);
@@ -52,6 +66,16 @@ export async function createChatCompletion(
       stream: options?.stream || false,
     });
 
+    // Streamed responses do not report usage
+    if ("usage" in response && response.usage) {
+      recordLlmUsage({
+        model: DEFAULT_MODEL,
+        operation: "chat_completion",
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      });
+    }
+
     return response;
   } catch (error) {
     console.error("Error creating chat completion:", error);
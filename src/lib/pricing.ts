@@ -0,0 +1,85 @@
+/**
+ * Partner pricing helpers
+ * Normalises the partner_prices columns and formats prices for the cards
+ */
+
+import type { PartnerPrice, PriceRange } from "@/types";
+
+// Level of the text buckets of the partners view
+export const PRICE_RANGE_LEVELS: Record<PriceRange, number> = {
+  budget: 1,
+  "mid-range": 2,
+  luxury: 3,
+  premium: 4,
+};
+
+const PRICE_UNIT_LABELS: Record<PartnerPrice["unit"], string> = {
+  night: "notte",
+  person: "persona",
+  trip: "tratta",
+};
+
+interface PriceColumns {
+  price_range?: string | null;
+  price_level?: number | null;
+  price_min?: number | string | null;
+  price_max?: number | string | null;
+  price_typical?: number | string | null;
+  price_unit?: string | null;
+  price_currency?: string | null;
+}
+
+/**
+ * Build the price of a partners_with_prices row. The level falls back to
+ * the price_range bucket when no amount is known.
+ */
+export function toPartnerPrice(row: PriceColumns): PartnerPrice {
+  const bucketLevel =
+    row.price_range && row.price_range in PRICE_RANGE_LEVELS
+      ? PRICE_RANGE_LEVELS[row.price_range as PriceRange]
+      : null;
+
+  return {
+    level: toAmount(row.price_level) ?? bucketLevel,
+    min: toAmount(row.price_min),
+    max: toAmount(row.price_max),
+    typical: toAmount(row.price_typical),
+    unit:
+      row.price_unit === "night" || row.price_unit === "trip"
+        ? row.price_unit
+        : "person",
+    currency: row.price_currency || "EUR",
+  };
+}
+
+/**
+ * "120 €–180 € / notte", "da 45 € / persona" or null when no amount is known
+ */
+export function formatPartnerPrice(price: PartnerPrice): string | null {
+  const format = (amount: number) => {
+    try {
+      return new Intl.NumberFormat("it-IT", {
+        style: "currency",
+        currency: price.currency,
+        maximumFractionDigits: 0,
+      }).format(amount);
+    } catch {
+      // Currency code not known to Intl
+      return `${Math.round(amount)} ${price.currency}`;
+    }
+  };
+  const unit = PRICE_UNIT_LABELS[price.unit];
+
+  if (price.min !== null && price.max !== null && price.max > price.min) {
+    return `${format(price.min)}–${format(price.max)} / ${unit}`;
+  }
+  const amount = price.typical ?? price.min ?? price.max;
+  return amount !== null ? `da ${format(amount)} / ${unit}` : null;
+}
+
+// Supabase returns numeric columns as numbers or strings
+function toAmount(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : null;
+}
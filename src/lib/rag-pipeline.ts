@@ -1,4 +1,5 @@
-import { vectorSearch, searchPartners } from "./supabase-server";
+import { searchPartners } from "./supabase-server";
+import { vectorSearch } from "./hybrid-search";
 import { PartnerData } from "@/types";
 // import { generateEmbeddings } from './openai'
 import { chatWithAgent } from "./agents";
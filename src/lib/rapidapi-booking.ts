@@ -171,6 +171,7 @@ class RapidApiBookingService {
   private async makeRequest<T>(
     endpoint: string,
     params: Record<string, unknown> = {},
+    signal?: AbortSignal,
     retries = 2
   ): Promise<T> {
     const url = new URL(`${this.baseUrl}${endpoint}`);
@@ -186,13 +187,18 @@ class RapidApiBookingService {
 
     // Wait for rate limit before making request
     await this.waitForRateLimit();
+    signal?.throwIfAborted();
+
+    // 30 second timeout, combined with the caller's cancellation signal
+    const timeoutSignal = AbortSignal.timeout(30000);
 
     try {
       const response = await fetch(url.toString(), {
         method: "GET",
         headers: this.getHeaders(),
-        // 30 second timeout
-        signal: AbortSignal.timeout(30000),
+        signal: signal
+          ? AbortSignal.any([signal, timeoutSignal])
+          : timeoutSignal,
       });
 
       if (response.status === 429 && retries > 0) {
@@ -200,7 +206,7 @@ class RapidApiBookingService {
           `[RAPIDAPI_BOOKING] Rate limited, retrying in 1s... (${retries} retries left)`
         );
         await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-        return this.makeRequest<T>(endpoint, params, retries - 1);
+        return this.makeRequest<T>(endpoint, params, signal, retries - 1);
       }
 
       if (!response.ok) {
@@ -217,6 +223,11 @@ class RapidApiBookingService {
 
       return data;
     } catch (error) {
+      if (signal?.aborted) {
+        console.log(`[RAPIDAPI_BOOKING] Request cancelled: ${endpoint}`);
+        throw error;
+      }
+
       if (
         error instanceof Error &&
         error.message.includes("429") &&
@@ -226,7 +237,7 @@ class RapidApiBookingService {
           `[RAPIDAPI_BOOKING] Retrying after rate limit... (${retries} retries left)`
         );
         await new Promise(resolve => setTimeout(resolve, 1000));
-        return this.makeRequest<T>(endpoint, params, retries - 1);
+        return this.makeRequest<T>(endpoint, params, signal, retries - 1);
       }
 
       console.error("[RAPIDAPI_BOOKING] Request failed:", error);
@@ -235,7 +246,8 @@ class RapidApiBookingService {
   }
 
   async searchHotels(
-    params: RapidApiHotelSearchParams
+    params: RapidApiHotelSearchParams,
+    signal?: AbortSignal
   ): Promise<RapidApiHotelResponse> {
     console.log(`[RAPIDAPI_BOOKING] Searching hotels:`, params);
 
@@ -257,7 +269,10 @@ class RapidApiBookingService {
         `[RAPIDAPI_BOOKING] Looking up destination ID for: ${params.location}`
       );
 
-      const searchResults = await this.searchDestinations(params.location);
+      const searchResults = await this.searchDestinations(
+        params.location,
+        signal
+      );
       if (searchResults.length > 0) {
         const destId = searchResults[0].dest_id;
         console.log(
@@ -288,7 +303,11 @@ class RapidApiBookingService {
           }
         });
 
-        rawResponse = await this.makeRequest("/hotels/searchHotels", apiParams);
+        rawResponse = await this.makeRequest(
+          "/hotels/searchHotels",
+          apiParams,
+          signal
+        );
 
         // Transform the response to our format with destination ID
         const hotels = this.transformHotelsResponse(
@@ -323,12 +342,15 @@ class RapidApiBookingService {
   }
 
   async searchDestinations(
-    query: string
+    query: string,
+    signal?: AbortSignal
   ): Promise<Array<{ dest_id: string; name: string; type: string }>> {
     try {
-      const response = await this.makeRequest("/hotels/searchDestination", {
-        query,
-      });
+      const response = await this.makeRequest(
+        "/hotels/searchDestination",
+        { query },
+        signal
+      );
 
       // Transform response to our format - handle booking-com15 API structure
       const responseData = response as { status?: boolean; data?: unknown[] };
@@ -664,7 +686,8 @@ class RapidApiBookingService {
     hotelId: string,
     checkinDate: string,
     checkoutDate: string,
-    currency = "EUR"
+    currency = "EUR",
+    signal?: AbortSignal
   ): Promise<HotelAvailability> {
     console.log(
       `[RAPIDAPI_BOOKING] Checking availability for hotel ${hotelId}:`,
@@ -686,11 +709,15 @@ class RapidApiBookingService {
     }
 
     try {
-      const response = await this.makeRequest("/hotels/getAvailability", {
-        hotel_id: hotelId,
-        currency_code: currency,
-        location: "IT",
-      });
+      const response = await this.makeRequest(
+        "/hotels/getAvailability",
+        {
+          hotel_id: hotelId,
+          currency_code: currency,
+          location: "IT",
+        },
+        signal
+      );
 
       // Parse response from booking-com15 API
       const availabilityData = response as {
@@ -833,7 +860,8 @@ class RapidApiBookingService {
     adults = 2,
     rooms = 1,
     children = 0,
-    currency = "EUR"
+    currency = "EUR",
+    signal?: AbortSignal
   ): Promise<HotelDetails | null> {
     console.log(`[RAPIDAPI_BOOKING] Getting hotel details for ${hotelId}:`, {
       checkinDate,
@@ -877,7 +905,8 @@ class RapidApiBookingService {
 
       const response = await this.makeRequest(
         "/hotels/getHotelDetails",
-        params
+        params,
+        signal
       );
 
       console.log(`[RAPIDAPI_BOOKING] Hotel details response for ${hotelId}:`, {
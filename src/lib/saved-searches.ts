@@ -0,0 +1,529 @@
+/**
+ * Saved Searches
+ * Traditional searches saved by users and the scheduled job that notifies
+ * the partners matching them since the last check
+ */
+
+import { z } from "zod";
+import { supabase } from "./supabase-server";
+import { resolveGeoCenter } from "./geo";
+import { searchFiltersSchema } from "./search-filters";
+import { buildHybridSearchArgs } from "./hybrid-search";
+import { escapeHtml, isEmailConfigured, sendEmail } from "./email";
+import type { SavedSearch } from "@/types";
+
+export const MAX_SAVED_SEARCHES = 20;
+// Minimum time between two checks of the same saved search. The job runs
+// every hour and only checks the searches that are due
+const CHECK_INTERVAL_HOURS = parseInt(
+  process.env.SAVED_SEARCH_CHECK_INTERVAL_HOURS || "24"
+);
+// A run stops loading batches after this long, below the route maxDuration:
+// the searches left are the oldest due ones on the next run
+const RUN_TIME_BUDGET_MS = 240 * 1000;
+// Partners named in a notification, the rest are only counted
+const NOTIFIED_PARTNERS_PREVIEW = 5;
+
+export const savedSearchInputSchema = searchFiltersSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  sortBy: z.string().max(20).optional(),
+  notify: z.boolean().default(true),
+});
+
+export type SavedSearchInput = z.infer<typeof savedSearchInputSchema>;
+
+interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  filters: SavedSearch["filters"];
+  notify: boolean;
+  last_checked_at: string | null;
+  created_at: string;
+}
+
+interface NewMatchRow {
+  partner_id: string;
+  partner_name: string;
+  partner_type: string;
+  partner_location: string | null;
+}
+
+export interface SavedSearchAlertsSummary {
+  checked: number;
+  newMatches: number;
+  notifications: number;
+  emails: number;
+  failed: number;
+}
+
+/**
+ * Search page URL restoring the saved query and filters
+ */
+export function buildSavedSearchPath(
+  search: Pick<SavedSearch, "query" | "filters">
+): string {
+  const { filters } = search;
+  const params = new URLSearchParams();
+
+  if (search.query) params.set("q", search.query);
+  if (filters.partnerTypes.length > 0) {
+    params.set("types", filters.partnerTypes.join(","));
+  }
+  if (filters.locations.length > 0) {
+    params.set("locations", filters.locations.join(","));
+  }
+  if (filters.cuisineTypes?.length) {
+    params.set("cuisine_types", filters.cuisineTypes.join(","));
+  }
+  if (filters.tourTypes?.length) {
+    params.set("tour_types", filters.tourTypes.join(","));
+  }
+  if (filters.serviceTypes?.length) {
+    params.set("service_types", filters.serviceTypes.join(","));
+  }
+  if (filters.priceRange[0] > 1 || filters.priceRange[1] < 5) {
+    params.set("price_min", filters.priceRange[0].toString());
+    params.set("price_max", filters.priceRange[1].toString());
+  }
+  if (filters.sortBy && filters.sortBy !== "relevance") {
+    params.set("sort", filters.sortBy);
+  }
+  if (filters.minRating !== undefined) {
+    params.set("min_rating", filters.minRating.toString());
+  }
+  if (filters.near) {
+    if (filters.near.place) {
+      params.set("near_place", filters.near.place);
+    } else {
+      params.set("near_lat", filters.near.lat.toFixed(5));
+      params.set("near_lng", filters.near.lng.toFixed(5));
+    }
+    params.set("radius", filters.near.radiusKm.toString());
+  }
+
+  return `/search?${params.toString()}`;
+}
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    filters: row.filters,
+    notify: row.notify,
+    url: buildSavedSearchPath(row),
+    lastCheckedAt: row.last_checked_at,
+    createdAt: row.created_at,
+  };
+}
+
+export async function listSavedSearches(
+  userId: string
+): Promise<SavedSearch[]> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`);
+  }
+
+  return ((data || []) as SavedSearchRow[]).map(toSavedSearch);
+}
+
+export async function countSavedSearches(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("saved_searches")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to count saved searches: ${error.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Saves a search and records its current results, so that only partners
+ * added later are notified. Returns null for a place that cannot be resolved.
+ */
+export async function createSavedSearch(
+  userId: string,
+  input: SavedSearchInput
+): Promise<SavedSearch | null> {
+  const center = input.near ? resolveGeoCenter(input.near) : null;
+  if (input.near && !center) {
+    return null;
+  }
+
+  const filters: SavedSearch["filters"] = {
+    partnerTypes: input.partnerTypes,
+    priceRange: input.priceRange,
+    locations: input.locations,
+    cuisineTypes: input.cuisineTypes,
+    tourTypes: input.tourTypes,
+    serviceTypes: input.serviceTypes,
+    minRating: input.minRating,
+    sortBy: input.sortBy,
+    near:
+      center && input.near
+        ? { ...center, place: input.near.place, radiusKm: input.near.radiusKm }
+        : undefined,
+  };
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({
+      user_id: userId,
+      name: input.name,
+      query: input.query.trim(),
+      filters,
+      notify: input.notify,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save search: ${error.message}`);
+  }
+
+  // A failed baseline is retried by the job before any notification
+  let baselineRecorded = false;
+  try {
+    const matches = await findNewMatches(data as SavedSearchRow);
+    await recordMatches(
+      data.id,
+      matches.map(match => match.partner_id),
+      true
+    );
+    baselineRecorded = true;
+  } catch (baselineError) {
+    console.error(
+      "[SAVED_SEARCHES] Failed to record the current results:",
+      baselineError
+    );
+  }
+
+  return toSavedSearch({
+    ...(data as SavedSearchRow),
+    last_checked_at: baselineRecorded ? new Date().toISOString() : null,
+  });
+}
+
+/**
+ * Matching partners not recorded yet for the saved search, found with the
+ * same hybrid matching as the search page
+ */
+async function findNewMatches(
+  search: Pick<SavedSearchRow, "id" | "query">
+): Promise<NewMatchRow[]> {
+  const { query_embedding } = await buildHybridSearchArgs({
+    query: search.query,
+  });
+
+  const { data, error } = await supabase.rpc("saved_search_new_matches", {
+    p_saved_search_id: search.id,
+    p_query_embedding: query_embedding,
+  });
+
+  if (error) {
+    throw new Error(`Saved search evaluation failed: ${error.message}`);
+  }
+
+  return (data || []) as NewMatchRow[];
+}
+
+/**
+ * Marks the partners as seen and the search as checked
+ */
+async function recordMatches(
+  savedSearchId: string,
+  partnerIds: string[],
+  isBaseline: boolean
+): Promise<void> {
+  const { error } = await supabase.rpc("record_saved_search_matches", {
+    p_saved_search_id: savedSearchId,
+    p_partner_ids: partnerIds,
+    p_is_baseline: isBaseline,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record saved search matches: ${error.message}`);
+  }
+}
+
+/**
+ * Returns null when the search does not exist or belongs to another user
+ */
+export async function updateSavedSearch(
+  userId: string,
+  id: string,
+  changes: { name?: string; notify?: boolean }
+): Promise<SavedSearch | null> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update saved search: ${error.message}`);
+  }
+
+  return data ? toSavedSearch(data as SavedSearchRow) : null;
+}
+
+export async function deleteSavedSearch(
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete saved search: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Re-evaluates the saved searches not checked in the last interval and
+ * notifies their new matches: in-app always, by email when the user has
+ * email_notifications on. Batches are loaded until none is due or the time
+ * budget runs out. One failing search does not stop the others.
+ */
+export async function runSavedSearchAlerts(options: {
+  // Origin of the links in the emails
+  baseUrl: string;
+  batchSize?: number;
+  timeBudgetMs?: number;
+}): Promise<SavedSearchAlertsSummary> {
+  const dueBefore = new Date(
+    Date.now() - CHECK_INTERVAL_HOURS * 60 * 60 * 1000
+  ).toISOString();
+  const deadline = Date.now() + (options.timeBudgetMs ?? RUN_TIME_BUDGET_MS);
+
+  const summary: SavedSearchAlertsSummary = {
+    checked: 0,
+    newMatches: 0,
+    notifications: 0,
+    emails: 0,
+    failed: 0,
+  };
+  // Failed searches keep their last_checked_at: without this they would be
+  // loaded again in every batch of the run
+  const failedIds: string[] = [];
+
+  // Email preference and address, loaded once per user
+  const recipients = new Map<string, Promise<string | null>>();
+
+  while (Date.now() < deadline) {
+    const searches = await loadDueSavedSearches(
+      dueBefore,
+      failedIds,
+      options.batchSize ?? 100
+    );
+    if (searches.length === 0) break;
+    console.log(`[SAVED_SEARCHES] ${searches.length} saved searches due`);
+
+    for (const search of searches) {
+      if (Date.now() >= deadline) break;
+
+      try {
+        const wasBaseline = search.last_checked_at === null;
+        const matches = await findNewMatches(search);
+        const partnerIds = matches.map(match => match.partner_id);
+
+        if (wasBaseline || matches.length === 0) {
+          await recordMatches(search.id, partnerIds, wasBaseline);
+          summary.checked += 1;
+          continue;
+        }
+
+        // Matches are recorded only once the notification is stored: if it
+        // fails they are still new on the next run
+        const savedSearch = toSavedSearch(search);
+        await notifySavedSearchMatches(savedSearch, search.user_id, matches);
+        summary.notifications += 1;
+        await recordMatches(search.id, partnerIds, false);
+        summary.checked += 1;
+        summary.newMatches += matches.length;
+
+        if (!recipients.has(search.user_id)) {
+          recipients.set(search.user_id, getEmailRecipient(search.user_id));
+        }
+        const email = await recipients.get(search.user_id);
+        if (email) {
+          const sent = await sendSavedSearchEmail(
+            email,
+            savedSearch,
+            matches,
+            options.baseUrl
+          );
+          if (sent) summary.emails += 1;
+        }
+      } catch (searchError) {
+        summary.failed += 1;
+        failedIds.push(search.id);
+        console.error(
+          `[SAVED_SEARCHES] Saved search ${search.id} failed:`,
+          searchError
+        );
+      }
+    }
+  }
+
+  console.log("[SAVED_SEARCHES] Run completed:", summary);
+  return summary;
+}
+
+// Oldest due searches first, never checked ones before all the others
+async function loadDueSavedSearches(
+  dueBefore: string,
+  excludedIds: string[],
+  limit: number
+): Promise<SavedSearchRow[]> {
+  let query = supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("notify", true)
+    .or(`last_checked_at.is.null,last_checked_at.lt.${dueBefore}`);
+
+  if (excludedIds.length > 0) {
+    query = query.not("id", "in", `(${excludedIds.join(",")})`);
+  }
+
+  const { data, error } = await query
+    .order("last_checked_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load due saved searches: ${error.message}`);
+  }
+
+  return (data || []) as SavedSearchRow[];
+}
+
+function describeMatches(matches: NewMatchRow[]): string {
+  const names = matches
+    .slice(0, NOTIFIED_PARTNERS_PREVIEW)
+    .map(match => match.partner_name);
+  const others = matches.length - names.length;
+  return others > 0
+    ? `${names.join(", ")} e altri ${others}`
+    : names.join(", ");
+}
+
+function matchesTitle(search: SavedSearch, count: number): string {
+  return count === 1
+    ? `1 nuovo risultato per "${search.name}"`
+    : `${count} nuovi risultati per "${search.name}"`;
+}
+
+async function notifySavedSearchMatches(
+  search: SavedSearch,
+  userId: string,
+  matches: NewMatchRow[]
+): Promise<void> {
+  const { error } = await supabase.from("notifications").insert({
+    user_id: userId,
+    type: "saved_search_match",
+    title: matchesTitle(search, matches.length),
+    body: describeMatches(matches),
+    link: search.url,
+    data: {
+      savedSearchId: search.id,
+      partnerIds: matches.map(match => match.partner_id),
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to create notification: ${error.message}`);
+  }
+}
+
+/**
+ * Email address of a user with email notifications on, null otherwise
+ */
+async function getEmailRecipient(userId: string): Promise<string | null> {
+  if (!isEmailConfigured()) return null;
+
+  const { data: profile, error } = await supabase
+    .from("user_profiles")
+    .select("email_notifications")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(
+      "[SAVED_SEARCHES] Error fetching email preference:",
+      error.message
+    );
+    return null;
+  }
+  if (!profile?.email_notifications) return null;
+
+  const { data: authUser } = await supabase.auth.admin.getUserById(userId);
+  return authUser?.user?.email ?? null;
+}
+
+async function sendSavedSearchEmail(
+  to: string,
+  search: SavedSearch,
+  matches: NewMatchRow[],
+  baseUrl: string
+): Promise<boolean> {
+  const url = new URL(search.url, baseUrl).toString();
+  const subject = matchesTitle(search, matches.length);
+  const items = matches.slice(0, NOTIFIED_PARTNERS_PREVIEW * 2);
+  const others = matches.length - items.length;
+
+  const lines = items.map(
+    match =>
+      `- ${match.partner_name}${match.partner_location ? ` (${match.partner_location})` : ""}`
+  );
+  if (others > 0) lines.push(`e altri ${others}`);
+
+  try {
+    return await sendEmail({
+      to,
+      subject,
+      text: [
+        `Nuovi partner per la tua ricerca salvata "${search.name}":`,
+        "",
+        ...lines,
+        "",
+        `Vedi i risultati: ${url}`,
+      ].join("\n"),
+      html: `
+        <p>Nuovi partner per la tua ricerca salvata <strong>${escapeHtml(search.name)}</strong>:</p>
+        <ul>
+          ${items
+            .map(
+              match =>
+                `<li>${escapeHtml(match.partner_name)}${match.partner_location ? ` (${escapeHtml(match.partner_location)})` : ""}</li>`
+            )
+            .join("")}
+        </ul>
+        ${others > 0 ? `<p>e altri ${others}</p>` : ""}
+        <p><a href="${escapeHtml(url)}">Vedi i risultati</a></p>
+      `,
+    });
+  } catch (error) {
+    // The in-app notification is already saved
+    console.error("[SAVED_SEARCHES] Email failed:", error);
+    return false;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Search Filters
+ * Filters shared by the traditional search and its facet counts
+ */
+
+import { z } from "zod";
+import { geoFilterSchema } from "./geo";
+
+export const PARTNER_TYPE_FILTERS = [
+  "hotel",
+  "restaurant",
+  "tour",
+  "shuttle",
+  "experience",
+] as const;
+
+export const searchFiltersSchema = z.object({
+  query: z.string().default(""),
+  partnerTypes: z.array(z.enum(PARTNER_TYPE_FILTERS)).default([]),
+  priceRange: z.tuple([z.number().min(1), z.number().max(5)]).default([1, 5]),
+  locations: z.array(z.string()).default([]),
+  cuisineTypes: z.array(z.string()).optional(),
+  tourTypes: z.array(z.string()).optional(),
+  serviceTypes: z.array(z.string()).optional(),
+  minRating: z.number().min(0).max(5).optional(),
+  // Centre and radius of a distance search
+  near: geoFilterSchema.optional(),
+});
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+
+/**
+ * The partners view calls shuttles "transport"
+ */
+export function toViewPartnerType(type: string): string {
+  return type === "shuttle" ? "transport" : type;
+}
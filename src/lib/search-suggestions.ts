@@ -0,0 +1,159 @@
+/**
+ * Search Suggestions
+ * Search logging plus the autocomplete, trending and recent searches built
+ * on those logs
+ */
+
+import { supabase } from "./supabase-server";
+import { SEARCH_CONFIG } from "@/constants";
+
+const SEARCH_LOGGING_ENABLED = process.env.SEARCH_LOGGING_ENABLED !== "false";
+// Window of the trending searches
+const TRENDING_WINDOW_DAYS = 7;
+// Distinct signed-in users before a search is shown to everyone
+const TRENDING_MIN_USERS = parseInt(
+  process.env.TRENDING_SEARCHES_MIN_USERS || "3"
+);
+
+export interface SearchSuggestion {
+  id: string;
+  type: "location" | "activity" | "partner";
+  text: string;
+  category?: string;
+  // Partners of a location or activity
+  count?: number;
+  partnerId?: string;
+}
+
+export interface TrendingSearch {
+  text: string;
+  count: number;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  hotel: "Alloggi",
+  restaurant: "Ristorazione",
+  tour: "Tour",
+  experience: "Esperienze",
+  transport: "Trasporti",
+};
+
+interface SuggestionRow {
+  kind: SearchSuggestion["type"];
+  label: string;
+  category: string | null;
+  partner_id: string | null;
+  partners_count: number | string;
+}
+
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Saves a search for the trending and recent searches. Never throws and
+ * never delays the caller: a failed insert is only logged.
+ */
+export function recordSearch(search: {
+  query: string;
+  userId?: string;
+  resultsCount: number | null;
+}): void {
+  const normalizedQuery = normalizeSearchQuery(search.query);
+  if (
+    !SEARCH_LOGGING_ENABLED ||
+    normalizedQuery.length < SEARCH_CONFIG.minQueryLength
+  ) {
+    return;
+  }
+
+  void Promise.resolve(
+    supabase.from("search_logs").insert({
+      user_id: search.userId ?? null,
+      query: search.query.trim(),
+      normalized_query: normalizedQuery,
+      results_count: search.resultsCount,
+    })
+  )
+    .then(({ error }) => {
+      if (error) {
+        console.error("[SEARCH_LOGS] Failed to save search:", error.message);
+      }
+    })
+    .catch(error => {
+      console.error("[SEARCH_LOGS] Unexpected error saving search:", error);
+    });
+}
+
+/**
+ * Partner names, cities and activity keywords matching the prefix, typos
+ * included
+ */
+export async function suggestSearchTerms(
+  prefix: string,
+  limit: number
+): Promise<SearchSuggestion[]> {
+  const { data, error } = await supabase.rpc("suggest_search_terms", {
+    prefix,
+    max_results: limit,
+  });
+
+  if (error) {
+    throw new Error(`Search suggestions failed: ${error.message}`);
+  }
+
+  return ((data || []) as SuggestionRow[]).map((row, index) => ({
+    id: `${row.kind}-${row.partner_id ?? index}`,
+    type: row.kind,
+    text: row.label,
+    category:
+      row.kind === "location"
+        ? "Città"
+        : row.category
+          ? CATEGORY_LABELS[row.category] || row.category
+          : undefined,
+    count: row.kind === "partner" ? undefined : Number(row.partners_count),
+    partnerId: row.partner_id ?? undefined,
+  }));
+}
+
+/**
+ * Frequent searches of several users that name a partner, a city or an
+ * activity of the catalogue
+ */
+export async function getTrendingSearches(
+  limit: number
+): Promise<TrendingSearch[]> {
+  const since = new Date(
+    Date.now() - TRENDING_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+  const { data, error } = await supabase.rpc("trending_searches", {
+    since: since.toISOString(),
+    max_results: limit,
+    min_users: TRENDING_MIN_USERS,
+  });
+
+  if (error) {
+    throw new Error(`Trending searches failed: ${error.message}`);
+  }
+
+  return ((data || []) as { query: string; searches: number | string }[]).map(
+    row => ({ text: row.query, count: Number(row.searches) })
+  );
+}
+
+export async function getRecentSearches(
+  userId: string,
+  limit: number
+): Promise<string[]> {
+  const { data, error } = await supabase.rpc("recent_searches", {
+    p_user_id: userId,
+    max_results: limit,
+  });
+
+  if (error) {
+    throw new Error(`Recent searches failed: ${error.message}`);
+  }
+
+  return ((data || []) as { query: string }[]).map(row => row.query);
+}
@@ -102,7 +102,8 @@ export async function getServerAuthUser(): Promise<ServerAuthResult> {
       createdAt: authUser.user.created_at,
       lastSignInAt: authUser.user.last_sign_in_at || undefined,
       userMetadata: authUser.user.user_metadata || {},
-      role: authUser.user.user_metadata?.role || "user",
+      // Not user_metadata: users can edit that themselves
+      role: authUser.user.app_metadata?.role || "user",
     };
 
     return { user, error: null };
@@ -1,5 +1,5 @@
 import { createClient } from "@supabase/supabase-js";
-import { generateEmbeddings } from "./openai";
+import { toViewPartnerType } from "./search-filters";
 
 if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
   throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL environment variable");
@@ -22,7 +22,7 @@ export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
 export interface Partner {
   id: string;
   name: string;
-  type: "hotel" | "restaurant" | "tour" | "shuttle";
+  type: "hotel" | "restaurant" | "tour" | "shuttle" | "experience";
   description: string;
   location: string;
   price_range: string;
@@ -41,118 +41,7 @@ export interface Partner {
   embedding?: number[];
   created_at?: string;
   updated_at?: string;
-}
-
-export async function vectorSearch(
-  query: string,
-  partnerType?: Partner["type"],
-  limit: number = 10,
-  threshold: number = 0.3 // Optimized threshold for better results
-): Promise<Partner[]> {
-  try {
-    console.log(`[VECTOR_SEARCH] Starting search for query: "${query}"`);
-    console.log(
-      `[VECTOR_SEARCH] Parameters - partnerType: ${partnerType}, limit: ${limit}, threshold: ${threshold}`
-    );
-
-    // Generate embedding for the search query
-    console.log(`[VECTOR_SEARCH] Generating embedding for query...`);
-    const queryEmbedding = await generateEmbeddings(query);
-    console.log(
-      `[VECTOR_SEARCH] Generated embedding length: ${queryEmbedding.length}`
-    );
-    console.log(
-      `[VECTOR_SEARCH] First 5 embedding values: [${queryEmbedding.slice(0, 5).join(", ")}]`
-    );
-
-    console.log(`[VECTOR_SEARCH] Calling Supabase RPC match_partners...`);
-    const { data, error } = await supabase.rpc("match_partners", {
-      query_embedding: queryEmbedding,
-      match_threshold: threshold,
-      match_count: limit,
-    });
-
-    if (error) {
-      console.error("[VECTOR_SEARCH] Supabase vector search error:", error);
-      throw new Error(`Vector search failed: ${error.message}`);
-    }
-
-    console.log(
-      `[VECTOR_SEARCH] Raw RPC response - data length: ${data?.length || 0}`
-    );
-    console.log(`[VECTOR_SEARCH] Raw RPC data:`, JSON.stringify(data, null, 2));
-
-    let results = data || [];
-    console.log(`[VECTOR_SEARCH] Results before filtering: ${results.length}`);
-
-    // Filter by type if specified (since RPC doesn't support additional filters)
-    if (partnerType) {
-      console.log(`[VECTOR_SEARCH] Filtering by type: ${partnerType}`);
-      results = results.filter(
-        (partner: unknown) =>
-          typeof partner === "object" &&
-          partner !== null &&
-          "type" in partner &&
-          partner.type === partnerType
-      );
-      console.log(`[VECTOR_SEARCH] Results after filtering: ${results.length}`);
-    }
-
-    // Transform data to match Partner interface
-    console.log(
-      `[VECTOR_SEARCH] Mapping ${results.length} results to Partner interface...`
-    );
-    const mappedResults = results.map((partner: unknown) => {
-      // Type guard to ensure partner is an object with required properties
-      if (typeof partner !== "object" || partner === null) {
-        throw new Error("Invalid partner data received from database");
-      }
-
-      const partnerObj = partner as Record<string, unknown>;
-
-      return {
-        id: partnerObj.id as string,
-        name: partnerObj.name as string,
-        type: partnerObj.type as Partner["type"],
-        description: partnerObj.description as string,
-        location: partnerObj.location as string,
-        price_range: partnerObj.price_range as string,
-        rating:
-          typeof partnerObj.rating === "string"
-            ? parseFloat(partnerObj.rating as string)
-            : (partnerObj.rating as number),
-        amenities: (partnerObj.amenities as string[]) || [],
-        coordinates: partnerObj.coordinates as
-          | { lat: number; lng: number }
-          | undefined,
-        images: (partnerObj.images as string[]) || [],
-        contact_info: partnerObj.contact_info
-          ? {
-              phone: (partnerObj.contact_info as Record<string, unknown>)
-                .phone as string | undefined,
-              email: (partnerObj.contact_info as Record<string, unknown>)
-                .email as string | undefined,
-              website: (partnerObj.contact_info as Record<string, unknown>)
-                .website as string | undefined,
-            }
-          : undefined,
-        created_at: partnerObj.created_at as string | undefined,
-        updated_at: partnerObj.updated_at as string | undefined,
-      };
-    });
-
-    console.log(
-      `[VECTOR_SEARCH] Final results - returning ${mappedResults.length} partners`
-    );
-    console.log(
-      `[VECTOR_SEARCH] Partner names: [${mappedResults.map((p: Partner) => p.name).join(", ")}]`
-    );
-
-    return mappedResults;
-  } catch (error) {
-    console.error("[VECTOR_SEARCH] Error occurred:", error);
-    throw error;
-  }
+  distance_km?: number;
 }
 
 export async function getPartnersByIds(ids: string[]): Promise<Partner[]> {
@@ -191,7 +80,7 @@ export async function searchPartners(
     `);
 
     if (filters.type) {
-      query = query.eq("type", filters.type);
+      query = query.eq("type", toViewPartnerType(filters.type));
     }
 
     if (filters.location) {
@@ -222,7 +111,10 @@ export async function searchPartners(
       return {
         id: partnerObj.id as string,
         name: partnerObj.name as string,
-        type: partnerObj.type as Partner["type"],
+        // The view calls shuttles "transport"
+        type: (partnerObj.type === "transport"
+          ? "shuttle"
+          : partnerObj.type) as Partner["type"],
         description: partnerObj.description as string,
         location: partnerObj.location as string,
         price_range: partnerObj.price_range as string,
@@ -100,6 +100,7 @@ function parseJwtPayload(
   sub?: string;
   email?: string;
   email_confirmed_at?: string;
+  app_metadata?: { role?: unknown };
 } | null {
   try {
     const parts = token.split(".");
@@ -144,7 +145,13 @@ function getCurrentUserFromCookies(request: NextRequest): AuthUser | null {
       id: payload.sub || "",
       email: payload.email || "",
       emailConfirmed: payload.email_confirmed_at ? true : false,
-      // Role will be handled by pages that need it
+      // Unverified role: only gates navigation, admin APIs check it again.
+      // app_metadata is writable only with the service role, unlike
+      // user_metadata that every user can update
+      role:
+        typeof payload.app_metadata?.role === "string"
+          ? payload.app_metadata.role
+          : undefined,
     };
   } catch (error) {
     console.error("[MIDDLEWARE] Error parsing user from token:", error);
@@ -201,7 +208,7 @@ export async function middleware(request: NextRequest) {
   }
 
   const isAuthenticated = !!user;
-  const isAdmin = false; // We'll handle admin check in pages that need it
+  const isAdmin = user?.role === "admin";
 
   console.log(
     `[MIDDLEWARE] User: ${user?.email || "not authenticated"}, Token: ${accessTokenCookie?.value ? "present" : "missing"}`
@@ -30,6 +30,8 @@ export interface Partner {
   rating: number;
   reviewCount: number;
   priceRange: PriceRange;
+  price?: PartnerPrice;
+  distanceKm?: number; // only in radius searches
   location: Location;
   images: string[];
   features: string[];
@@ -49,6 +51,20 @@ export type PartnerType =
 
 export type PriceRange = "budget" | "mid-range" | "luxury" | "premium";
 
+/**
+ * Normalised price from the partner_prices view. Amounts are per night for
+ * hotels, per person for restaurants, tours and experiences, per trip for
+ * shuttles priced by vehicle.
+ */
+export interface PartnerPrice {
+  level: number | null; // 1-5
+  min: number | null;
+  max: number | null;
+  typical: number | null;
+  unit: "night" | "person" | "trip";
+  currency: string;
+}
+
 export interface Location {
   address: string;
   city: string;
@@ -91,6 +107,59 @@ export interface DateRange {
   endDate: string; // ISO date string
 }
 
+/**
+ * Result counts of each filter option for the current search, computed
+ * without the facet's own selection. Keys are the filter values (the price
+ * level and the minimum rating as strings).
+ */
+export interface SearchFacets {
+  partnerTypes: Record<string, number>;
+  locations: Record<string, number>;
+  priceLevels: Record<string, number>;
+  cuisineTypes: Record<string, number>;
+  tourTypes: Record<string, number>;
+  serviceTypes: Record<string, number>;
+  ratings: Record<string, number>;
+}
+
+/**
+ * Traditional search saved by a user, re-evaluated on a schedule to notify
+ * new matching partners
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: {
+    partnerTypes: string[];
+    priceRange: [number, number];
+    locations: string[];
+    cuisineTypes?: string[];
+    tourTypes?: string[];
+    serviceTypes?: string[];
+    minRating?: number;
+    sortBy?: string;
+    // Resolved centre of a radius search
+    near?: { lat: number; lng: number; place?: string; radiusKm: number };
+  };
+  notify: boolean;
+  // Search page with the saved query and filters
+  url: string;
+  lastCheckedAt: string | null;
+  createdAt: string;
+}
+
+export interface UserNotification {
+  id: string;
+  type: "saved_search_match";
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
 export interface SearchResult {
   partners: Partner[];
   total: number;
@@ -114,14 +183,88 @@ export interface ChatMessage {
     confidence?: number;
     progress?: unknown;
     plan?: string;
+    /** Traccia dell'orchestrazione che ha prodotto la risposta */
+    traceId?: string;
+    /** Domanda di chiarimento con le risposte rapide proposte */
+    clarification?: ClarificationRequest;
+    /** Preferenze del profilo usate come filtri nella ricerca */
+    appliedPreferences?: AppliedPreference[];
+    /** Partner citati nel testo e verificati tra i risultati */
+    partnerMentions?: PartnerMention[];
   };
   partners?: PartnerData[];
 }
 
+/**
+ * Citazione di un partner nella risposta dell'assistente, verificata tra i
+ * partner trovati dalla ricerca
+ */
+export interface PartnerMention {
+  partnerId: string;
+  /** Testo della citazione così come compare nella risposta */
+  text: string;
+}
+
+/**
+ * Preferenza salvata nel profilo applicata come filtro predefinito
+ * da un tool di ricerca
+ */
+export interface AppliedPreference {
+  preference: "budgetRange" | "dietaryRestrictions" | "preferredCurrency";
+  partnerType: PartnerData["type"];
+  value: string | number | string[];
+  /** Spiegazione mostrata all'utente */
+  description: string;
+}
+
+/**
+ * Turno di chiarimento: l'orchestratore chiede i dettagli mancanti invece
+ * di avviare gli agenti. Ogni opzione porta il testo da inviare come risposta.
+ */
+export interface ClarificationRequest {
+  question: string;
+  reasons: Array<"low_confidence" | "missing_location" | "missing_dates">;
+  prompts: ClarificationPrompt[];
+}
+
+export interface ClarificationChoice<T> {
+  label: string;
+  value: T;
+  reply: string;
+}
+
+export type ClarificationPrompt =
+  | {
+      field: "intent";
+      type: "choices";
+      label: string;
+      options: ClarificationChoice<PartnerData["type"]>[];
+    }
+  | {
+      field: "location";
+      type: "choices";
+      label: string;
+      options: ClarificationChoice<string>[];
+    }
+  | {
+      field: "partySize";
+      type: "choices";
+      label: string;
+      options: ClarificationChoice<number>[];
+    }
+  | {
+      field: "dates";
+      type: "date_range";
+      label: string;
+      /** Prima data selezionabile (YYYY-MM-DD) */
+      minDate: string;
+      presets: ClarificationChoice<{ start: string; end: string }>[];
+    };
+
 export interface PartnerData {
   id: string;
   name: string;
-  type: "hotel" | "restaurant" | "tour" | "shuttle";
+  type: "hotel" | "restaurant" | "tour" | "shuttle" | "experience";
   description: string;
   location: string;
   price_range: string;
@@ -154,6 +297,20 @@ export interface PartnerData {
     breakfast_included?: boolean;
     available_rooms?: number;
   };
+  similarity?: number;
+  relevance?: PartnerRelevance;
+  distance_to_hotel_km?: number;
+}
+
+export interface PartnerRelevance {
+  score: number;
+  components: {
+    similarity: number | null;
+    rating: number | null;
+    priceFit: number | null;
+    locationMatch: number | null;
+    availability: number | null;
+  };
 }
 
 export interface ChatSession {
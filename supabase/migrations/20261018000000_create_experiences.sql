@@ -0,0 +1,82 @@
+-- Esperienze: corsi di cucina, degustazioni di vino e attività simili
+create table if not exists public.experiences (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  experience_type text not null,
+  location text,
+  address text,
+  city text,
+  country text default 'Italy',
+  coordinates jsonb,
+  duration_hours numeric,
+  min_participants integer default 1,
+  max_participants integer,
+  price_per_person numeric,
+  price_range integer check (price_range between 1 and 5),
+  languages text[] default '{}',
+  includes text[] default '{}',
+  available_days text[] default '{}',
+  rating numeric,
+  phone text,
+  email text,
+  website text,
+  booking_url text,
+  primary_image_url text,
+  gallery_urls text[] default '{}',
+  is_featured boolean default false,
+  is_active boolean default true,
+  booking_count integer default 0,
+  vector_embedding vector(1536),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists experiences_city_idx on public.experiences (city);
+create index if not exists experiences_type_idx on public.experiences (experience_type);
+create index if not exists experiences_embedding_idx on public.experiences
+  using ivfflat (vector_embedding vector_cosine_ops) with (lists = 100);
+
+create or replace function public.match_experiences(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int
+)
+returns table (
+  id uuid,
+  name text,
+  description text,
+  experience_type text,
+  location text,
+  city text,
+  coordinates jsonb,
+  duration_hours numeric,
+  max_participants integer,
+  price_per_person numeric,
+  price_range integer,
+  languages text[],
+  includes text[],
+  rating numeric,
+  phone text,
+  email text,
+  website text,
+  booking_url text,
+  primary_image_url text,
+  gallery_urls text[],
+  similarity float
+)
+language sql stable
+as $$
+  select
+    e.id, e.name, e.description, e.experience_type, e.location, e.city,
+    e.coordinates, e.duration_hours, e.max_participants, e.price_per_person,
+    e.price_range, e.languages, e.includes, e.rating, e.phone, e.email,
+    e.website, e.booking_url, e.primary_image_url, e.gallery_urls,
+    1 - (e.vector_embedding <=> query_embedding) as similarity
+  from public.experiences e
+  where e.is_active
+    and e.vector_embedding is not null
+    and 1 - (e.vector_embedding <=> query_embedding) > match_threshold
+  order by e.vector_embedding <=> query_embedding
+  limit match_count;
+$$;
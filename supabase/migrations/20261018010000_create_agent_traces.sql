@@ -0,0 +1,30 @@
+-- Tracce di esecuzione dell'orchestratore: analisi, agenti, chiamate ai
+-- tool con argomenti e output, tempi, errori e token usati
+create table if not exists public.agent_traces (
+  id uuid primary key,
+  conversation_id uuid references public.conversations (id) on delete set null,
+  message_id uuid references public.chat_messages (id) on delete set null,
+  user_id uuid references auth.users (id) on delete set null,
+  query text not null,
+  status text not null check (status in ('running', 'completed', 'failed', 'cancelled')),
+  strategy text check (strategy in ('ANCHORED', 'PARALLEL', 'SEQUENTIAL')),
+  analysis jsonb,
+  anchor jsonb,
+  agents jsonb not null default '[]',
+  partners_returned integer not null default 0,
+  total_duration_ms integer not null default 0,
+  requests integer not null default 0,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists agent_traces_created_at_idx on public.agent_traces (created_at desc);
+create index if not exists agent_traces_conversation_idx on public.agent_traces (conversation_id);
+create index if not exists agent_traces_message_idx on public.agent_traces (message_id);
+create index if not exists agent_traces_status_idx on public.agent_traces (status);
+
+-- Accesso solo tramite service role (API admin)
+alter table public.agent_traces enable row level security;
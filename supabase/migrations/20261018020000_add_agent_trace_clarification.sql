@@ -0,0 +1,3 @@
+-- Domanda di chiarimento restituita al posto dell'esecuzione degli agenti
+alter table public.agent_traces
+  add column if not exists clarification jsonb;
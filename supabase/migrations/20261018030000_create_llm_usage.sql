@@ -0,0 +1,39 @@
+-- Consumo dei modelli OpenAI: una riga per chiamata (o run di un agente)
+-- con token e costo stimato, attribuita a richiesta, utente e conversazione
+create table if not exists public.llm_usage (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid,
+  route text,
+  user_id uuid references auth.users (id) on delete set null,
+  -- Anche gli ID di sessione locali (non UUID) del client
+  conversation_id text,
+  model text not null,
+  operation text not null,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  -- null se il modello non è nel listino
+  cost_usd numeric(12, 6),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists llm_usage_user_created_at_idx on public.llm_usage (user_id, created_at desc);
+create index if not exists llm_usage_request_idx on public.llm_usage (request_id);
+create index if not exists llm_usage_created_at_idx on public.llm_usage (created_at desc);
+
+-- Accesso solo tramite service role
+alter table public.llm_usage enable row level security;
+
+-- Budget giornaliero personalizzato (USD), null = valore predefinito
+alter table public.user_profiles
+  add column if not exists daily_llm_budget_usd numeric(10, 2);
+
+-- Spesa stimata di un utente da un certo istante (inizio giornata)
+create or replace function public.get_llm_spend_since(p_user_id uuid, p_since timestamptz)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(cost_usd), 0)
+  from public.llm_usage
+  where user_id = p_user_id and created_at >= p_since;
+$$;
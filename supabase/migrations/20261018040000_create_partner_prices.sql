@@ -0,0 +1,123 @@
+-- Modello di prezzo numerico comune a tutti i tipi di partner.
+-- price_range è un intero 1-5 nelle tabelle per tipo e una fascia testuale
+-- nella vista partners: non si può ordinare né filtrare per prezzo reale.
+
+-- Hotel e ristoranti non hanno importi: prezzo per notte / per persona
+alter table public.hotels
+  add column if not exists price_min numeric,
+  add column if not exists price_max numeric,
+  add column if not exists price_currency text not null default 'EUR';
+
+alter table public.restaurants
+  add column if not exists price_min numeric,
+  add column if not exists price_max numeric,
+  add column if not exists price_currency text not null default 'EUR';
+
+alter table public.tours
+  add column if not exists price_currency text not null default 'EUR';
+
+alter table public.shuttles
+  add column if not exists price_currency text not null default 'EUR';
+
+alter table public.experiences
+  add column if not exists price_currency text not null default 'EUR';
+
+-- Livello 1-5 stimato da un importo, con soglie diverse per notte e persona
+create or replace function public.price_level_for(amount numeric, unit text)
+returns integer
+language sql immutable
+as $$
+  select case
+    when amount is null then null
+    when unit = 'night' then
+      case
+        when amount < 80 then 1
+        when amount < 150 then 2
+        when amount < 250 then 3
+        when amount < 400 then 4
+        else 5
+      end
+    else
+      case
+        when amount < 20 then 1
+        when amount < 40 then 2
+        when amount < 70 then 3
+        when amount < 120 then 4
+        else 5
+      end
+  end;
+$$;
+
+create or replace view public.partner_prices as
+  select
+    h.id,
+    coalesce(
+      h.price_range,
+      public.price_level_for(coalesce(h.price_min, h.price_max), 'night')
+    ) as price_level,
+    h.price_min,
+    h.price_max,
+    coalesce(h.price_min, h.price_max) as price_typical,
+    'night'::text as price_unit,
+    h.price_currency
+  from public.hotels h
+  union all
+  select
+    r.id,
+    coalesce(
+      r.price_range,
+      public.price_level_for(coalesce(r.price_min, r.price_max), 'person')
+    ),
+    r.price_min,
+    r.price_max,
+    coalesce(r.price_min, r.price_max),
+    'person',
+    r.price_currency
+  from public.restaurants r
+  union all
+  select
+    t.id,
+    public.price_level_for(t.price_adult, 'person'),
+    least(t.price_child, t.price_adult),
+    t.price_adult,
+    t.price_adult,
+    'person',
+    t.price_currency
+  from public.tours t
+  union all
+  select
+    s.id,
+    public.price_level_for(coalesce(s.price_per_person, s.price_one_way), 'person'),
+    least(s.price_per_person, s.price_one_way),
+    greatest(s.price_per_person, s.price_one_way, s.price_round_trip),
+    coalesce(s.price_per_person, s.price_one_way, s.price_per_vehicle),
+    case
+      when coalesce(s.price_per_person, s.price_one_way) is null
+        and s.price_per_vehicle is not null then 'trip'
+      else 'person'
+    end,
+    s.price_currency
+  from public.shuttles s
+  union all
+  select
+    e.id,
+    coalesce(e.price_range, public.price_level_for(e.price_per_person, 'person')),
+    e.price_per_person,
+    e.price_per_person,
+    e.price_per_person,
+    'person',
+    e.price_currency
+  from public.experiences e;
+
+-- Vista partners con il prezzo numerico, usata dalla ricerca tradizionale
+create or replace view public.partners_with_prices as
+  select
+    p.*,
+    pp.price_level,
+    pp.price_min,
+    pp.price_max,
+    pp.price_typical,
+    pp.price_unit,
+    pp.price_currency
+  from public.partners p
+  left join public.partner_prices pp on pp.id = p.id;
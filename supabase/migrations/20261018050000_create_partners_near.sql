@@ -0,0 +1,72 @@
+-- Ricerca per raggio: partner entro radius_km da un punto, con la distanza.
+-- Le coordinate sono jsonb { lat, lng } (o { latitude, longitude }).
+
+-- Distanza in linea d'aria in km (formula di haversine)
+create or replace function public.distance_km(
+  lat1 float,
+  lng1 float,
+  lat2 float,
+  lng2 float
+)
+returns float
+language sql immutable
+as $$
+  select 6371 * 2 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) *
+    power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+-- Stesse colonne lette dalla ricerca tradizionale su partners_with_prices,
+-- così la route può applicare filtri, ordinamento e paginazione all'RPC
+create or replace function public.partners_near(
+  center_lat float,
+  center_lng float,
+  radius_km float
+)
+returns table (
+  id text,
+  name text,
+  type text,
+  description text,
+  location text,
+  price_range text,
+  rating numeric,
+  amenities text[],
+  coordinates jsonb,
+  contact_info jsonb,
+  images text[],
+  created_at timestamptz,
+  updated_at timestamptz,
+  price_level integer,
+  price_min numeric,
+  price_max numeric,
+  price_typical numeric,
+  price_unit text,
+  price_currency text,
+  distance_km float
+)
+language sql stable
+as $$
+  select
+    p.id::text, p.name::text, p.type::text, p.description::text,
+    p.location::text, p.price_range::text, p.rating::numeric,
+    p.amenities::text[], p.coordinates::jsonb, p.contact_info::jsonb,
+    p.images::text[], p.created_at, p.updated_at,
+    p.price_level, p.price_min, p.price_max, p.price_typical, p.price_unit,
+    p.price_currency,
+    public.distance_km(center_lat, center_lng, c.lat, c.lng) as distance_km
+  from public.partners_with_prices p
+  cross join lateral (
+    select
+      coalesce(p.coordinates->>'lat', p.coordinates->>'latitude')::float as lat,
+      coalesce(p.coordinates->>'lng', p.coordinates->>'longitude')::float as lng
+  ) c
+  where c.lat is not null
+    and c.lng is not null
+    -- Riquadro approssimato (1° di latitudine ≈ 111 km) prima della distanza
+    and c.lat between center_lat - radius_km / 111.0
+      and center_lat + radius_km / 111.0
+    and public.distance_km(center_lat, center_lng, c.lat, c.lng) <= radius_km;
+$$;
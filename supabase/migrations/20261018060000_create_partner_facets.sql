@@ -0,0 +1,169 @@
+-- Conteggi dei filtri della ricerca tradizionale (faccette).
+-- Ogni faccetta conta i risultati della ricerca corrente senza la propria
+-- selezione: scegliere un'opzione con conteggio N restituisce N risultati.
+-- I filtri replicano quelli della route /api/search/traditional.
+
+create or replace function public.partner_facets(
+  -- Testo con % e \ già protetti, come nel filtro ilike della route
+  search_query text default '',
+  partner_types text[] default '{}',
+  locations text[] default '{}',
+  price_from integer default 1,
+  price_to integer default 5,
+  min_rating numeric default null,
+  cuisine_types text[] default '{}',
+  tour_types text[] default '{}',
+  service_types text[] default '{}',
+  center_lat float default null,
+  center_lng float default null,
+  radius_km float default null,
+  -- Opzioni della sidebar da contare per località, cucina, tour e servizio
+  location_options text[] default '{}',
+  cuisine_options text[] default '{}',
+  tour_type_options text[] default '{}',
+  service_type_options text[] default '{}',
+  rating_bands numeric[] default '{4.5,4,3.5,3}'
+)
+returns jsonb
+language sql stable
+as $$
+  with candidates as (
+    -- Testo e raggio valgono per tutte le faccette
+    select
+      p.id,
+      p.type,
+      p.location,
+      p.price_level,
+      p.rating,
+      r.cuisine_type,
+      t.tour_type,
+      s.service_type
+    from public.partners_with_prices p
+    left join public.restaurants r on r.id = p.id and r.is_active
+    left join public.tours t on t.id = p.id and t.is_active
+    left join public.shuttles s on s.id = p.id and s.is_active
+    where (
+        coalesce(trim(search_query), '') = ''
+        or p.name ilike '%' || trim(search_query) || '%'
+        or p.description ilike '%' || trim(search_query) || '%'
+        or p.location ilike '%' || trim(search_query) || '%'
+      )
+      and (
+        center_lat is null
+        or p.id::text in (
+          select n.id from public.partners_near(center_lat, center_lng, radius_km) n
+        )
+      )
+  ),
+  matched as (
+    -- Un flag per filtro: ogni faccetta richiede tutti i flag tranne il suo
+    select
+      c.*,
+      (cardinality(partner_types) = 0 or c.type = any(partner_types)) as by_type,
+      (
+        cardinality(locations) = 0
+        or exists (
+          select 1 from unnest(locations) l where c.location ilike '%' || l || '%'
+        )
+      ) as by_location,
+      (
+        (price_from <= 1 and price_to >= 5)
+        or c.price_level between price_from and price_to
+      ) as by_price,
+      (min_rating is null or c.rating >= min_rating) as by_rating,
+      -- Come nella route: il filtro vale solo per il proprio tipo
+      (
+        cardinality(cuisine_types) = 0
+        or c.type <> 'restaurant'
+        or exists (
+          select 1 from unnest(cuisine_types) v
+          where c.cuisine_type ilike '%' || v || '%'
+        )
+      ) as by_cuisine,
+      (
+        cardinality(tour_types) = 0
+        or c.type <> 'tour'
+        or exists (
+          select 1 from unnest(tour_types) v
+          where c.tour_type ilike '%' || v || '%'
+        )
+      ) as by_tour,
+      (
+        cardinality(service_types) = 0
+        or c.type <> 'transport'
+        or exists (
+          select 1 from unnest(service_types) v
+          where c.service_type ilike '%' || v || '%'
+        )
+      ) as by_service
+    from candidates c
+  )
+  select jsonb_build_object(
+    'partnerTypes', (
+      select jsonb_object_agg(pt, (
+        select count(*) from matched m
+        where m.type = pt
+          and m.by_location and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_tour and m.by_service
+      ))
+      from unnest(array['hotel', 'restaurant', 'tour', 'transport', 'experience']) pt
+    ),
+    'locations', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.location ilike '%' || o || '%'
+          and m.by_type and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_tour and m.by_service
+      )), '{}'::jsonb)
+      from unnest(location_options) o
+    ),
+    'priceLevels', (
+      select jsonb_object_agg(lvl, (
+        select count(*) from matched m
+        where m.price_level = lvl
+          and m.by_type and m.by_location and m.by_rating
+          and m.by_cuisine and m.by_tour and m.by_service
+      ))
+      from generate_series(1, 5) lvl
+    ),
+    'cuisineTypes', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.type = 'restaurant'
+          and m.cuisine_type ilike '%' || o || '%'
+          and m.by_type and m.by_location and m.by_price and m.by_rating
+          and m.by_tour and m.by_service
+      )), '{}'::jsonb)
+      from unnest(cuisine_options) o
+    ),
+    'tourTypes', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.type = 'tour'
+          and m.tour_type ilike '%' || o || '%'
+          and m.by_type and m.by_location and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_service
+      )), '{}'::jsonb)
+      from unnest(tour_type_options) o
+    ),
+    'serviceTypes', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.type = 'transport'
+          and m.service_type ilike '%' || o || '%'
+          and m.by_type and m.by_location and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_tour
+      )), '{}'::jsonb)
+      from unnest(service_type_options) o
+    ),
+    'ratings', (
+      select coalesce(jsonb_object_agg(band::text, (
+        select count(*) from matched m
+        where m.rating >= band
+          and m.by_type and m.by_location and m.by_price
+          and m.by_cuisine and m.by_tour and m.by_service
+      )), '{}'::jsonb)
+      from unnest(rating_bands) band
+    )
+  );
+$$;
@@ -0,0 +1,147 @@
+-- Ricerca ibrida: full-text italiano e similarità vettoriale fuse con la
+-- reciprocal rank fusion (RRF). I filtri per tipo, località e raggio sono
+-- applicati prima del ranking, così non si perdono risultati dopo il limite.
+
+-- Documento testuale del partner con lo stemming italiano
+create or replace function public.partner_search_document(
+  name text,
+  description text,
+  location text
+)
+returns tsvector
+language sql immutable
+as $$
+  select
+    setweight(to_tsvector('italian', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('italian', coalesce(location, '')), 'B') ||
+    setweight(to_tsvector('italian', coalesce(description, '')), 'C');
+$$;
+
+-- Stesse colonne di partners_near, più i punteggi della fusione
+create or replace function public.hybrid_search_partners(
+  query_text text,
+  -- null quando l'embedding non è disponibile: resta solo il full-text
+  query_embedding vector(1536) default null,
+  -- Candidati per ciascuna delle due classifiche
+  match_count integer default 50,
+  match_threshold float default 0.3,
+  partner_types text[] default '{}',
+  locations text[] default '{}',
+  center_lat float default null,
+  center_lng float default null,
+  radius_km float default null,
+  rrf_k integer default 60
+)
+returns table (
+  id text,
+  name text,
+  type text,
+  description text,
+  location text,
+  price_range text,
+  rating numeric,
+  amenities text[],
+  coordinates jsonb,
+  contact_info jsonb,
+  images text[],
+  created_at timestamptz,
+  updated_at timestamptz,
+  price_level integer,
+  price_min numeric,
+  price_max numeric,
+  price_typical numeric,
+  price_unit text,
+  price_currency text,
+  distance_km float,
+  similarity float,
+  text_rank integer,
+  semantic_rank integer,
+  rrf_score float
+)
+language sql stable
+as $$
+  with source as (
+    select
+      p.id::text as id, p.name::text as name, p.type::text as type,
+      p.description::text as description, p.location::text as location,
+      p.price_range::text as price_range, p.rating::numeric as rating,
+      p.amenities::text[] as amenities, p.coordinates::jsonb as coordinates,
+      p.contact_info::jsonb as contact_info, p.images::text[] as images,
+      p.created_at, p.updated_at,
+      p.price_level, p.price_min, p.price_max, p.price_typical, p.price_unit,
+      p.price_currency,
+      null::float as distance_km
+    from public.partners_with_prices p
+    where center_lat is null
+    union all
+    select n.*
+    from public.partners_near(center_lat, center_lng, radius_km) n
+    where center_lat is not null
+  ),
+  filtered as (
+    select s.*
+    from source s
+    where (cardinality(partner_types) = 0 or s.type = any(partner_types))
+      and (
+        cardinality(locations) = 0
+        or exists (
+          select 1 from unnest(locations) l where s.location ilike '%' || l || '%'
+        )
+      )
+  ),
+  -- Termini in OR: le domande in linguaggio naturale raramente contengono
+  -- tutte le parole del partner; ts_rank_cd premia chi ne contiene di più
+  terms as (
+    select nullif(
+      replace(plainto_tsquery('italian', query_text)::text, '&', '|'),
+      ''
+    )::tsquery as query
+  ),
+  lexical as (
+    select
+      f.id,
+      row_number() over (
+        order by
+          (f.name ilike '%' || trim(query_text) || '%') desc,
+          ts_rank_cd(
+            public.partner_search_document(f.name, f.description, f.location),
+            coalesce(t.query, ''::tsquery)
+          ) desc,
+          f.id
+      )::integer as rank
+    from filtered f, terms t
+    where trim(query_text) <> ''
+      and (
+        public.partner_search_document(f.name, f.description, f.location)
+          @@ t.query
+        -- Nomi digitati a metà ("Danie"), che lo stemming non riconosce
+        or f.name ilike '%' || trim(query_text) || '%'
+      )
+    order by rank
+    limit match_count
+  ),
+  semantic as (
+    select
+      f.id,
+      1 - (e.embedding <=> query_embedding) as similarity,
+      row_number() over (order by e.embedding <=> query_embedding)::integer as rank
+    from filtered f
+    join public.partners e on e.id::text = f.id
+    where query_embedding is not null
+      and e.embedding is not null
+      and 1 - (e.embedding <=> query_embedding) > match_threshold
+    order by e.embedding <=> query_embedding
+    limit match_count
+  )
+  select
+    f.*,
+    s.similarity,
+    l.rank as text_rank,
+    s.rank as semantic_rank,
+    coalesce(1.0 / (rrf_k + l.rank), 0) +
+      coalesce(1.0 / (rrf_k + s.rank), 0) as rrf_score
+  from filtered f
+  left join lexical l on l.id = f.id
+  left join semantic s on s.id = f.id
+  where l.id is not null or s.id is not null;
+$$;
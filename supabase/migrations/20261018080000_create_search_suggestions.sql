@@ -0,0 +1,146 @@
+-- Autocompletamento della ricerca: suggerimenti tolleranti agli errori di
+-- battitura (pg_trgm) su nomi dei partner, città e parole chiave delle
+-- attività, più le ricerche di tendenza e recenti dai log reali.
+
+create extension if not exists pg_trgm;
+
+-- Ricerche eseguite da /api/search/traditional: una riga per prima pagina
+-- di una ricerca con testo
+create table if not exists public.search_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  query text not null,
+  -- Minuscolo e senza spazi ripetuti: raggruppa le varianti della stessa ricerca
+  normalized_query text not null,
+  results_count integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists search_logs_created_at_idx on public.search_logs (created_at desc);
+create index if not exists search_logs_user_created_at_idx on public.search_logs (user_id, created_at desc);
+
+-- Accesso solo tramite service role
+alter table public.search_logs enable row level security;
+
+-- Suggerimenti per un prefisso: corrispondenza all'inizio di una parola o
+-- somiglianza per trigrammi, così "fireze" trova ancora "Firenze"
+create or replace function public.suggest_search_terms(
+  prefix text,
+  max_results integer default 8,
+  min_similarity float default 0.4
+)
+returns table (
+  kind text,
+  label text,
+  category text,
+  partner_id text,
+  partners_count bigint,
+  score float
+)
+language sql stable
+as $$
+  with search as (
+    select lower(trim(prefix)) as term
+  ),
+  terms as (
+    -- Nomi dei partner
+    select
+      'partner'::text as kind,
+      p.name::text as label,
+      p.type::text as category,
+      p.id::text as partner_id,
+      1::bigint as partners_count
+    from public.partners p
+    union all
+    -- Città: ultima parte dell'indirizzo, come nella ricerca tradizionale
+    select 'location', c.city, null, null, count(*)
+    from public.partners p
+    cross join lateral (
+      select trim(regexp_replace(p.location, '^.*,', '')) as city
+    ) c
+    where c.city <> ''
+    group by c.city
+    union all
+    -- Parole chiave delle attività dai campi dei tipi
+    select 'activity', k.keyword, k.category, null, count(*)
+    from (
+      select r.cuisine_type as keyword, 'restaurant' as category
+      from public.restaurants r where r.is_active
+      union all
+      select t.tour_type, 'tour' from public.tours t where t.is_active
+      union all
+      select e.experience_type, 'experience'
+      from public.experiences e where e.is_active
+      union all
+      select s.service_type, 'transport' from public.shuttles s where s.is_active
+    ) k
+    where coalesce(k.keyword, '') <> ''
+    group by k.keyword, k.category
+  ),
+  scored as (
+    select
+      t.*,
+      case
+        when lower(t.label) like i.term || '%' then 1.0
+        when lower(t.label) like '% ' || i.term || '%' then 0.9
+        else word_similarity(i.term, lower(t.label))
+      end as score
+    from terms t, search i
+    where length(i.term) > 0
+  )
+  select s.kind, s.label, s.category, s.partner_id, s.partners_count, s.score
+  from scored s
+  where s.score >= min_similarity
+  order by s.score desc, s.partners_count desc, length(s.label), s.label
+  limit max_results;
+$$;
+
+-- Ricerche più frequenti del periodo con almeno un risultato. Gli utenti
+-- distinti pesano più delle ripetizioni dello stesso utente.
+create or replace function public.trending_searches(
+  since timestamptz,
+  max_results integer default 5,
+  min_searches integer default 2
+)
+returns table (
+  query text,
+  searches bigint,
+  users bigint
+)
+language sql stable
+as $$
+  select
+    mode() within group (order by l.query) as query,
+    count(*) as searches,
+    count(distinct l.user_id) as users
+  from public.search_logs l
+  where l.created_at >= since
+    and l.results_count > 0
+    and length(l.normalized_query) >= 3
+  group by l.normalized_query
+  having count(*) >= min_searches
+  order by count(distinct l.user_id) desc, count(*) desc
+  limit max_results;
+$$;
+
+-- Ultime ricerche distinte di un utente
+create or replace function public.recent_searches(
+  p_user_id uuid,
+  max_results integer default 5
+)
+returns table (
+  query text,
+  searched_at timestamptz
+)
+language sql stable
+as $$
+  select r.query, r.created_at as searched_at
+  from (
+    select distinct on (l.normalized_query) l.query, l.created_at
+    from public.search_logs l
+    where l.user_id = p_user_id
+    order by l.normalized_query, l.created_at desc
+  ) r
+  order by r.created_at desc
+  limit max_results;
+$$;
@@ -0,0 +1,195 @@
+-- Ricerche salvate: testo e filtri della ricerca tradizionale, rivalutati
+-- periodicamente da /api/cron/saved-searches. I nuovi partner corrispondenti
+-- diventano notifiche in-app (ed email, con email_notifications attivo).
+
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  query text not null default '',
+  -- Filtri come in TraditionalSearchFilters (partnerTypes, priceRange,
+  -- locations, ...); near è già risolto in { lat, lng, radiusKm }
+  filters jsonb not null default '{}'::jsonb,
+  notify boolean not null default true,
+  -- null finché la prima valutazione non registra i risultati esistenti
+  last_checked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_created_at_idx on public.saved_searches (user_id, created_at desc);
+create index if not exists saved_searches_due_idx on public.saved_searches (last_checked_at nulls first) where notify;
+
+-- Partner già visti da una ricerca salvata: solo quelli mai visti sono nuovi
+create table if not exists public.saved_search_matches (
+  saved_search_id uuid not null references public.saved_searches (id) on delete cascade,
+  partner_id text not null,
+  -- Risultati presenti al salvataggio, mai notificati
+  is_baseline boolean not null default false,
+  matched_at timestamptz not null default now(),
+  primary key (saved_search_id, partner_id)
+);
+
+-- Notifiche in-app dell'utente
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null,
+  title text not null,
+  body text,
+  -- Pagina aperta dal clic sulla notifica
+  link text,
+  data jsonb not null default '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_created_at_idx on public.notifications (user_id, created_at desc);
+create index if not exists notifications_user_unread_idx on public.notifications (user_id) where read_at is null;
+
+-- Accesso solo tramite service role
+alter table public.saved_searches enable row level security;
+alter table public.saved_search_matches enable row level security;
+alter table public.notifications enable row level security;
+
+-- Valuta una ricerca salvata e registra i partner mai visti. Alla prima
+-- valutazione i risultati esistenti sono la base e non vengono restituiti.
+-- I filtri replicano quelli della route /api/search/traditional (testo in
+-- ilike, come partner_facets).
+create or replace function public.refresh_saved_search(p_saved_search_id uuid)
+returns table (
+  partner_id text,
+  partner_name text,
+  partner_type text,
+  partner_location text
+)
+language plpgsql
+as $$
+#variable_conflict use_column
+declare
+  s public.saved_searches%rowtype;
+  search_text text;
+  partner_types text[];
+  locations text[];
+  cuisine_types text[];
+  tour_types text[];
+  service_types text[];
+  price_from integer;
+  price_to integer;
+  min_rating numeric;
+  center_lat float;
+  center_lng float;
+  radius_km float;
+  is_baseline boolean;
+begin
+  select * into s from public.saved_searches where id = p_saved_search_id;
+  if not found then
+    return;
+  end if;
+
+  -- % e \ protetti come nel filtro ilike della route
+  search_text := replace(replace(trim(s.query), '\', '\\'), '%', '\%');
+  -- Il client chiama "shuttle" il tipo "transport" della vista
+  partner_types := array(
+    select case when t = 'shuttle' then 'transport' else t end
+    from jsonb_array_elements_text(coalesce(s.filters -> 'partnerTypes', '[]')) t
+  );
+  locations := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'locations', '[]'))
+  );
+  cuisine_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'cuisineTypes', '[]'))
+  );
+  tour_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'tourTypes', '[]'))
+  );
+  service_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'serviceTypes', '[]'))
+  );
+  price_from := coalesce((s.filters -> 'priceRange' ->> 0)::integer, 1);
+  price_to := coalesce((s.filters -> 'priceRange' ->> 1)::integer, 5);
+  min_rating := (s.filters ->> 'minRating')::numeric;
+  center_lat := (s.filters -> 'near' ->> 'lat')::float;
+  center_lng := (s.filters -> 'near' ->> 'lng')::float;
+  radius_km := (s.filters -> 'near' ->> 'radiusKm')::float;
+  is_baseline := s.last_checked_at is null;
+
+  return query
+  with matches as (
+    select
+      p.id::text as id,
+      p.name::text as name,
+      p.type::text as type,
+      p.location::text as location
+    from public.partners_with_prices p
+    left join public.restaurants r on r.id = p.id and r.is_active
+    left join public.tours t on t.id = p.id and t.is_active
+    left join public.shuttles sh on sh.id = p.id and sh.is_active
+    where (
+        search_text = ''
+        or p.name ilike '%' || search_text || '%'
+        or p.description ilike '%' || search_text || '%'
+        or p.location ilike '%' || search_text || '%'
+      )
+      and (cardinality(partner_types) = 0 or p.type = any(partner_types))
+      and (
+        cardinality(locations) = 0
+        or exists (
+          select 1 from unnest(locations) l where p.location ilike '%' || l || '%'
+        )
+      )
+      and (
+        (price_from <= 1 and price_to >= 5)
+        or p.price_level between price_from and price_to
+      )
+      and (min_rating is null or p.rating >= min_rating)
+      -- Come nella route: i filtri di un tipo non escludono gli altri tipi
+      and (
+        cardinality(cuisine_types) = 0
+        or p.type <> 'restaurant'
+        or exists (
+          select 1 from unnest(cuisine_types) v
+          where r.cuisine_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        cardinality(tour_types) = 0
+        or p.type <> 'tour'
+        or exists (
+          select 1 from unnest(tour_types) v
+          where t.tour_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        cardinality(service_types) = 0
+        or p.type <> 'transport'
+        or exists (
+          select 1 from unnest(service_types) v
+          where sh.service_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        center_lat is null
+        or p.id::text in (
+          select n.id from public.partners_near(center_lat, center_lng, radius_km) n
+        )
+      )
+  ),
+  inserted as (
+    insert into public.saved_search_matches (saved_search_id, partner_id, is_baseline)
+    select p_saved_search_id, m.id, is_baseline
+    from matches m
+    on conflict do nothing
+    returning saved_search_matches.partner_id
+  )
+  select m.id, m.name, m.type, m.location
+  from matches m
+  join inserted i on i.partner_id = m.id
+  where not is_baseline
+  order by m.name;
+
+  update public.saved_searches
+  set last_checked_at = now()
+  where id = p_saved_search_id;
+end;
+$$;
@@ -0,0 +1,59 @@
+-- Le esperienze nella vista unificata partners: senza questo ramo ricerca
+-- tradizionale, faccette, raggio, ricerca ibrida, suggerimenti, ricerche
+-- salvate e /partner/[id] non restituiscono mai un'esperienza.
+
+-- La vista esistente (hotel, ristoranti, tour, shuttle) resta come base;
+-- partners_with_prices la seguirebbe nel rinomino e va ricreata
+drop view if exists public.partners_with_prices;
+alter view public.partners rename to partners_core;
+
+create view public.partners as
+  select
+    c.id, c.name, c.type, c.description, c.location, c.price_range,
+    c.rating, c.amenities, c.coordinates, c.contact_info, c.images,
+    c.created_at, c.updated_at, c.embedding
+  from public.partners_core c
+  union all
+  select
+    e.id,
+    e.name,
+    'experience',
+    e.description,
+    coalesce(e.location, e.city),
+    -- Stesse fasce testuali degli altri tipi (PRICE_RANGE_LEVELS)
+    case
+      when e.price_range is null then null
+      when e.price_range <= 1 then 'budget'
+      when e.price_range = 2 then 'mid-range'
+      when e.price_range = 3 then 'luxury'
+      else 'premium'
+    end,
+    e.rating,
+    coalesce(e.includes, '{}'),
+    e.coordinates,
+    jsonb_strip_nulls(
+      jsonb_build_object('phone', e.phone, 'email', e.email, 'website', e.website)
+    ),
+    array_remove(array[e.primary_image_url] || coalesce(e.gallery_urls, '{}'), null),
+    e.created_at,
+    e.updated_at,
+    e.vector_embedding
+  from public.experiences e
+  where e.is_active;
+
+grant select on public.partners to anon, authenticated, service_role;
+
+-- Vista partners con il prezzo numerico, usata dalla ricerca tradizionale
+create view public.partners_with_prices as
+  select
+    p.*,
+    pp.price_level,
+    pp.price_min,
+    pp.price_max,
+    pp.price_typical,
+    pp.price_unit,
+    pp.price_currency
+  from public.partners p
+  left join public.partner_prices pp on pp.id = p.id;
+
+grant select on public.partners_with_prices to anon, authenticated, service_role;
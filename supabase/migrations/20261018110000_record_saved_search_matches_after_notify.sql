@@ -0,0 +1,156 @@
+-- I nuovi risultati di una ricerca salvata si registrano solo dopo aver
+-- salvato la notifica: se la notifica fallisce, il job li ritrova al giro
+-- successivo invece di considerarli già visti.
+
+drop function if exists public.refresh_saved_search(uuid);
+
+-- Partner di una ricerca salvata non ancora registrati, senza registrarli.
+-- I filtri replicano quelli della route /api/search/traditional (testo in
+-- ilike, come partner_facets).
+create or replace function public.saved_search_new_matches(p_saved_search_id uuid)
+returns table (
+  partner_id text,
+  partner_name text,
+  partner_type text,
+  partner_location text
+)
+language plpgsql stable
+as $$
+#variable_conflict use_column
+declare
+  s public.saved_searches%rowtype;
+  search_text text;
+  partner_types text[];
+  locations text[];
+  cuisine_types text[];
+  tour_types text[];
+  service_types text[];
+  price_from integer;
+  price_to integer;
+  min_rating numeric;
+  center_lat float;
+  center_lng float;
+  radius_km float;
+begin
+  select * into s from public.saved_searches where id = p_saved_search_id;
+  if not found then
+    return;
+  end if;
+
+  -- % e \ protetti come nel filtro ilike della route
+  search_text := replace(replace(trim(s.query), '\', '\\'), '%', '\%');
+  -- Il client chiama "shuttle" il tipo "transport" della vista
+  partner_types := array(
+    select case when t = 'shuttle' then 'transport' else t end
+    from jsonb_array_elements_text(coalesce(s.filters -> 'partnerTypes', '[]')) t
+  );
+  locations := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'locations', '[]'))
+  );
+  cuisine_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'cuisineTypes', '[]'))
+  );
+  tour_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'tourTypes', '[]'))
+  );
+  service_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'serviceTypes', '[]'))
+  );
+  price_from := coalesce((s.filters -> 'priceRange' ->> 0)::integer, 1);
+  price_to := coalesce((s.filters -> 'priceRange' ->> 1)::integer, 5);
+  min_rating := (s.filters ->> 'minRating')::numeric;
+  center_lat := (s.filters -> 'near' ->> 'lat')::float;
+  center_lng := (s.filters -> 'near' ->> 'lng')::float;
+  radius_km := (s.filters -> 'near' ->> 'radiusKm')::float;
+
+  return query
+  with matches as (
+    select
+      p.id::text as id,
+      p.name::text as name,
+      p.type::text as type,
+      p.location::text as location
+    from public.partners_with_prices p
+    left join public.restaurants r on r.id = p.id and r.is_active
+    left join public.tours t on t.id = p.id and t.is_active
+    left join public.shuttles sh on sh.id = p.id and sh.is_active
+    where (
+        search_text = ''
+        or p.name ilike '%' || search_text || '%'
+        or p.description ilike '%' || search_text || '%'
+        or p.location ilike '%' || search_text || '%'
+      )
+      and (cardinality(partner_types) = 0 or p.type = any(partner_types))
+      and (
+        cardinality(locations) = 0
+        or exists (
+          select 1 from unnest(locations) l where p.location ilike '%' || l || '%'
+        )
+      )
+      and (
+        (price_from <= 1 and price_to >= 5)
+        or p.price_level between price_from and price_to
+      )
+      and (min_rating is null or p.rating >= min_rating)
+      -- Come nella route: i filtri di un tipo non escludono gli altri tipi
+      and (
+        cardinality(cuisine_types) = 0
+        or p.type <> 'restaurant'
+        or exists (
+          select 1 from unnest(cuisine_types) v
+          where r.cuisine_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        cardinality(tour_types) = 0
+        or p.type <> 'tour'
+        or exists (
+          select 1 from unnest(tour_types) v
+          where t.tour_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        cardinality(service_types) = 0
+        or p.type <> 'transport'
+        or exists (
+          select 1 from unnest(service_types) v
+          where sh.service_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        center_lat is null
+        or p.id::text in (
+          select n.id from public.partners_near(center_lat, center_lng, radius_km) n
+        )
+      )
+  )
+  select m.id, m.name, m.type, m.location
+  from matches m
+  where not exists (
+    select 1
+    from public.saved_search_matches x
+    where x.saved_search_id = p_saved_search_id
+      and x.partner_id = m.id
+  )
+  order by m.name;
+end;
+$$;
+
+-- Registra i partner come visti e segna la ricerca come controllata.
+-- is_baseline: risultati presenti al salvataggio, mai notificati.
+create or replace function public.record_saved_search_matches(
+  p_saved_search_id uuid,
+  p_partner_ids text[],
+  p_is_baseline boolean default false
+)
+returns void
+language sql
+as $$
+  insert into public.saved_search_matches (saved_search_id, partner_id, is_baseline)
+  select p_saved_search_id, unnest(p_partner_ids), p_is_baseline
+  on conflict do nothing;
+
+  update public.saved_searches
+  set last_checked_at = now()
+  where id = p_saved_search_id;
+$$;
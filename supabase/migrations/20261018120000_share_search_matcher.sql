@@ -0,0 +1,474 @@
+-- Un solo criterio di corrispondenza per risultati, faccette e ricerche
+-- salvate: prima i conteggi e gli avvisi usavano un ilike sul testo mentre
+-- i risultati usavano la classifica ibrida, e i filtri di prezzo,
+-- valutazione e tipo specifico erano applicati dalla route dopo il limite
+-- dei candidati, perdendo risultati.
+
+drop function if exists public.hybrid_search_partners(
+  text, vector, integer, float, text[], text[], float, float, float, integer
+);
+drop function if exists public.partner_facets(
+  text, text[], text[], integer, integer, numeric, text[], text[], text[],
+  float, float, float, text[], text[], text[], text[], numeric[]
+);
+drop function if exists public.saved_search_new_matches(uuid);
+
+-- Partner che corrispondono al testo: full-text in OR, nome digitato a metà
+-- oppure similarità vettoriale sopra la soglia. Nessun limite di candidati:
+-- i filtri di chi la usa decidono quanti risultati restano.
+create or replace function public.partner_search_matches(
+  query_text text,
+  -- null quando l'embedding non è disponibile: resta solo il full-text
+  query_embedding vector(1536) default null,
+  match_threshold float default 0.3,
+  rrf_k integer default 60
+)
+returns table (
+  id text,
+  similarity float,
+  text_rank integer,
+  semantic_rank integer,
+  rrf_score float
+)
+language sql stable
+as $$
+  -- Termini in OR: le domande in linguaggio naturale raramente contengono
+  -- tutte le parole del partner; ts_rank_cd premia chi ne contiene di più
+  with terms as (
+    select
+      nullif(
+        replace(plainto_tsquery('italian', query_text)::text, '&', '|'),
+        ''
+      )::tsquery as query,
+      -- \, % e _ protetti: il testo è cercato alla lettera nel nome
+      '%' || replace(replace(replace(
+        trim(coalesce(query_text, '')), '\', '\\'), '%', '\%'), '_', '\_'
+      ) || '%' as name_pattern
+  ),
+  lexical as (
+    select
+      p.id::text as id,
+      row_number() over (
+        order by
+          (p.name ilike t.name_pattern) desc,
+          ts_rank_cd(
+            public.partner_search_document(p.name, p.description, p.location),
+            coalesce(t.query, ''::tsquery)
+          ) desc,
+          p.id
+      )::integer as rank
+    from public.partners p, terms t
+    where trim(coalesce(query_text, '')) <> ''
+      and (
+        public.partner_search_document(p.name, p.description, p.location)
+          @@ t.query
+        -- Nomi digitati a metà ("Danie"), che lo stemming non riconosce
+        or p.name ilike t.name_pattern
+      )
+  ),
+  semantic as (
+    select
+      p.id::text as id,
+      1 - (p.embedding <=> query_embedding) as similarity,
+      row_number() over (order by p.embedding <=> query_embedding)::integer as rank
+    from public.partners p
+    where query_embedding is not null
+      and p.embedding is not null
+      and 1 - (p.embedding <=> query_embedding) > match_threshold
+  )
+  select
+    coalesce(l.id, s.id),
+    s.similarity,
+    l.rank,
+    s.rank,
+    coalesce(1.0 / (rrf_k + l.rank), 0) + coalesce(1.0 / (rrf_k + s.rank), 0)
+  from lexical l
+  full join semantic s on s.id = l.id;
+$$;
+
+-- Stesse colonne di partners_near, più i punteggi della fusione. Tutti i
+-- filtri della ricerca tradizionale sono applicati qui, prima del limite.
+-- Senza testo né embedding restituisce tutti i partner filtrati.
+create or replace function public.hybrid_search_partners(
+  query_text text default '',
+  query_embedding vector(1536) default null,
+  match_threshold float default 0.3,
+  partner_types text[] default '{}',
+  locations text[] default '{}',
+  price_from integer default 1,
+  price_to integer default 5,
+  min_rating numeric default null,
+  cuisine_types text[] default '{}',
+  tour_types text[] default '{}',
+  service_types text[] default '{}',
+  center_lat float default null,
+  center_lng float default null,
+  radius_km float default null,
+  rrf_k integer default 60
+)
+returns table (
+  id text,
+  name text,
+  type text,
+  description text,
+  location text,
+  price_range text,
+  rating numeric,
+  amenities text[],
+  coordinates jsonb,
+  contact_info jsonb,
+  images text[],
+  created_at timestamptz,
+  updated_at timestamptz,
+  price_level integer,
+  price_min numeric,
+  price_max numeric,
+  price_typical numeric,
+  price_unit text,
+  price_currency text,
+  distance_km float,
+  similarity float,
+  text_rank integer,
+  semantic_rank integer,
+  rrf_score float
+)
+language sql stable
+as $$
+  with source as (
+    select
+      p.id::text as id, p.name::text as name, p.type::text as type,
+      p.description::text as description, p.location::text as location,
+      p.price_range::text as price_range, p.rating::numeric as rating,
+      p.amenities::text[] as amenities, p.coordinates::jsonb as coordinates,
+      p.contact_info::jsonb as contact_info, p.images::text[] as images,
+      p.created_at, p.updated_at,
+      p.price_level, p.price_min, p.price_max, p.price_typical, p.price_unit,
+      p.price_currency,
+      null::float as distance_km
+    from public.partners_with_prices p
+    where center_lat is null
+    union all
+    select n.*
+    from public.partners_near(center_lat, center_lng, radius_km) n
+    where center_lat is not null
+  ),
+  filtered as (
+    select s.*
+    from source s
+    left join public.restaurants r on r.id::text = s.id and r.is_active
+    left join public.tours t on t.id::text = s.id and t.is_active
+    left join public.shuttles sh on sh.id::text = s.id and sh.is_active
+    where (cardinality(partner_types) = 0 or s.type = any(partner_types))
+      and (
+        cardinality(locations) = 0
+        or exists (
+          select 1 from unnest(locations) l where s.location ilike '%' || l || '%'
+        )
+      )
+      -- Con un intervallo di prezzo i partner senza prezzo noto sono esclusi
+      and (
+        (price_from <= 1 and price_to >= 5)
+        or s.price_level between price_from and price_to
+      )
+      and (min_rating is null or s.rating >= min_rating)
+      -- I filtri di un tipo non escludono gli altri tipi
+      and (
+        cardinality(cuisine_types) = 0
+        or s.type <> 'restaurant'
+        or exists (
+          select 1 from unnest(cuisine_types) v
+          where r.cuisine_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        cardinality(tour_types) = 0
+        or s.type <> 'tour'
+        or exists (
+          select 1 from unnest(tour_types) v
+          where t.tour_type ilike '%' || v || '%'
+        )
+      )
+      and (
+        cardinality(service_types) = 0
+        or s.type <> 'transport'
+        or exists (
+          select 1 from unnest(service_types) v
+          where sh.service_type ilike '%' || v || '%'
+        )
+      )
+  )
+  select
+    f.*,
+    m.similarity,
+    m.text_rank,
+    m.semantic_rank,
+    coalesce(m.rrf_score, 0) as rrf_score
+  from filtered f
+  left join public.partner_search_matches(
+    query_text, query_embedding, match_threshold, rrf_k
+  ) m on m.id = f.id
+  where m.id is not null
+    or (trim(coalesce(query_text, '')) = '' and query_embedding is null);
+$$;
+
+-- Conteggi delle faccette con lo stesso criterio testuale dei risultati
+create or replace function public.partner_facets(
+  search_query text default '',
+  -- Embedding del testo, come per hybrid_search_partners
+  query_embedding vector(1536) default null,
+  match_threshold float default 0.3,
+  partner_types text[] default '{}',
+  locations text[] default '{}',
+  price_from integer default 1,
+  price_to integer default 5,
+  min_rating numeric default null,
+  cuisine_types text[] default '{}',
+  tour_types text[] default '{}',
+  service_types text[] default '{}',
+  center_lat float default null,
+  center_lng float default null,
+  radius_km float default null,
+  -- Opzioni della sidebar da contare per località, cucina, tour e servizio
+  location_options text[] default '{}',
+  cuisine_options text[] default '{}',
+  tour_type_options text[] default '{}',
+  service_type_options text[] default '{}',
+  rating_bands numeric[] default '{4.5,4,3.5,3}'
+)
+returns jsonb
+language sql stable
+as $$
+  with candidates as (
+    -- Testo e raggio valgono per tutte le faccette: stesso criterio dei risultati
+    select
+      p.id,
+      p.type,
+      p.location,
+      p.price_level,
+      p.rating,
+      r.cuisine_type,
+      t.tour_type,
+      s.service_type
+    from public.partners_with_prices p
+    left join public.restaurants r on r.id = p.id and r.is_active
+    left join public.tours t on t.id = p.id and t.is_active
+    left join public.shuttles s on s.id = p.id and s.is_active
+    where (
+        (coalesce(trim(search_query), '') = '' and query_embedding is null)
+        or p.id::text in (
+          select m.id
+          from public.partner_search_matches(
+            search_query, query_embedding, match_threshold
+          ) m
+        )
+      )
+      and (
+        center_lat is null
+        or p.id::text in (
+          select n.id from public.partners_near(center_lat, center_lng, radius_km) n
+        )
+      )
+  ),
+  matched as (
+    -- Un flag per filtro: ogni faccetta richiede tutti i flag tranne il suo
+    select
+      c.*,
+      (cardinality(partner_types) = 0 or c.type = any(partner_types)) as by_type,
+      (
+        cardinality(locations) = 0
+        or exists (
+          select 1 from unnest(locations) l where c.location ilike '%' || l || '%'
+        )
+      ) as by_location,
+      (
+        (price_from <= 1 and price_to >= 5)
+        or c.price_level between price_from and price_to
+      ) as by_price,
+      (min_rating is null or c.rating >= min_rating) as by_rating,
+      -- Come nella route: il filtro vale solo per il proprio tipo
+      (
+        cardinality(cuisine_types) = 0
+        or c.type <> 'restaurant'
+        or exists (
+          select 1 from unnest(cuisine_types) v
+          where c.cuisine_type ilike '%' || v || '%'
+        )
+      ) as by_cuisine,
+      (
+        cardinality(tour_types) = 0
+        or c.type <> 'tour'
+        or exists (
+          select 1 from unnest(tour_types) v
+          where c.tour_type ilike '%' || v || '%'
+        )
+      ) as by_tour,
+      (
+        cardinality(service_types) = 0
+        or c.type <> 'transport'
+        or exists (
+          select 1 from unnest(service_types) v
+          where c.service_type ilike '%' || v || '%'
+        )
+      ) as by_service
+    from candidates c
+  )
+  select jsonb_build_object(
+    'partnerTypes', (
+      select jsonb_object_agg(pt, (
+        select count(*) from matched m
+        where m.type = pt
+          and m.by_location and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_tour and m.by_service
+      ))
+      from unnest(array['hotel', 'restaurant', 'tour', 'transport', 'experience']) pt
+    ),
+    'locations', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.location ilike '%' || o || '%'
+          and m.by_type and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_tour and m.by_service
+      )), '{}'::jsonb)
+      from unnest(location_options) o
+    ),
+    'priceLevels', (
+      select jsonb_object_agg(lvl, (
+        select count(*) from matched m
+        where m.price_level = lvl
+          and m.by_type and m.by_location and m.by_rating
+          and m.by_cuisine and m.by_tour and m.by_service
+      ))
+      from generate_series(1, 5) lvl
+    ),
+    'cuisineTypes', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.type = 'restaurant'
+          and m.cuisine_type ilike '%' || o || '%'
+          and m.by_type and m.by_location and m.by_price and m.by_rating
+          and m.by_tour and m.by_service
+      )), '{}'::jsonb)
+      from unnest(cuisine_options) o
+    ),
+    'tourTypes', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.type = 'tour'
+          and m.tour_type ilike '%' || o || '%'
+          and m.by_type and m.by_location and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_service
+      )), '{}'::jsonb)
+      from unnest(tour_type_options) o
+    ),
+    'serviceTypes', (
+      select coalesce(jsonb_object_agg(o, (
+        select count(*) from matched m
+        where m.type = 'transport'
+          and m.service_type ilike '%' || o || '%'
+          and m.by_type and m.by_location and m.by_price and m.by_rating
+          and m.by_cuisine and m.by_tour
+      )), '{}'::jsonb)
+      from unnest(service_type_options) o
+    ),
+    'ratings', (
+      select coalesce(jsonb_object_agg(band::text, (
+        select count(*) from matched m
+        where m.rating >= band
+          and m.by_type and m.by_location and m.by_price
+          and m.by_cuisine and m.by_tour and m.by_service
+      )), '{}'::jsonb)
+      from unnest(rating_bands) band
+    )
+  );
+$$;
+
+-- Partner di una ricerca salvata non ancora registrati: gli stessi che la
+-- pagina di ricerca mostrerebbe con quei filtri
+create or replace function public.saved_search_new_matches(
+  p_saved_search_id uuid,
+  -- Embedding del testo salvato, calcolato dal job come per la ricerca
+  p_query_embedding vector(1536) default null
+)
+returns table (
+  partner_id text,
+  partner_name text,
+  partner_type text,
+  partner_location text
+)
+language plpgsql stable
+as $$
+#variable_conflict use_column
+declare
+  s public.saved_searches%rowtype;
+  partner_types text[];
+  locations text[];
+  cuisine_types text[];
+  tour_types text[];
+  service_types text[];
+  price_from integer;
+  price_to integer;
+  min_rating numeric;
+  center_lat float;
+  center_lng float;
+  radius_km float;
+begin
+  select * into s from public.saved_searches where id = p_saved_search_id;
+  if not found then
+    return;
+  end if;
+
+  -- Il client chiama "shuttle" il tipo "transport" della vista
+  partner_types := array(
+    select case when t = 'shuttle' then 'transport' else t end
+    from jsonb_array_elements_text(coalesce(s.filters -> 'partnerTypes', '[]')) t
+  );
+  locations := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'locations', '[]'))
+  );
+  cuisine_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'cuisineTypes', '[]'))
+  );
+  tour_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'tourTypes', '[]'))
+  );
+  service_types := array(
+    select jsonb_array_elements_text(coalesce(s.filters -> 'serviceTypes', '[]'))
+  );
+  price_from := coalesce((s.filters -> 'priceRange' ->> 0)::integer, 1);
+  price_to := coalesce((s.filters -> 'priceRange' ->> 1)::integer, 5);
+  min_rating := (s.filters ->> 'minRating')::numeric;
+  center_lat := (s.filters -> 'near' ->> 'lat')::float;
+  center_lng := (s.filters -> 'near' ->> 'lng')::float;
+  radius_km := (s.filters -> 'near' ->> 'radiusKm')::float;
+
+  return query
+  with matches as (
+    select h.id, h.name, h.type, h.location
+    from public.hybrid_search_partners(
+      query_text => s.query,
+      query_embedding => p_query_embedding,
+      partner_types => partner_types,
+      locations => locations,
+      price_from => price_from,
+      price_to => price_to,
+      min_rating => min_rating,
+      cuisine_types => cuisine_types,
+      tour_types => tour_types,
+      service_types => service_types,
+      center_lat => center_lat,
+      center_lng => center_lng,
+      radius_km => radius_km
+    ) h
+  )
+  select m.id, m.name, m.type, m.location
+  from matches m
+  where not exists (
+    select 1
+    from public.saved_search_matches x
+    where x.saved_search_id = p_saved_search_id
+      and x.partner_id = m.id
+  )
+  order by m.name;
+end;
+$$;
+
@@ -0,0 +1,64 @@
+-- Le ricerche di tendenza sono mostrate a tutti: un solo utente che ripete
+-- una ricerca, o un testo qualsiasi con risultati, non deve comparire.
+-- Servono più utenti distinti e un termine noto del catalogo.
+
+drop function if exists public.trending_searches(timestamptz, integer, integer);
+
+create or replace function public.trending_searches(
+  since timestamptz,
+  max_results integer default 5,
+  min_searches integer default 2,
+  -- Utenti autenticati distinti: le ricerche anonime non contano
+  min_users integer default 3
+)
+returns table (
+  query text,
+  searches bigint,
+  users bigint
+)
+language sql stable
+as $$
+  -- Stessi termini dei suggerimenti: nomi dei partner, città e parole
+  -- chiave delle attività
+  with known_terms as (
+    select distinct lower(trim(k.term)) as term
+    from (
+      select p.name::text as term from public.partners p
+      union all
+      select regexp_replace(p.location, '^.*,', '') from public.partners p
+      union all
+      select r.cuisine_type from public.restaurants r where r.is_active
+      union all
+      select t.tour_type from public.tours t where t.is_active
+      union all
+      select e.experience_type from public.experiences e where e.is_active
+      union all
+      select s.service_type from public.shuttles s where s.is_active
+    ) k
+    where length(trim(coalesce(k.term, ''))) >= 3
+  ),
+  trending as (
+    select
+      mode() within group (order by l.query) as query,
+      l.normalized_query,
+      count(*) as searches,
+      count(distinct l.user_id) as users
+    from public.search_logs l
+    where l.created_at >= since
+      and l.results_count > 0
+      and length(l.normalized_query) >= 3
+    group by l.normalized_query
+    having count(*) >= min_searches
+      and count(distinct l.user_id) >= min_users
+  )
+  select t.query, t.searches, t.users
+  from trending t
+  where exists (
+    -- Il termine compare come parole intere: "roma" non vale per "romantico"
+    select 1
+    from known_terms k
+    where strpos(' ' || t.normalized_query || ' ', ' ' || k.term || ' ') > 0
+  )
+  order by t.users desc, t.searches desc
+  limit max_results;
+$$;
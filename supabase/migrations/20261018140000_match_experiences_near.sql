@@ -0,0 +1,60 @@
+-- Ricerca vettoriale delle esperienze entro il raggio dell'ancora: il
+-- raggio va applicato prima del limite, altrimenti le esperienze più simili
+-- ma lontane lasciano fuori quelle vicine all'hotel scelto.
+
+drop function if exists public.match_experiences(vector, float, int);
+
+create or replace function public.match_experiences(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  -- Centro e raggio facoltativi, come in hybrid_search_partners
+  center_lat float default null,
+  center_lng float default null,
+  radius_km float default null
+)
+returns table (
+  id uuid,
+  name text,
+  description text,
+  experience_type text,
+  location text,
+  city text,
+  coordinates jsonb,
+  duration_hours numeric,
+  max_participants integer,
+  price_per_person numeric,
+  price_range integer,
+  languages text[],
+  includes text[],
+  rating numeric,
+  phone text,
+  email text,
+  website text,
+  booking_url text,
+  primary_image_url text,
+  gallery_urls text[],
+  similarity float
+)
+language sql stable
+as $$
+  select
+    e.id, e.name, e.description, e.experience_type, e.location, e.city,
+    e.coordinates, e.duration_hours, e.max_participants, e.price_per_person,
+    e.price_range, e.languages, e.includes, e.rating, e.phone, e.email,
+    e.website, e.booking_url, e.primary_image_url, e.gallery_urls,
+    1 - (e.vector_embedding <=> query_embedding) as similarity
+  from public.experiences e
+  where e.is_active
+    and e.vector_embedding is not null
+    and 1 - (e.vector_embedding <=> query_embedding) > match_threshold
+    and (
+      center_lat is null
+      or e.id::text in (
+        select n.id from public.partners_near(center_lat, center_lng, radius_km) n
+        where n.type = 'experience'
+      )
+    )
+  order by e.vector_embedding <=> query_embedding
+  limit match_count;
+$$;